@@ -1,143 +1,1004 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Camera, X } from 'lucide-react';
-import { generateCaption } from './services/geminiService.ts';
+import React, { useState, useRef, useEffect, useLayoutEffect } from 'react';
+import { Camera, X, Undo2, Redo2, ImagePlus, Clapperboard, Mic, MicOff, MousePointer2, ScanFace, Presentation } from 'lucide-react';
+import { getDefaultCaptionStyle } from './services/captionService.ts';
+import { CaptionCancelledError, cancelCaption, describeCaptionError, requestCaption, requestTags } from './services/captionQueue.ts';
+import { DEFAULT_WALL_ID, createWall, loadWalls, saveWalls } from './services/storageService.ts';
+import { FILM_STOCKS, applyFilmStock } from './services/filmStocks.ts';
+import {
+  DevelopmentConfig,
+  advanceDevelopment,
+  decayAgitation,
+  getDevelopmentConfig,
+  setDevelopmentConfig,
+} from './services/developmentService.ts';
+import { getCardLayout } from './services/cardLayout.ts';
+import { composeStrip } from './services/photoStrip.ts';
+import { DEFAULT_EDITS, renderPhoto } from './services/photoPipeline.ts';
+import { DEFAULT_FRAME_TEMPLATE, addCustomFrames, subscribeFrameTemplates } from './services/frameTemplates.ts';
+import { importImageFile, isImageFile } from './services/importService.ts';
+import { WallBundle, remapItemIds } from './services/wallBundle.ts';
+import { DECORATION_LABELS, DecorationTemplate, createDecoration, createInkStroke } from './services/decorations.ts';
+import {
+  ItemPlacement,
+  SavedLayout,
+  WallLayoutMode,
+  arrangePhotos,
+  attachDecorations,
+  getSavedLayouts,
+  pickPlacement,
+  saveLayouts,
+} from './services/wallLayouts.ts';
+import { EMPTY_QUERY, PhotoQuery, isQueryActive, searchPhotos } from './services/photoSearch.ts';
+import { Participant, SyncSession, SyncStatus, applyRemoteChanges, createSyncSession } from './services/syncService.ts';
+import {
+  DEFAULT_VIEWPORT,
+  Viewport,
+  centerOn,
+  clampZoom,
+  fitBounds,
+  getSavedViewports,
+  itemBounds,
+  saveViewports,
+  screenToWorld,
+  unionBounds,
+  visibleBounds,
+  worldToScreen,
+  zoomAt,
+} from './services/viewport.ts';
+import {
+  CAMERA_ERROR_MESSAGES,
+  CameraErrorKind,
+  CameraSettings,
+  classifyCameraError,
+  getCameraSettings,
+  isUserFacing,
+  openCamera,
+  openMicrophone,
+  setCameraSettings,
+} from './services/cameraService.ts';
+import {
+  AutoFrameSettings,
+  Crop,
+  Framing,
+  analyzeFrame,
+  centerCrop,
+  easeCrop,
+  facesInCrop,
+  getAutoFrameSettings,
+  setAutoFrameSettings,
+} from './services/autoFraming.ts';
+import {
+  CLIP_SIZE,
+  ClipRecorder,
+  LiveClipSettings,
+  createClipRecorder,
+  getLiveClipSettings,
+  isLiveClipSupported,
+  setLiveClipSettings,
+} from './services/liveClip.ts';
+import {
+  EMPTY_HISTORY,
+  HistoryCommand,
+  applyCommand,
+  editedPhotoIds,
+  pickHistoryFields,
+  pushCommand,
+  redo,
+  undo,
+} from './services/historyService.ts';
 import { Polaroid } from './components/Polaroid.tsx';
-import { PhotoData, Position } from './types.ts';
+import { CaptionSettings } from './components/CaptionSettings.tsx';
+import { ExportMenu } from './components/ExportMenu.tsx';
+import { WallSwitcher } from './components/WallSwitcher.tsx';
+import { CameraSettingsPanel } from './components/CameraSettingsPanel.tsx';
+import { LayoutMenu } from './components/LayoutMenu.tsx';
+import { Minimap } from './components/Minimap.tsx';
+import { DecorationItem } from './components/DecorationItem.tsx';
+import { DecorationsMenu, InkTool } from './components/DecorationsMenu.tsx';
+import { InkLayer } from './components/InkLayer.tsx';
+import { SearchBar } from './components/SearchBar.tsx';
+import { SharePanel } from './components/SharePanel.tsx';
+import { Slideshow } from './components/Slideshow.tsx';
+import { Decoration, FaceBox, FilmStockId, PhotoData, PhotoLayout, Position, Wall, WallItem } from './types.ts';
 
 // Constants for Camera Layout
 const CAMERA_SIZE = 450;
-const PHOTO_WIDTH = 240;
-const PHOTO_HEIGHT = 320;
+const SAVE_THROTTLE_MS = 400;
+const DEVELOP_TICK_MS = 250; // Cards interpolate between ticks, so this can stay coarse
+const SHAKE_SPEED = 1.2; // px/ms of drag motion that starts to count as shaking
+const SHAKE_GAIN = 0.15; // Agitation added per fast move event
+const PREVIEW_SIZE = 160; // Viewfinder preview resolution, kept small so the film pipeline runs every frame
+const PREVIEW_SEED = 42; // Fixed so grain and light leaks don't flicker in the viewfinder
+const FILM_STOCK_KEY = 'bao.filmStock';
+const ACTIVE_WALL_KEY = 'bao.activeWall';
+const AUTO_TAG_KEY = 'bao.autoTag';
+const BOOTH_FRAMES = 4;
+const BOOTH_COUNTDOWN = 3; // Seconds before the first frame
+const BOOTH_INTERVAL_MS = 1500;
+const FLASH_MS = 150;
+const KEYBOARD_NUDGE = 10; // px per arrow press
+const KEYBOARD_NUDGE_FAST = 50; // With Shift
+const LAYOUT_ANIMATION_MS = 600;
+const LAYOUT_MARGIN = 32;
+const LAYOUT_TOP = 80; // Below the toolbar buttons
+const VIEW_ANIMATION_MS = 400;
+const VIEW_SAVE_DEBOUNCE_MS = 500;
+const WHEEL_ZOOM_SPEED = 0.0015; // Per pixel of wheel delta
+const PINCH_WHEEL_ZOOM_SPEED = 0.01; // Trackpad pinches arrive as ctrl+wheel with small deltas
+const FIT_MARGIN = 80;
+const GRID_SPACING = 24; // Dot grid on the wall, in world px
+const FRAMING_INTERVAL_MS = 250; // How often auto-framing looks for faces
+const SEARCH_DIMMED: React.CSSProperties = { opacity: 0.25, filter: 'grayscale(1)' }; // Items outside the search results
+
+// Draws a square of the video frame (the center one unless auto-framing
+// picked another) into a size×size canvas, mirrored for user-facing cameras
+const drawVideoCrop = (ctx: CanvasRenderingContext2D, vid: HTMLVideoElement, size: number, mirror: boolean, crop: Crop | null) => {
+  const { sx, sy, size: cropSize } = crop || centerCrop(vid.videoWidth, vid.videoHeight);
+
+  ctx.save();
+  if (mirror) {
+    // Horizontal flip for mirror effect
+    ctx.translate(size, 0);
+    ctx.scale(-1, 1);
+  }
+  ctx.drawImage(vid, sx, sy, cropSize, cropSize, 0, 0, size, size);
+  ctx.restore();
+};
+
+// A capture as shot, and as shown with its film look
+type CaptureImages = Pick<PhotoData, 'original' | 'dataUrl'>;
+
+// Highest z-index in use; new and raised items go just above it
+const topZIndex = (items: WallItem[]) => Math.max(...items.map(item => item.zIndex), 100);
+
+interface PhotoTransform {
+  position: Position;
+  rotation: number;
+  scale: number;
+}
+
+interface GestureState {
+  id: string;
+  historyKey: string; // Every frame of one gesture merges into a single undo step
+  pointers: Map<number, Position>; // Live pointer positions
+  basePointers: Map<number, Position>; // Pointer positions when the gesture was (re)based
+  base: PhotoTransform; // Photo transform at that moment
+  current: PhotoTransform;
+}
+
+// Panning the wall itself: one pointer drags the view, two also pinch-zoom
+interface PanState {
+  pointers: Map<number, Position>; // Screen px
+  basePointers: Map<number, Position>;
+  baseView: Viewport;
+}
+
+const MIN_PHOTO_SCALE = 0.4;
+const MAX_PHOTO_SCALE = 3;
+
+const rebaseGesture = (
+  id: string,
+  historyKey: string,
+  pointers: Map<number, Position>,
+  transform: PhotoTransform
+): GestureState => ({
+  id,
+  historyKey,
+  pointers,
+  basePointers: new Map(pointers),
+  base: transform,
+  current: transform,
+});
+
+const midpoint = (a: Position, b: Position) => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+const computeGestureTransform = ({ pointers, basePointers, base }: GestureState): PhotoTransform => {
+  const ids = [...pointers.keys()].slice(0, 2);
+  const now = ids.map(id => pointers.get(id)!);
+  const then = ids.map(id => basePointers.get(id)!);
+
+  if (ids.length === 1) {
+    return {
+      ...base,
+      position: { x: base.position.x + now[0].x - then[0].x, y: base.position.y + now[0].y - then[0].y }
+    };
+  }
+
+  // Two fingers: translate with the midpoint, scale with the spread, rotate with the angle
+  const angle = (a: Position, b: Position) => Math.atan2(b.y - a.y, b.x - a.x) * 180 / Math.PI;
+  const midNow = midpoint(now[0], now[1]);
+  const midThen = midpoint(then[0], then[1]);
+  const spreadThen = Math.hypot(then[1].x - then[0].x, then[1].y - then[0].y) || 1;
+  const spreadNow = Math.hypot(now[1].x - now[0].x, now[1].y - now[0].y);
+
+  return {
+    position: { x: base.position.x + midNow.x - midThen.x, y: base.position.y + midNow.y - midThen.y },
+    rotation: base.rotation + angle(now[0], now[1]) - angle(then[0], then[1]),
+    scale: Math.min(MAX_PHOTO_SCALE, Math.max(MIN_PHOTO_SCALE, base.scale * spreadNow / spreadThen)),
+  };
+};
+
+const computePanView = ({ pointers, basePointers, baseView }: PanState): Viewport => {
+  const ids = [...pointers.keys()].slice(0, 2);
+  const now = ids.map(id => pointers.get(id)!);
+  const then = ids.map(id => basePointers.get(id)!);
+
+  if (ids.length === 1) {
+    return { ...baseView, x: baseView.x + now[0].x - then[0].x, y: baseView.y + now[0].y - then[0].y };
+  }
+
+  // The world point under the fingers' midpoint follows it while the spread zooms
+  const midNow = midpoint(now[0], now[1]);
+  const midThen = midpoint(then[0], then[1]);
+  const spreadThen = Math.hypot(then[1].x - then[0].x, then[1].y - then[0].y) || 1;
+  const spreadNow = Math.hypot(now[1].x - now[0].x, now[1].y - now[0].y);
+  const zoom = clampZoom(baseView.zoom * spreadNow / spreadThen);
+  const anchor = screenToWorld(baseView, midThen);
+  return { zoom, x: midNow.x - anchor.x * zoom, y: midNow.y - anchor.y * zoom };
+};
 
 export default function App() {
-  const [photos, setPhotos] = useState<PhotoData[]>([]);
+  const [walls, setWalls] = useState<Wall[]>(() => [createWall('My Wall', DEFAULT_WALL_ID)]);
+  const [activeWallId, setActiveWallId] = useState(() => localStorage.getItem(ACTIVE_WALL_KEY) || DEFAULT_WALL_ID);
+  const [isHydrated, setIsHydrated] = useState(false);
   const [stagedPhoto, setStagedPhoto] = useState<PhotoData | null>(null);
-  const [cameraError, setCameraError] = useState<string | null>(null);
-  const [dragState, setDragState] = useState<{
-    id: string;
-    startX: number;
-    startY: number;
-    initialPhotoPos: Position;
-  } | null>(null);
+  const [cameraError, setCameraError] = useState<CameraErrorKind | null>(null);
+  const [cameraSettings, setCameraSettingsState] = useState<CameraSettings>(getCameraSettings);
+  const [cameraAttempt, setCameraAttempt] = useState(0); // Bumped by "retry"
+  const [isMirrored, setIsMirrored] = useState(true);
+  const [activeDeviceId, setActiveDeviceId] = useState<string | null>(null);
+  const [filmStock, setFilmStock] = useState<FilmStockId>(
+    () => (localStorage.getItem(FILM_STOCK_KEY) as FilmStockId) || 'none'
+  );
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [shootingMode, setShootingMode] = useState<'single' | 'booth'>('single');
+  const [countdown, setCountdown] = useState<number | null>(null); // 0 = shutter firing
+  const [liveClip, setLiveClip] = useState<LiveClipSettings>(getLiveClipSettings);
+  const [developmentConfig, setDevelopmentConfigState] = useState<DevelopmentConfig>(getDevelopmentConfig);
+  const [isMicBlocked, setIsMicBlocked] = useState(false);
+  const [recordingClips, setRecordingClips] = useState(0); // Captures still recording their post-roll
+  const [autoFrame, setAutoFrame] = useState<AutoFrameSettings>(getAutoFrameSettings);
+  const [viewfinderFaces, setViewfinderFaces] = useState<{ faces: FaceBox[]; isCutOff: boolean } | null>(null);
+  const [history, setHistory] = useState(EMPTY_HISTORY);
+  const [importQueue, setImportQueue] = useState<(CaptureImages & { capturedAt: number })[]>([]);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [focusedItemId, setFocusedItemId] = useState<string | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  // Per wall: the automatic layout in use and the free arrangement from before it
+  const [wallLayouts, setWallLayouts] = useState<Record<string, SavedLayout>>(getSavedLayouts); // Per wall
+  const [isArranging, setIsArranging] = useState(false); // Animating to a layout
+  const [viewports, setViewports] = useState<Record<string, Viewport>>(getSavedViewports); // Per wall
+  const [isViewAnimating, setIsViewAnimating] = useState(false);
+  const [isPanning, setIsPanning] = useState(false);
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false);
+  const [inkTool, setInkTool] = useState<InkTool | null>(null); // Pen settings while drawing
+  const [searchQuery, setSearchQuery] = useState<PhotoQuery>(EMPTY_QUERY);
+  const [taggingCount, setTaggingCount] = useState(0);
+  const [autoTag, setAutoTag] = useState(() => localStorage.getItem(AUTO_TAG_KEY) === 'true'); // Tagging costs a request per photo
+  const [sharing, setSharing] = useState<{ wallId: string; room: string } | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>('connecting');
+  const [participants, setParticipants] = useState<Participant[]>([]);
+  const [youId, setYouId] = useState<string | null>(null);
+  const [claims, setClaims] = useState<Record<string, string>>({}); // Photo id -> participant dragging it
+  const [isPresenting, setIsPresenting] = useState(false);
+  const [, setFrameTemplatesVersion] = useState(0); // Bumped when custom frame templates change
+  const [screenSize, setScreenSize] = useState(() => ({ width: window.innerWidth, height: window.innerHeight }));
 
   const videoRef = useRef<HTMLVideoElement>(null);
+  const previewCanvasRef = useRef<HTMLCanvasElement>(null);
   const cameraContainerRef = useRef<HTMLDivElement>(null);
+  const wallRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const nudgeKeyRef = useRef('nudge');
+  const progressRef = useRef(new Map<string, { loading: boolean; developing: boolean }>());
+  const arrangeTimerRef = useRef<number | null>(null);
+  const viewTimerRef = useRef<number | null>(null);
+  const worldRef = useRef<HTMLDivElement>(null);
   const shutterAudioRef = useRef<HTMLAudioElement | null>(null);
+  const clipRecorderRef = useRef<ClipRecorder | null>(null);
+  const framingRef = useRef<Framing | null>(null); // Latest auto-framing result
+  const cropRef = useRef<Crop | null>(null); // What the viewfinder shows, easing toward framingRef's crop
+  const syncRef = useRef<SyncSession | null>(null);
 
   useEffect(() => {
     shutterAudioRef.current = new Audio('https://assets.mixkit.co/active_storage/sfx/2578/2578-preview.mp3');
   }, []);
 
+  // --- 0. Walls ---
+  const activeWall = walls.find(w => w.id === activeWallId) || walls[0];
+  const photos = activeWall.photos;
+  const decorations = activeWall.decorations;
+  const items: WallItem[] = [...photos, ...decorations]; // One z-order, one drag system
+
+  // Updates the photos of the wall currently on screen
+  const setPhotos = (update: (prev: PhotoData[]) => PhotoData[]) => {
+    setWalls(prev => prev.map(w => w.id === activeWall.id ? { ...w, photos: update(w.photos) } : w));
+  };
+
+  // Updates a photo wherever it lives now; async results (captions,
+  // development) may land after the user switched or moved walls.
+  const mapAllPhotos = (fn: (p: PhotoData) => PhotoData) => {
+    setWalls(prev => prev.map(w => ({ ...w, photos: w.photos.map(fn) })));
+  };
+
+  useEffect(() => {
+    localStorage.setItem(ACTIVE_WALL_KEY, activeWall.id);
+  }, [activeWall.id]);
+
+  const addWall = (name: string) => {
+    const wall = createWall(name);
+    setWalls(prev => [...prev, wall]);
+    setActiveWallId(wall.id);
+  };
+
+  const updateWall = (id: string, updates: Partial<Omit<Wall, 'id' | 'photos'>>) => {
+    setWalls(prev => prev.map(w => w.id === id ? { ...w, ...updates } : w));
+  };
+
+  const deleteWall = (id: string) => {
+    if (walls.length <= 1) return; // Always keep one wall
+    const remaining = walls.filter(w => w.id !== id);
+    walls.find(w => w.id === id)?.photos.forEach(p => cancelCaption(p.id));
+    setWalls(remaining);
+    setViewports(prev => {
+      const { [id]: _, ...rest } = prev;
+      return rest;
+    });
+    setWallLayouts(prev => {
+      const { [id]: _, ...rest } = prev;
+      return rest;
+    });
+    if (id === activeWall.id) setActiveWallId(remaining[0].id);
+  };
+
+  // Bundle items join the wall on screen; ids already used anywhere get fresh ones
+  const importBundle = (bundle: WallBundle, mode: 'merge' | 'replace') => {
+    // Custom frames first: the photos follow them if they had to be renamed
+    let frameIds: Map<string, string>;
+    try {
+      frameIds = addCustomFrames(bundle.frames);
+    } catch (err) {
+      console.warn("Could not keep the bundle's frame templates; those photos get the classic frame", err);
+      frameIds = new Map(bundle.frames.map(frame => [frame.id, DEFAULT_FRAME_TEMPLATE]));
+    }
+    const bundlePhotos = bundle.photos.map(p => ({ ...p, frameTemplate: frameIds.get(p.frameTemplate) ?? p.frameTemplate }));
+
+    const takenIds = new Set<string>(walls.flatMap(w => [...w.photos, ...w.decorations].map(item => item.id)));
+    if (stagedPhoto) takenIds.add(stagedPhoto.id);
+    let incoming = remapItemIds<WallItem>([...bundlePhotos, ...bundle.decorations], takenIds);
+
+    if (mode === 'merge' && incoming.length > 0) {
+      // Stack above what's already there, keeping the bundle's own order
+      const maxZ = topZIndex(items);
+      const minZ = Math.min(...incoming.map(item => item.zIndex));
+      incoming = incoming.map(item => ({ ...item, zIndex: maxZ + 1 + item.zIndex - minZ }));
+    }
+    const incomingPhotos = incoming.filter((item): item is PhotoData => item.kind === 'photo');
+
+    // One undo step takes the import back, and for a replace brings the old items back too
+    const adds: HistoryCommand[] = incoming.map(item => ({ type: 'add', wallId: activeWall.id, item }));
+    if (mode === 'replace') {
+      photos.forEach(p => cancelCaption(p.id));
+      // Last first, so each index is still the item's place when it's put back
+      const deletes: HistoryCommand[] = [
+        ...photos.map((p, index) => ({ type: 'delete', wallId: activeWall.id, item: { ...p, isLoadingCaption: false }, index })),
+        ...decorations.map((d, index) => ({ type: 'delete', wallId: activeWall.id, item: d, index })),
+      ].reverse();
+      updateWall(activeWall.id, { background: bundle.background });
+      runCommand({ type: 'batch', commands: [...deletes, ...adds] });
+    } else if (adds.length > 0) {
+      runCommand({ type: 'batch', commands: adds });
+    }
+    announce(`Imported ${incomingPhotos.length} photo(s) from "${bundle.name}".`);
+  };
+
+  const movePhotoToWall = (photoId: string, targetWallId: string) => {
+    const source = walls.find(w => w.photos.some(p => p.id === photoId));
+    const photo = source?.photos.find(p => p.id === photoId);
+    const target = walls.find(w => w.id === targetWallId);
+    if (!source || !photo || !target) return;
+
+    // Arrives on top of the target wall's stack
+    const maxZ = topZIndex([...target.photos, ...target.decorations]) + 1;
+    runCommand({
+      type: 'transfer',
+      photoId,
+      fromWallId: source.id,
+      toWallId: targetWallId,
+      beforeZ: photo.zIndex,
+      afterZ: maxZ,
+    });
+  };
+
+  // --- 0a. Undo / Redo ---
+  // Every user edit to a wall goes through runCommand so it can be reversed.
+  const runCommand = (command: HistoryCommand) => {
+    setWalls(prev => applyCommand(prev, command, 'redo'));
+    setHistory(prev => pushCommand(prev, command));
+  };
+
+  // History holds edits, not images: render the stills of edited photos again
+  const rerenderEditedPhotos = (command: HistoryCommand, direction: 'undo' | 'redo') => {
+    const restored = applyCommand(latestWallsRef.current, command, direction).flatMap(w => w.photos);
+    editedPhotoIds(command).forEach(async id => {
+      const photo = restored.find(p => p.id === id);
+      if (!photo) return;
+      try {
+        const dataUrl = await renderPhoto(photo);
+        // Unless the edits changed again in the meantime
+        mapAllPhotos(p => p.id === id && p.edits === photo.edits && p.filmStock === photo.filmStock ? { ...p, dataUrl } : p);
+      } catch (err) {
+        console.error("Could not render the photo again", err);
+      }
+    });
+  };
+
+  const handleUndo = () => {
+    const step = undo(history);
+    if (!step || gestureRef.current) return;
+    setWalls(prev => applyCommand(prev, step.command, 'undo'));
+    setHistory(step.history);
+    rerenderEditedPhotos(step.command, 'undo');
+  };
+
+  const handleRedo = () => {
+    const step = redo(history);
+    if (!step || gestureRef.current) return;
+    setWalls(prev => applyCommand(prev, step.command, 'redo'));
+    setHistory(step.history);
+    rerenderEditedPhotos(step.command, 'redo');
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Leave text fields to their own native undo
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, [contenteditable="true"]')) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history]); // What undo and redo read
+
+  // --- 0b. Persistence ---
+  useEffect(() => {
+    loadWalls()
+      .then(saved => {
+        // Keep anything shot while the database was still loading
+        setWalls(prev => {
+          const savedIds = new Set(saved.flatMap(w => w.photos).map(p => p.id));
+          const pending = prev.flatMap(w => w.photos).filter(p => !savedIds.has(p.id));
+          if (pending.length === 0) return saved;
+          const target = saved.find(w => w.id === activeWallId) || saved[0];
+          return saved.map(w => w === target ? { ...w, photos: [...w.photos, ...pending] } : w);
+        });
+      })
+      .catch(err => console.error("Failed to restore photo walls:", err))
+      .finally(() => setIsHydrated(true));
+  }, []);
+
+  // Throttled (not debounced) so drags and development ticks, which change
+  // photos continuously, still get written out regularly.
+  const latestWallsRef = useRef(walls);
+  latestWallsRef.current = walls;
+  const saveTimerRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!isHydrated || saveTimerRef.current !== null) return;
+    saveTimerRef.current = window.setTimeout(() => {
+      saveTimerRef.current = null;
+      saveWalls(latestWallsRef.current).catch(err => console.error("Failed to save photo walls:", err));
+    }, SAVE_THROTTLE_MS);
+  }, [walls, isHydrated]);
+
+  // A save still waiting for its turn is written straight away
+  useEffect(() => () => {
+    if (saveTimerRef.current === null) return;
+    clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = null;
+    saveWalls(latestWallsRef.current).catch(err => console.error("Failed to save photo walls:", err));
+  }, []);
+
+  // --- 0c. Viewport ---
+  // The wall is an infinite canvas. Item positions are world coordinates;
+  // each wall keeps its own pan and zoom (see services/viewport.ts).
+  const view = viewports[activeWall.id] || DEFAULT_VIEWPORT;
+  const viewRef = useRef(view); // For listeners registered once
+  viewRef.current = view;
+  const activeWallIdRef = useRef(activeWall.id);
+  activeWallIdRef.current = activeWall.id;
+
+  // Goes through the ref, so listeners registered once move the wall on screen
+  const updateView = (fn: (prev: Viewport) => Viewport) => {
+    const wallId = activeWallIdRef.current;
+    setViewports(prev => ({ ...prev, [wallId]: fn(prev[wallId] || DEFAULT_VIEWPORT) }));
+  };
+
+  const toWorld = (clientX: number, clientY: number) => screenToWorld(view, { x: clientX, y: clientY });
+
+  // Eased moves for buttons (fit, jump); direct manipulation stays immediate
+  const animateView = (next: Viewport) => {
+    setIsViewAnimating(true);
+    if (viewTimerRef.current) clearTimeout(viewTimerRef.current);
+    viewTimerRef.current = window.setTimeout(() => setIsViewAnimating(false), VIEW_ANIMATION_MS);
+    updateView(() => next);
+  };
+
+  const screenCenter = { x: screenSize.width / 2, y: screenSize.height / 2 };
+
+  const zoomBy = (factor: number) => animateView(zoomAt(view, screenCenter, factor));
+
+  const resetZoom = () => animateView(zoomAt(view, screenCenter, 1 / view.zoom));
+
+  const fitAll = () => {
+    const bounds = unionBounds(items.map(itemBounds));
+    animateView(bounds ? fitBounds(bounds, screenSize, FIT_MARGIN) : DEFAULT_VIEWPORT);
+  };
+
+  const centerItem = (item: WallItem, zoom: number) => {
+    const bounds = itemBounds(item);
+    animateView(centerOn({ x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 }, screenSize, zoom));
+  };
+
+  const jumpToPhoto = (id: string) => {
+    const photo = photos.find(p => p.id === id);
+    if (!photo) return;
+    centerItem(photo, Math.max(view.zoom, 1));
+    focusItem(id);
+  };
+
+  // Brings an item on screen (keeping the zoom) if any of it is outside the view
+  const revealItem = (item: WallItem) => {
+    const bounds = itemBounds(item);
+    const visible = visibleBounds(view, screenSize);
+    const isVisible = bounds.minX >= visible.minX && bounds.maxX <= visible.maxX
+      && bounds.minY >= visible.minY && bounds.maxY <= visible.maxY;
+    if (!isVisible) centerItem(item, view.zoom);
+  };
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => saveViewports(viewports), VIEW_SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [viewports]);
+
+  useEffect(() => {
+    const handleResize = () => setScreenSize({ width: window.innerWidth, height: window.innerHeight });
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  // Wheel zooms around the cursor. Attached natively: React's wheel listener is
+  // passive, so it couldn't stop the browser's own page zoom on trackpad pinches.
+  useEffect(() => {
+    const wall = wallRef.current;
+    if (!wall) return;
+    const handleWheel = (e: WheelEvent) => {
+      const target = e.target as Node;
+      if (target !== wall && !worldRef.current?.contains(target)) return; // Toolbars, camera, minimap
+      e.preventDefault();
+      const speed = e.ctrlKey ? PINCH_WHEEL_ZOOM_SPEED : WHEEL_ZOOM_SPEED;
+      const next = zoomAt(viewRef.current, { x: e.clientX, y: e.clientY }, Math.exp(-e.deltaY * speed));
+      viewRef.current = next; // Several wheel events between renders all count
+      updateView(() => next);
+    };
+    wall.addEventListener('wheel', handleWheel, { passive: false });
+    return () => wall.removeEventListener('wheel', handleWheel);
+  }, []);
+
   // --- 1. Camera Setup ---
   useEffect(() => {
     let stream: MediaStream | null = null;
+    let cancelled = false;
+
     const startCamera = async () => {
       setCameraError(null);
       try {
-        // Try ideal constraints first (User facing, square-ish preference)
-        stream = await navigator.mediaDevices.getUserMedia({ 
-          video: { 
-            facingMode: 'user',
-            width: { ideal: 640 },
-            height: { ideal: 640 } 
-          } 
-        });
+        stream = await openCamera(cameraSettings);
       } catch (err) {
-        console.warn("Preferred camera constraints failed, trying fallback...", err);
-        try {
-          // Fallback: Accept any camera available
-          stream = await navigator.mediaDevices.getUserMedia({ video: true });
-        } catch (finalErr) {
-          console.error("Camera access failed completely:", finalErr);
-          setCameraError("Camera not found.");
-        }
+        console.error("Camera access failed:", err);
+        if (!cancelled) setCameraError(classifyCameraError(err));
+        return;
+      }
+
+      // Settings changed (or we unmounted) while the camera was opening
+      if (cancelled) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
       }
 
-      if (stream && videoRef.current) {
+      setIsMirrored(isUserFacing(stream, cameraSettings));
+      setActiveDeviceId(stream.getVideoTracks()[0]?.getSettings().deviceId || null);
+      if (videoRef.current) {
         videoRef.current.srcObject = stream;
       }
     };
     startCamera();
     return () => {
+      cancelled = true;
       if (stream) stream.getTracks().forEach(track => track.stop());
     };
-  }, []);
+  }, [cameraSettings, cameraAttempt]);
 
-  // --- 2. Shutter Action ---
-  const takePhoto = async () => {
-    if (!videoRef.current || stagedPhoto || cameraError) return; // Prevent shot if error or ejecting
+  const updateCameraSettings = (settings: CameraSettings) => {
+    setCameraSettings(settings);
+    setCameraSettingsState(settings);
+  };
+
+  // --- 1b. Live Film Preview ---
+  useEffect(() => {
+    localStorage.setItem(FILM_STOCK_KEY, filmStock);
+    if ((filmStock === 'none' && !autoFrame.enabled) || cameraError) return;
+
+    let frame = 0;
+    const renderPreview = () => {
+      const vid = videoRef.current;
+      const canvas = previewCanvasRef.current;
+      const ctx = canvas?.getContext('2d', { willReadFrequently: true });
+      if (vid && canvas && ctx && vid.videoWidth > 0) {
+        const target = framingRef.current?.crop;
+        if (target) cropRef.current = cropRef.current ? easeCrop(cropRef.current, target) : target;
+        drawVideoCrop(ctx, vid, PREVIEW_SIZE, isMirrored, cropRef.current);
+        if (filmStock !== 'none') applyFilmStock(canvas, filmStock, PREVIEW_SEED);
+      }
+      frame = requestAnimationFrame(renderPreview);
+    };
+    frame = requestAnimationFrame(renderPreview);
+    return () => cancelAnimationFrame(frame);
+  }, [filmStock, cameraError, isMirrored, autoFrame.enabled]);
+
+  // --- 1c. Live Clips ---
+  // While live mode is on, video is recorded continuously so a shot can keep
+  // the moments just before the shutter press.
+  const canRecordClips = liveClip.enabled && shootingMode === 'single' && !cameraError && isLiveClipSupported();
+
+  useEffect(() => {
+    if (!canRecordClips) return;
+
+    let recorder: ClipRecorder | null = null;
+    let mic: MediaStream | null = null;
+    let cancelled = false;
+
+    const start = async () => {
+      if (liveClip.audio) {
+        try {
+          mic = await openMicrophone();
+          setIsMicBlocked(false);
+        } catch (err) {
+          console.warn("Microphone unavailable, recording silent clips", err);
+          setIsMicBlocked(true);
+        }
+      }
+      if (cancelled) {
+        mic?.getTracks().forEach(track => track.stop());
+        return;
+      }
 
-    // Play Sound
+      // Same crop, mirroring and film look as the still
+      recorder = createClipRecorder(canvas => {
+        const vid = videoRef.current;
+        const ctx = canvas.getContext('2d', { willReadFrequently: filmStock !== 'none' });
+        if (!vid || !ctx || vid.videoWidth === 0) return;
+        drawVideoCrop(ctx, vid, CLIP_SIZE, isMirrored, cropRef.current);
+        if (filmStock !== 'none') applyFilmStock(canvas, filmStock, PREVIEW_SEED);
+      }, mic?.getAudioTracks()[0] || null);
+      clipRecorderRef.current = recorder;
+    };
+    start();
+
+    return () => {
+      cancelled = true;
+      recorder?.stop();
+      clipRecorderRef.current = null;
+      mic?.getTracks().forEach(track => track.stop());
+    };
+  }, [canRecordClips, liveClip.audio, filmStock, isMirrored]);
+
+  const updateLiveClip = (settings: LiveClipSettings) => {
+    setLiveClipSettings(settings);
+    setLiveClip(settings);
+    if (!settings.audio) setIsMicBlocked(false);
+  };
+
+  // --- 1d. Auto-Framing ---
+  // Looks for faces a few times a second. The viewfinder glides to the crop
+  // that frames them and the shutter takes exactly that crop.
+  useEffect(() => {
+    if (!autoFrame.enabled || cameraError) return;
+
+    let cancelled = false;
+    let timer: number | null = null;
+    const analyze = async () => {
+      const vid = videoRef.current;
+      if (vid && vid.videoWidth > 0) {
+        try {
+          const framing = await analyzeFrame(vid);
+          if (cancelled) return;
+          framingRef.current = framing;
+          const next = { faces: facesInCrop(framing.faces, framing.crop, isMirrored), isCutOff: framing.isCutOff };
+          setViewfinderFaces(prev => JSON.stringify(prev) === JSON.stringify(next) ? prev : next);
+        } catch (err) {
+          console.warn("Auto-framing failed", err);
+        }
+      }
+      if (!cancelled) timer = window.setTimeout(analyze, FRAMING_INTERVAL_MS);
+    };
+    analyze();
+
+    return () => {
+      cancelled = true;
+      if (timer !== null) window.clearTimeout(timer);
+      framingRef.current = null;
+      cropRef.current = null;
+      setViewfinderFaces(null);
+    };
+  }, [autoFrame.enabled, cameraError, isMirrored]);
+
+  const updateAutoFrame = (settings: AutoFrameSettings) => {
+    setAutoFrameSettings(settings);
+    setAutoFrame(settings);
+  };
+
+  // --- 2. Shutter Action ---
+  const playShutter = () => {
     if (shutterAudioRef.current) {
       shutterAudioRef.current.currentTime = 0;
       shutterAudioRef.current.play().catch(e => console.warn(e));
     }
+  };
 
-    // Capture Image
-    const canvas = document.createElement('canvas');
-    // The video is 1:1 in CSS, but the source stream might be 4:3. We crop to center square.
+  // Grabs one square frame from the live video, untouched and with the film look baked in
+  const captureFrame = (capturedAt: number, crop: Crop | null): CaptureImages | null => {
     const vid = videoRef.current;
-    if (vid.videoWidth === 0 || vid.videoHeight === 0) return;
+    // The video is 1:1 in CSS, but the source stream might be 4:3. We crop to center square.
+    if (!vid || vid.videoWidth === 0 || vid.videoHeight === 0) return null;
 
-    const size = Math.min(vid.videoWidth, vid.videoHeight);
+    const canvas = document.createElement('canvas');
+    const size = crop?.size || Math.min(vid.videoWidth, vid.videoHeight);
     canvas.width = size;
     canvas.height = size;
     
     const ctx = canvas.getContext('2d');
-    if (ctx) {
-      // Draw center crop
-      const sx = (vid.videoWidth - size) / 2;
-      const sy = (vid.videoHeight - size) / 2;
-      
-      // Horizontal flip for mirror effect
-      ctx.translate(size, 0);
-      ctx.scale(-1, 1);
-      
-      ctx.drawImage(vid, sx, sy, size, size, 0, 0, size, size);
-      
-      const dataUrl = canvas.toDataURL('image/jpeg', 0.9);
-      
-      const newId = Date.now().toString();
-      const dateStr = new Date().toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
-
-      // Create Staged Photo (Ejecting state)
-      const newPhoto: PhotoData = {
-        id: newId,
-        dataUrl: dataUrl,
-        caption: "",
-        date: dateStr,
-        position: { x: 0, y: 0 }, // Relative to camera container initially
-        zIndex: 10,
-        isDeveloping: true,
-        isLoadingCaption: true,
-      };
-
-      setStagedPhoto(newPhoto);
-
-      // Trigger AI
-      generateCaption(dataUrl).then(caption => {
-        // Update either staged or wall photo depending on where it is now
-        const updateFn = (p: PhotoData) => p.id === newId ? { ...p, caption, isLoadingCaption: false } : p;
-        
-        setStagedPhoto(prev => prev && prev.id === newId ? updateFn(prev) : prev);
-        setPhotos(prev => prev.map(updateFn));
-      });
+    if (!ctx) return null;
+
+    // Draw the crop, keep it as the original, then bake the film look into the pixels
+    drawVideoCrop(ctx, vid, size, isMirrored, crop);
+    const original = canvas.toDataURL('image/jpeg', 0.9);
+    if (filmStock === 'none') return { original, dataUrl: original };
+    applyFilmStock(canvas, filmStock, capturedAt);
+    return { original, dataUrl: canvas.toDataURL('image/jpeg', 0.9) };
+  };
+
+  // Updates a capture wherever it is now: still in the camera slot or already on a wall
+  const updateCapture = (id: string, updates: Partial<PhotoData>) => {
+    const updateFn = (p: PhotoData) => p.id === id ? { ...p, ...updates } : p;
+    setStagedPhoto(prev => prev && updateFn(prev));
+    mapAllPhotos(updateFn);
+  };
+
+  // Puts a finished capture in the camera slot and starts captioning it. Returns the new photo's id.
+  const stagePhoto = (
+    { original, dataUrl }: CaptureImages,
+    capturedAt: number,
+    layout: PhotoLayout = 'polaroid',
+    frameCount = 1,
+    faces: FaceBox[] | null = null
+  ) => {
+    const newId = Date.now().toString(); // Not capturedAt: imports can share an EXIF timestamp
+    const dateStr = new Date(capturedAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+    // Create Staged Photo (Ejecting state)
+    const newPhoto: PhotoData = {
+      id: newId,
+      kind: 'photo',
+      dataUrl: dataUrl,
+      original,
+      originalHasFilm: false,
+      edits: DEFAULT_EDITS,
+      clip: null, // Attached once the live clip finishes recording
+      caption: "",
+      date: dateStr,
+      capturedAt,
+      filmStock,
+      layout,
+      frameCount,
+      frameTemplate: DEFAULT_FRAME_TEMPLATE,
+      captionStyle: getDefaultCaptionStyle(),
+      tags: null, // Filled in by tagPhoto, if asked for
+      faces,
+      position: { x: 0, y: 0 }, // Relative to camera container initially
+      zIndex: 10,
+      rotation: (capturedAt % 10) - 5, // Slight tilt once it's on the wall
+      scale: 1,
+      developProgress: 0,
+      agitation: 0,
+      isLoadingCaption: true,
+      captionError: null,
+    };
+
+    setStagedPhoto(newPhoto);
+    announce(layout === 'strip'
+      ? 'Photo strip developing in the camera slot. Press Enter on it to place it on the wall.'
+      : 'Photo developing in the camera slot. Press Enter on it to place it on the wall.');
+
+    // Trigger AI
+    const settle = (updates: Partial<PhotoData>) => updateCapture(newId, { ...updates, isLoadingCaption: false });
+    requestCaption(newId, newPhoto).then(
+      caption => settle({ caption }),
+      error => {
+        if (error instanceof CaptionCancelledError) return; // Photo was deleted
+        console.error("Caption failed:", error);
+        settle({ captionError: describeCaptionError(error) });
+      }
+    );
+    if (autoTag) tagPhoto(newPhoto);
+    return newId;
+  };
+
+  const takePhoto = async () => {
+    if (!videoRef.current || stagedPhoto || cameraError || countdown !== null) return; // Prevent shot if error or ejecting
+
+    if (shootingMode === 'booth') {
+      await takeBurst();
+      return;
+    }
+
+    playShutter();
+    const capturedAt = Date.now();
+    // The framing the viewfinder is settling on, at most FRAMING_INTERVAL_MS old
+    const framing = framingRef.current;
+    const images = captureFrame(capturedAt, framing?.crop || null);
+    if (!images) return;
+    const faces = framing ? facesInCrop(framing.faces, framing.crop, isMirrored) : null;
+    const id = stagePhoto(images, capturedAt, 'polaroid', 1, faces);
+
+    // The still goes out right away; the clip follows once its post-roll is recorded
+    const recorder = clipRecorderRef.current;
+    if (!recorder) return;
+    setRecordingClips(n => n + 1);
+    try {
+      const clip = await recorder.capture();
+      if (clip) updateCapture(id, { clip });
+    } finally {
+      setRecordingClips(n => n - 1);
+    }
+  };
+
+  // Photo booth: countdown, then BOOTH_FRAMES shots BOOTH_INTERVAL_MS apart, composed into a strip
+  const takeBurst = async () => {
+    const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+    const frames: CaptureImages[] = [];
+    const firstShotAt = Date.now() + BOOTH_COUNTDOWN * 1000;
+
+    try {
+      for (let n = BOOTH_COUNTDOWN; n > 0; n--) {
+        setCountdown(n);
+        await wait(1000);
+      }
+
+      for (let i = 0; i < BOOTH_FRAMES; i++) {
+        if (i > 0) {
+          setCountdown(BOOTH_FRAMES - i);
+          await wait(BOOTH_INTERVAL_MS);
+        }
+        setCountdown(0); // Flash
+        playShutter();
+        const frame = captureFrame(firstShotAt + i, framingRef.current?.crop || null);
+        if (frame) frames.push(frame);
+        await wait(FLASH_MS);
+      }
+    } finally {
+      setCountdown(null);
+    }
 
-      // Developing effect timer
-      setTimeout(() => {
-        const clearDevFn = (p: PhotoData) => p.id === newId ? { ...p, isDeveloping: false } : p;
-        setStagedPhoto(prev => prev && prev.id === newId ? clearDevFn(prev) : prev);
-        setPhotos(prev => prev.map(clearDevFn));
-      }, 3500);
+    if (frames.length === 0) return;
+    const original = await composeStrip(frames.map(frame => frame.original));
+    const hasFilm = frames.some(frame => frame.dataUrl !== frame.original);
+    const dataUrl = hasFilm ? await composeStrip(frames.map(frame => frame.dataUrl)) : original;
+    stagePhoto({ original, dataUrl }, firstShotAt, 'strip', frames.length);
+  };
+
+  // --- 2a. Importing ---
+  // Imported images are processed like captures, then wait their turn for the slot
+  const importFiles = async (files: File[]) => {
+    for (const file of files.filter(isImageFile)) {
+      try {
+        const imported = await importImageFile(file, filmStock);
+        setImportQueue(prev => [...prev, imported]);
+      } catch (err) {
+        console.warn(`Could not import ${file.name}`, err);
+      }
     }
   };
 
+  useEffect(() => {
+    if (stagedPhoto || countdown !== null || importQueue.length === 0) return;
+    const [next, ...rest] = importQueue;
+    setImportQueue(rest);
+    stagePhoto(next, next.capturedAt);
+  }, [stagedPhoto, countdown, importQueue]);
+
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const files = Array.from(e.clipboardData?.files || []).filter(isImageFile);
+      if (files.length === 0) return; // Let text pastes through
+      e.preventDefault();
+      importFiles(files);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [filmStock]);
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDragOver(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Ignore moves between children of the wall
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragOver(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    importFiles(Array.from(e.dataTransfer.files));
+  };
+
+  // --- 2b. Development Clock ---
+  // Photos keep developing on walls that aren't on screen
+  const isAnyDeveloping = walls.some(w => w.photos.some(p => p.developProgress < 1))
+    || (!!stagedPhoto && stagedPhoto.developProgress < 1);
+
+  useEffect(() => {
+    if (!isAnyDeveloping) return;
+
+    let last = performance.now();
+    const timer = window.setInterval(() => {
+      const now = performance.now();
+      const dt = now - last;
+      last = now;
+
+      const developFn = (p: PhotoData) => p.developProgress < 1 || p.agitation > 0
+        ? {
+            ...p,
+            developProgress: advanceDevelopment(p.developProgress, p.agitation, dt, developmentConfig),
+            agitation: decayAgitation(p.agitation, dt),
+          }
+        : p;
+      setStagedPhoto(prev => prev ? developFn(prev) : prev);
+      mapAllPhotos(developFn);
+    }, DEVELOP_TICK_MS);
+    return () => clearInterval(timer);
+  }, [isAnyDeveloping, developmentConfig]);
+
+  const updateDevelopmentConfig = (config: DevelopmentConfig) => {
+    setDevelopmentConfig(config);
+    setDevelopmentConfigState(config);
+  };
+
   // --- 3. Drag Logic ---
+  // Built on Pointer Events so mouse, pen and touch share one path. Once a
+  // pointer that grabbed a photo starts moving, the wall element captures it
+  // and keeps receiving its moves even outside the window. Capturing lazily
+  // keeps plain clicks (e.g. double-click to edit a caption) on their target.
+  // One pointer drags; two pointers also pinch-scale and rotate. Pointer
+  // positions are kept in world coordinates so drags follow the zoom.
+  // Dragging the empty wall (or anything while Space is held) pans instead.
 
-  // A. Start dragging from STAGED (Pulling out of camera)
-  const handleStagedMouseDown = (e: React.MouseEvent) => {
-    e.preventDefault(); // Prevent default drag
-    if (!stagedPhoto || !cameraContainerRef.current) return;
+  // Moves the staged photo out of the camera onto the wall, just above the slot
+  const promoteStagedPhoto = (): PhotoData | null => {
+    if (!stagedPhoto || !cameraContainerRef.current) return null;
 
     const rect = cameraContainerRef.current.getBoundingClientRect();
     
@@ -154,100 +1015,638 @@ export default function App() {
     // Container Left + 50% width.
     // Container Top - (Photo Height * 0.4).
     
+    const card = getCardLayout(stagedPhoto);
     const photoCenterX = rect.left + (rect.width / 2);
-    const photoCenterY = rect.top - (PHOTO_HEIGHT * 0.25); // Approximate visual top
+    const photoCenterY = rect.top - (card.height * 0.25); // Approximate visual top
+
+    // Cards scale around their center, so keep the center where it is on screen
+    const center = toWorld(photoCenterX, photoCenterY + card.height / 2);
 
     // Promote to Wall Photo immediately
     const wallPhoto: PhotoData = {
       ...stagedPhoto,
       position: {
-        x: photoCenterX - (PHOTO_WIDTH / 2),
-        y: photoCenterY
+        x: center.x - (card.width / 2),
+        y: center.y - (card.height / 2)
       },
       zIndex: 100 // Top on drag
     };
 
     setStagedPhoto(null); // Remove from camera
     setPhotos(prev => [...prev, wallPhoto]);
-    
+    return wallPhoto;
+  };
+
+  // A. Start dragging from STAGED (Pulling out of camera)
+  const handleStagedPointerDown = (e: React.PointerEvent) => {
+    e.preventDefault(); // Prevent default drag
+    if (gestureRef.current || panRef.current) return;
+    const wallPhoto = promoteStagedPhoto();
+
     // Start dragging this new wall photo immediately
-    setDragState({
-      id: wallPhoto.id,
-      startX: e.clientX,
-      startY: e.clientY,
-      initialPhotoPos: wallPhoto.position
-    });
+    if (wallPhoto) addGesturePointer(e, wallPhoto, `gesture-${wallPhoto.id}-${Date.now()}`);
+  };
+
+  // Keyboard equivalent: Enter / Space places the photo and focuses it
+  const handleStagedKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key !== 'Enter' && e.key !== ' ') return;
+    e.preventDefault();
+    const wallPhoto = promoteStagedPhoto();
+    if (wallPhoto) focusItem(wallPhoto.id);
   };
 
-  // B. Start dragging generic Wall Photo
-  const handleWallMouseDown = (e: React.MouseEvent, photo: PhotoData) => {
+  // B. Start dragging a wall item (photo or decoration)
+  const handleWallPointerDown = (e: React.PointerEvent, item: WallItem) => {
     e.preventDefault();
     e.stopPropagation();
-    
-    // Bring to front
-    const maxZ = Math.max(...photos.map(p => p.zIndex), 100) + 1;
-    setPhotos(prev => prev.map(p => p.id === photo.id ? { ...p, zIndex: maxZ } : p));
-
-    setDragState({
-      id: photo.id,
-      startX: e.clientX,
-      startY: e.clientY,
-      initialPhotoPos: photo.position
+    if (panRef.current || (isSpaceHeld && !gestureRef.current)) {
+      addPanPointer(e);
+      return;
+    }
+    // Only one item can be manipulated at a time
+    if (gestureRef.current && gestureRef.current.id !== item.id) return;
+    const holder = claimHolder(item.id);
+    if (holder) {
+      announce(`${holder.name} is moving this photo.`);
+      return;
+    }
+
+    const historyKey = gestureRef.current?.historyKey || `gesture-${item.id}-${Date.now()}`;
+    if (!gestureRef.current) {
+      bringToFront(item, historyKey);
+      // preventDefault above also prevents focus; keep the roving focus on the grabbed item
+      (e.currentTarget as HTMLElement).focus({ preventScroll: true });
+    }
+
+    addGesturePointer(e, item, historyKey);
+  };
+
+  const bringToFront = (item: WallItem, mergeKey?: string) => {
+    const maxZ = topZIndex(items) + 1;
+    const isOnTop = items.every(other => other.id === item.id || other.zIndex < item.zIndex);
+    if (isOnTop) return;
+    runCommand({
+      type: 'update',
+      itemId: item.id,
+      before: { zIndex: item.zIndex },
+      after: { zIndex: maxZ },
+      mergeKey,
     });
   };
 
+  const gestureRef = useRef<GestureState | null>(null);
+  const lastMoveRef = useRef<{ x: number; y: number; t: number } | null>(null);
+
+  const addGesturePointer = (e: React.PointerEvent, item: WallItem, historyKey: string) => {
+    const existing = gestureRef.current;
+    const pointers = existing ? existing.pointers : new Map<number, Position>();
+    pointers.set(e.pointerId, toWorld(e.clientX, e.clientY));
+
+    const transform = existing
+      ? existing.current
+      : { position: item.position, rotation: item.rotation, scale: item.scale };
+    gestureRef.current = rebaseGesture(item.id, historyKey, pointers, transform);
+    setDraggingId(item.id);
+  };
+
+  // Panning starts on the bare wall, or on any item while Space is held
+  const panRef = useRef<PanState | null>(null);
+
+  const addPanPointer = (e: React.PointerEvent) => {
+    const existing = panRef.current;
+    const baseView = existing ? computePanView(existing) : view;
+    const pointers = existing ? existing.pointers : new Map<number, Position>();
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    panRef.current = { pointers, basePointers: new Map(pointers), baseView };
+    if (spaceRef.current) spaceRef.current.panned = true;
+    setIsPanning(true);
+  };
+
+  const handleBackgroundPointerDown = (e: React.PointerEvent) => {
+    if (e.target !== e.currentTarget && e.target !== worldRef.current) return; // Toolbars, camera, ...
+    if (e.button !== 0 && e.button !== 1) return; // Left or middle button
+    if (gestureRef.current) return;
+    addPanPointer(e);
+  };
+
+  const capturePointer = (pointerId: number) => {
+    const wall = wallRef.current;
+    if (wall && !wall.hasPointerCapture(pointerId)) {
+      wall.setPointerCapture(pointerId);
+    }
+  };
+
   // C. Global Move
-  const handleGlobalMouseMove = useCallback((e: MouseEvent) => {
-    if (!dragState) return;
-
-    const dx = e.clientX - dragState.startX;
-    const dy = e.clientY - dragState.startY;
-
-    setPhotos(prev => prev.map(p => {
-      if (p.id === dragState.id) {
-        return {
-          ...p,
-          position: {
-            x: dragState.initialPhotoPos.x + dx,
-            y: dragState.initialPhotoPos.y + dy
-          }
-        };
+  const handleGlobalPointerMove = (e: React.PointerEvent) => {
+    const pan = panRef.current;
+    if (pan?.pointers.has(e.pointerId)) {
+      capturePointer(e.pointerId);
+      pan.pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      const next = computePanView(pan);
+      updateView(() => next);
+      return;
+    }
+
+    const gesture = gestureRef.current;
+    if (!gesture || !gesture.pointers.has(e.pointerId)) return;
+
+    capturePointer(e.pointerId);
+    gesture.pointers.set(e.pointerId, toWorld(e.clientX, e.clientY));
+    const previous = gesture.current;
+    const next = computeGestureTransform(gesture);
+    gesture.current = next;
+
+    // Fast single-pointer motion shakes a developing photo
+    let shake = 0;
+    if (gesture.pointers.size === 1) {
+      const last = lastMoveRef.current;
+      const speed = last && e.timeStamp > last.t
+        ? Math.hypot(e.clientX - last.x, e.clientY - last.y) / (e.timeStamp - last.t)
+        : 0;
+      lastMoveRef.current = { x: e.clientX, y: e.clientY, t: e.timeStamp };
+      shake = speed > SHAKE_SPEED ? SHAKE_GAIN : 0;
+    }
+
+    runCommand({
+      type: 'update',
+      itemId: gesture.id,
+      before: previous,
+      after: next,
+      mergeKey: gesture.historyKey,
+    });
+    if (shake > 0) {
+      mapAllPhotos(p => p.id === gesture.id && p.developProgress < 1
+        ? { ...p, agitation: Math.min(1, p.agitation + shake) }
+        : p);
+    }
+  };
+
+  // D. Global Up / Cancel
+  const handleGlobalPointerUp = (e: React.PointerEvent) => {
+    const pan = panRef.current;
+    if (pan?.pointers.has(e.pointerId)) {
+      const current = computePanView(pan);
+      pan.pointers.delete(e.pointerId);
+      if (pan.pointers.size === 0) {
+        panRef.current = null;
+        setIsPanning(false);
+      } else {
+        // The remaining finger carries on from the current view
+        panRef.current = { pointers: pan.pointers, basePointers: new Map(pan.pointers), baseView: current };
+      }
+      return;
+    }
+
+    const gesture = gestureRef.current;
+    if (!gesture || !gesture.pointers.has(e.pointerId)) return;
+
+    gesture.pointers.delete(e.pointerId);
+    lastMoveRef.current = null;
+
+    if (gesture.pointers.size === 0) {
+      gestureRef.current = null;
+      setDraggingId(null);
+    } else {
+      // Remaining fingers continue from where the item is now
+      gestureRef.current = rebaseGesture(gesture.id, gesture.historyKey, gesture.pointers, gesture.current);
+    }
+  };
+
+  // --- 3b. Keyboard ---
+  // Wall items form one tab stop (roving tabindex): Tab lands on the last
+  // focused item, [ and ] (or Home / End) move between items, arrows nudge.
+  const rovingId = items.some(item => item.id === focusedItemId) ? focusedItemId : items[0]?.id;
+
+  const focusItem = (id: string) => {
+    setFocusedItemId(id);
+    const item = items.find(other => other.id === id);
+    if (item) revealItem(item);
+    // The item may not be rendered yet (e.g. just placed from the camera)
+    requestAnimationFrame(() => {
+      document.querySelector<HTMLElement>(`[data-photo-id="${id}"][tabindex], [data-decoration-id="${id}"][tabindex]`)
+        ?.focus({ preventScroll: true });
+    });
+  };
+
+  const handleItemFocus = (id: string) => {
+    if (id !== focusedItemId) nudgeKeyRef.current = `nudge-${id}-${Date.now()}`;
+    setFocusedItemId(id);
+  };
+
+  const handleItemKeyDown = (e: React.KeyboardEvent, item: WallItem) => {
+    if (e.ctrlKey || e.metaKey || e.altKey) return; // Leave shortcuts like undo alone
+    const index = items.findIndex(other => other.id === item.id);
+    const step = e.shiftKey ? KEYBOARD_NUDGE_FAST : KEYBOARD_NUDGE;
+    const nudges: Record<string, Position> = {
+      ArrowLeft: { x: -step, y: 0 },
+      ArrowRight: { x: step, y: 0 },
+      ArrowUp: { x: 0, y: -step },
+      ArrowDown: { x: 0, y: step },
+    };
+
+    const nudge = nudges[e.key];
+    if (nudge) {
+      e.preventDefault();
+      // A run of arrow presses undoes as one step, like a drag
+      runCommand({
+        type: 'update',
+        itemId: item.id,
+        before: { position: item.position },
+        after: { position: { x: item.position.x + nudge.x, y: item.position.y + nudge.y } },
+        mergeKey: nudgeKeyRef.current,
+      });
+      return;
+    }
+
+    nudgeKeyRef.current = `nudge-${item.id}-${Date.now()}`;
+    const focusAt = (i: number) => {
+      if (items.length === 0) return;
+      focusItem(items[(i + items.length) % items.length].id);
+    };
+
+    switch (e.key) {
+      case 'Delete':
+      case 'Backspace': {
+        e.preventDefault();
+        const neighbour = items[index + 1] || items[index - 1];
+        deleteItem(item.id);
+        announce(`${item.kind === 'photo' ? 'Photo' : DECORATION_LABELS[item.kind]} deleted. Press Ctrl+Z to undo.`);
+        if (neighbour) focusItem(neighbour.id);
+        break;
+      }
+      case 'f':
+      case 'F':
+        e.preventDefault();
+        bringToFront(item);
+        announce('Brought to front');
+        break;
+      case ']':
+        e.preventDefault();
+        focusAt(index + 1);
+        break;
+      case '[':
+        e.preventDefault();
+        focusAt(index - 1);
+        break;
+      case 'Home':
+        e.preventDefault();
+        focusAt(0);
+        break;
+      case 'End':
+        e.preventDefault();
+        focusAt(items.length - 1);
+        break;
+    }
+  };
+
+  // Space, from anywhere that doesn't use Space itself: held while dragging
+  // it pans the wall, tapped it fires the shutter (on release).
+  const spaceRef = useRef<{ panned: boolean } | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== ' ') return;
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, button, [role="button"], [contenteditable="true"]')) return;
+      e.preventDefault();
+      if (e.repeat || spaceRef.current) return;
+      spaceRef.current = { panned: false };
+      setIsSpaceHeld(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.key !== ' ' || !spaceRef.current) return;
+      const { panned } = spaceRef.current;
+      spaceRef.current = null;
+      setIsSpaceHeld(false);
+      if (!panned) takePhoto();
+    };
+    const handleBlur = () => {
+      spaceRef.current = null;
+      setIsSpaceHeld(false);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  });
+
+  // --- 3c. Screen Reader Announcements ---
+  const announce = (message: string) => setAnnouncement(message);
+
+  // Compares caption / development state with the last render to announce what just finished
+  useEffect(() => {
+    const all = [...walls.flatMap(w => w.photos), ...(stagedPhoto ? [stagedPhoto] : [])];
+    const previous = progressRef.current;
+    const next = new Map<string, { loading: boolean; developing: boolean }>();
+    const messages: string[] = [];
+
+    for (const p of all) {
+      const state = { loading: p.isLoadingCaption, developing: p.developProgress < 1 };
+      const before = previous.get(p.id);
+      if (before?.loading && !state.loading) {
+        messages.push(p.captionError ? `Caption failed: ${p.captionError}` : `Caption ready: ${p.caption}`);
       }
-      return p;
-    }));
-  }, [dragState]);
+      if (before?.developing && !state.developing) messages.push('Photo developed.');
+      next.set(p.id, state);
+    }
+
+    progressRef.current = next;
+    if (messages.length > 0) announce(messages.join(' '));
+  }, [walls, stagedPhoto]);
+
+  // --- 3d. Automatic Layouts ---
+  // Applied as one undoable batch; the free arrangement is kept aside, across
+  // reloads too, until the user goes back to it.
+  const wallLayout = wallLayouts[activeWall.id];
+
+  const animateArrangement = () => {
+    setIsArranging(true);
+    if (arrangeTimerRef.current) clearTimeout(arrangeTimerRef.current);
+    arrangeTimerRef.current = window.setTimeout(() => setIsArranging(false), LAYOUT_ANIMATION_MS);
+  };
 
-  // D. Global Up
-  const handleGlobalMouseUp = useCallback(() => {
-    setDragState(null);
+  useEffect(() => () => {
+    if (arrangeTimerRef.current) clearTimeout(arrangeTimerRef.current);
   }, []);
 
+  const placeAll = (placements: Map<string, ItemPlacement>) => {
+    // Decorations without a placement of their own stay on the photo they're on
+    const attached = attachDecorations(photos, decorations.filter(d => !placements.has(d.id)), placements);
+    const targets = new Map([...placements, ...attached]);
+    const commands: HistoryCommand[] = items.flatMap(item => {
+      const after = targets.get(item.id);
+      return after ? [{ type: 'update', itemId: item.id, before: pickPlacement(item), after }] : [];
+    });
+    if (commands.length === 0) return;
+    runCommand({ type: 'batch', commands });
+    animateArrangement();
+  };
+
+  const applyLayout = (mode: WallLayoutMode) => {
+    if (gestureRef.current) return;
+    // The part of the world currently on screen, clear of the toolbar and camera
+    const topLeft = toWorld(LAYOUT_MARGIN, LAYOUT_TOP);
+    const area = {
+      ...topLeft,
+      width: (screenSize.width - LAYOUT_MARGIN * 2) / view.zoom,
+      height: Math.max(240, screenSize.height - LAYOUT_TOP - CAMERA_SIZE - 96) / view.zoom,
+    };
+    // Switching between layouts keeps the original free arrangement
+    const saved = wallLayout?.saved ?? Object.fromEntries(items.map(item => [item.id, pickPlacement(item)]));
+    placeAll(arrangePhotos(mode, photos, area));
+    setWallLayouts(prev => ({ ...prev, [activeWall.id]: { mode, saved } }));
+  };
+
+  const restoreArrangement = () => {
+    if (!wallLayout || gestureRef.current) return;
+    placeAll(new Map(Object.entries(wallLayout.saved)));
+    setWallLayouts(prev => {
+      const { [activeWall.id]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
   useEffect(() => {
-    if (dragState) {
-      window.addEventListener('mousemove', handleGlobalMouseMove);
-      window.addEventListener('mouseup', handleGlobalMouseUp);
-    } else {
-      window.removeEventListener('mousemove', handleGlobalMouseMove);
-      window.removeEventListener('mouseup', handleGlobalMouseUp);
+    saveLayouts(wallLayouts);
+  }, [wallLayouts]);
+
+  // --- 3e. Decorations ---
+  // Stickers, tape and pins land in the middle of the screen on top of
+  // everything; ink is drawn straight onto the wall while the pen is active.
+  // Adding is undoable, like every other edit to them.
+  const addDecoration = (template: DecorationTemplate) => {
+    // A little jitter so repeated clicks don't stack exactly
+    const center = toWorld(
+      screenCenter.x + (Math.random() - 0.5) * 80,
+      screenCenter.y + (Math.random() - 0.5) * 80
+    );
+    const item = createDecoration(template, center, topZIndex(items) + 1);
+    runCommand({ type: 'add', wallId: activeWall.id, item });
+    announce(`${DECORATION_LABELS[item.kind]} added. Drag it, or use the arrow keys, to place it.`);
+    focusItem(item.id);
+  };
+
+  const handleInkStroke = (points: Position[]) => {
+    if (!inkTool) return;
+    const item = createInkStroke(points, inkTool.color, inkTool.width, topZIndex(items) + 1);
+    runCommand({ type: 'add', wallId: activeWall.id, item });
+  };
+
+  useEffect(() => {
+    if (!inkTool) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setInkTool(null);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [inkTool]);
+
+  // --- 3f. Search ---
+  // Matches stay bright and are listed in the search bar; everything else dims.
+  const isSearching = isQueryActive(searchQuery);
+  const searchResults = isSearching ? searchPhotos(photos, searchQuery) : [];
+  const matchIds = new Set(searchResults.map(p => p.id));
+
+  // Tags come from a second request to the caption provider; failures just leave the photo untagged
+  const tagPhoto = async (photo: PhotoData): Promise<boolean> => {
+    setTaggingCount(n => n + 1);
+    try {
+      const tags = await requestTags(photo.id, photo);
+      if (!tags) return false; // The provider can't tag
+      updateCapture(photo.id, { tags });
+      return true;
+    } catch (error) {
+      if (!(error instanceof CaptionCancelledError)) console.warn("Tagging failed:", error);
+      return false;
+    } finally {
+      setTaggingCount(n => n - 1);
     }
+  };
+
+  const updateAutoTag = (on: boolean) => {
+    localStorage.setItem(AUTO_TAG_KEY, String(on));
+    setAutoTag(on);
+  };
+
+  const tagUntaggedPhotos = async () => {
+    const untagged = photos.filter(p => p.tags === null);
+    const done = await Promise.all(untagged.map(tagPhoto));
+    const tagged = done.filter(Boolean).length;
+    announce(tagged > 0
+      ? `Tagged ${tagged} of ${untagged.length} photo(s).`
+      : 'No photos could be tagged. The selected caption service may not support tagging.');
+  };
+
+  // --- 3g. Shared Walls ---
+  // One wall at a time can be shared through a room on the relay. The sync
+  // session diffs the wall after every change, so this only hands it the
+  // photos, applies what comes back and claims photos while they're dragged.
+  const isOnSharedWall = sharing?.wallId === activeWall.id;
+  const sharedWall = sharing ? walls.find(w => w.id === sharing.wallId) : undefined;
+
+  const joinRoom = (serverUrl: string, room: string, name: string) => {
+    setSyncStatus('connecting');
+    setSharing({ wallId: activeWall.id, room });
+    syncRef.current?.close();
+    const wallId = activeWall.id;
+    syncRef.current = createSyncSession(serverUrl, room, name, {
+      onStatus: setSyncStatus,
+      onParticipants: (list, you) => {
+        setParticipants(list);
+        setYouId(you);
+      },
+      onClaims: setClaims,
+      onRemote: (changes) => {
+        changes.forEach(change => change.kind === 'delete' && cancelCaption(change.id));
+        setWalls(prev => prev.map(w => w.id === wallId ? { ...w, photos: applyRemoteChanges(w.photos, changes) } : w));
+      },
+      onClaimDenied: (photoId, by) => {
+        // Someone else got there first; let go without waiting for the pointer
+        if (gestureRef.current?.id === photoId) {
+          gestureRef.current = null;
+          setDraggingId(null);
+        }
+        announce(`${by?.name || 'Someone else'} is moving this photo.`);
+      },
+    });
+    announce(`Sharing "${activeWall.name}" in room ${room}.`);
+  };
+
+  const leaveRoom = () => {
+    syncRef.current?.close();
+    syncRef.current = null;
+    setSharing(null);
+    setParticipants([]);
+    setYouId(null);
+    setClaims({});
+  };
+
+  // Before paint, so a drag's moves go out in the order they happened
+  useLayoutEffect(() => {
+    if (sharedWall) syncRef.current?.publish(sharedWall.photos);
+  }, [sharedWall]);
+
+  // The shared wall was deleted
+  useEffect(() => {
+    if (sharing && !sharedWall) leaveRoom();
+  }, [sharing, sharedWall]);
+
+  useEffect(() => () => syncRef.current?.close(), []);
+
+  // Holds the photo for the length of a drag so nobody else can move it
+  useEffect(() => {
+    const session = syncRef.current;
+    if (!session || !draggingId) return;
+    session.claim(draggingId);
+    return () => session.release(draggingId);
+  }, [draggingId, sharing]);
+
+  // Someone else's claim on a photo, if any
+  const claimHolder = (photoId: string): Participant | undefined => {
+    const holder = claims[photoId];
+    return holder && holder !== youId ? participants.find(p => p.id === holder) : undefined;
+  };
+
+  // Photos someone else is dragging are outlined in their color
+  const claimOutline = (photoId: string): React.CSSProperties => {
+    const holder = claimHolder(photoId);
+    return holder ? { outline: `3px solid ${holder.color}`, outlineOffset: '4px' } : {};
+  };
+
+  // Our pointer, in world coordinates, while we look at the shared wall
+  useEffect(() => {
+    if (!isOnSharedWall) return;
+    const handleMove = (e: PointerEvent) => syncRef.current?.sendCursor(screenToWorld(viewRef.current, { x: e.clientX, y: e.clientY }));
+    const handleOut = (e: PointerEvent) => {
+      if (!e.relatedTarget) syncRef.current?.sendCursor(null); // Left the window
+    };
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerout', handleOut);
     return () => {
-      window.removeEventListener('mousemove', handleGlobalMouseMove);
-      window.removeEventListener('mouseup', handleGlobalMouseUp);
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerout', handleOut);
     };
-  }, [dragState, handleGlobalMouseMove, handleGlobalMouseUp]);
+  }, [isOnSharedWall]);
+
+  useEffect(() => {
+    if (!isOnSharedWall) syncRef.current?.sendCursor(null);
+  }, [isOnSharedWall]);
 
+  const remoteCursors = isOnSharedWall ? participants.filter(p => p.id !== youId && p.cursor) : [];
+
+  // --- 3h. Slideshow ---
+  // Shows the wall's photos full screen, or just the search results while searching.
+  const slideshowPhotos = isSearching ? searchResults : photos;
+
+  // --- 3i. Frame Templates ---
+  // Card sizes come from the photos' templates, so re-render when custom ones
+  // are added or deleted (cards of a deleted one fall back to classic).
+  useEffect(() => subscribeFrameTemplates(() => setFrameTemplatesVersion(v => v + 1)), []);
 
   // --- 4. Render Helpers ---
   const updatePhoto = (id: string, updates: Partial<PhotoData>) => {
-    setPhotos(prev => prev.map(p => p.id === id ? { ...p, ...updates } : p));
+    // From the ref: callers like caption regeneration get here after an await,
+    // with the handler of an older render
+    const current = latestWallsRef.current.flatMap(w => w.photos).find(p => p.id === id);
+    const after = pickHistoryFields(updates);
+
+    // Caption edits and regenerations are undoable; transient flags are not.
+    // Only the changed fields are recorded, so undoing them leaves the rest alone.
+    if (current && Object.keys(after).length > 0) {
+      runCommand({ type: 'update', itemId: id, before: pickHistoryFields(current, Object.keys(after)), after });
+    }
+    const transient = { ...updates };
+    Object.keys(after).forEach(key => delete transient[key as keyof PhotoData]);
+    if (Object.keys(transient).length > 0) {
+      mapAllPhotos(p => p.id === id ? { ...p, ...transient } : p);
+    }
   };
   
-  const deletePhoto = (id: string) => {
-    setPhotos(prev => prev.filter(p => p.id !== id));
+  const deleteItem = (id: string) => {
+    for (const wall of walls) {
+      const photoIndex = wall.photos.findIndex(p => p.id === id);
+      if (photoIndex >= 0) {
+        cancelCaption(id);
+        // If it comes back via undo, it shouldn't wait for the cancelled caption
+        const item = { ...wall.photos[photoIndex], isLoadingCaption: false };
+        runCommand({ type: 'delete', wallId: wall.id, item, index: photoIndex });
+        return;
+      }
+      const decorationIndex = wall.decorations.findIndex(d => d.id === id);
+      if (decorationIndex >= 0) {
+        runCommand({ type: 'delete', wallId: wall.id, item: wall.decorations[decorationIndex], index: decorationIndex });
+        return;
+      }
+    }
   };
 
+  const otherWalls = walls.filter(w => w.id !== activeWall.id).map(({ id, name }) => ({ id, name }));
+
   return (
-    <div className="w-full h-screen relative overflow-hidden bg-stone-100 select-none">
+    <div
+      ref={wallRef}
+      className="w-full h-screen relative overflow-hidden select-none transition-colors duration-500"
+      style={{
+        backgroundColor: activeWall.background,
+        // A faint dot grid that moves with the world, so panning and zooming read as such
+        backgroundImage: 'radial-gradient(circle, rgba(0,0,0,0.08) 1px, transparent 1.5px)',
+        backgroundSize: `${GRID_SPACING * view.zoom}px ${GRID_SPACING * view.zoom}px`,
+        backgroundPosition: `${view.x}px ${view.y}px`,
+        cursor: isPanning ? 'grabbing' : isSpaceHeld ? 'grab' : undefined,
+        touchAction: 'none',
+      }}
+      onPointerDown={handleBackgroundPointerDown}
+      onPointerMove={handleGlobalPointerMove}
+      onPointerUp={handleGlobalPointerUp}
+      onPointerCancel={handleGlobalPointerUp}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
       
       {/* Title */}
       <h1 className="absolute top-6 left-1/2 transform -translate-x-1/2 text-5xl text-stone-800 font-bold z-0 opacity-20 pointer-events-none">
@@ -255,28 +1654,200 @@ export default function App() {
       </h1>
 
       {/* Instructions */}
-      <div className="absolute bottom-4 right-6 text-right text-stone-500 text-lg opacity-60 pointer-events-none z-0">
+      <div className="absolute bottom-44 right-6 text-right text-stone-500 text-lg opacity-60 pointer-events-none z-0">
         <p>1. Click shutter to take photo</p>
         <p>2. Drag photo from slot to wall</p>
         <p>3. Edit text or use AI</p>
+        <p>Drop or paste images to import them</p>
+        <p>Keyboard: Space to shoot, Tab to the photos, / to search</p>
+        <p>Drag the wall (or hold Space) to pan, scroll to zoom</p>
       </div>
 
-      {/* --- Photo Wall --- */}
-      {photos.map(photo => (
-        <Polaroid
-          key={photo.id}
-          photo={photo}
-          onUpdate={updatePhoto}
-          onDelete={deletePhoto}
-          onMouseDown={(e) => handleWallMouseDown(e, photo)}
-          style={{
-            transform: `translate(${photo.position.x}px, ${photo.position.y}px) rotate(${ (parseInt(photo.id) % 10) - 5 }deg)`,
-            zIndex: photo.zIndex,
-            cursor: 'grab'
-          }}
-          className={dragState?.id === photo.id ? 'cursor-grabbing shadow-2xl scale-105 transition-transform duration-75' : 'shadow-xl hover:scale-105 hover:shadow-2xl transition-all duration-200'}
+      <p id="photo-keyboard-help" className="sr-only">
+        Arrow keys move the photo or decoration, Shift for bigger steps. Enter edits a photo's caption, F brings
+        it to the front, Delete removes it. Left and right square brackets go to the previous or next item.
+      </p>
+      <div className="sr-only" aria-live="polite" aria-atomic="true">{announcement}</div>
+
+      {isDragOver && (
+        <div className="fixed inset-4 z-50 rounded-xl border-4 border-dashed border-stone-500 bg-white/40 flex items-center justify-center pointer-events-none">
+          <span className="text-4xl text-stone-700 font-hand">Drop photos to develop them</span>
+        </div>
+      )}
+
+      <CaptionSettings />
+      <div className="fixed top-4 right-28 z-40 flex gap-1">
+        <button
+          onClick={handleUndo}
+          disabled={history.past.length === 0}
+          className="p-2 rounded-full bg-white/80 text-stone-600 shadow hover:text-stone-900 disabled:opacity-40 transition-colors"
+          title="Undo (Ctrl+Z)"
+          aria-label="Undo"
+        >
+          <Undo2 size={18} />
+        </button>
+        <button
+          onClick={handleRedo}
+          disabled={history.future.length === 0}
+          className="p-2 rounded-full bg-white/80 text-stone-600 shadow hover:text-stone-900 disabled:opacity-40 transition-colors"
+          title="Redo (Ctrl+Shift+Z)"
+          aria-label="Redo"
+        >
+          <Redo2 size={18} />
+        </button>
+      </div>
+      <ExportMenu wall={activeWall} onImportBundle={importBundle} />
+      <LayoutMenu
+        activeMode={wallLayout?.mode ?? null}
+        canRestore={!!wallLayout}
+        disabled={photos.length === 0}
+        onArrange={applyLayout}
+        onRestore={restoreArrangement}
+      />
+      <DecorationsMenu onAdd={addDecoration} inkTool={inkTool} onInkToolChange={setInkTool} />
+      <SharePanel
+        room={sharing?.room ?? null}
+        status={syncStatus}
+        sharedWallName={sharedWall?.name ?? null}
+        activeWallName={activeWall.name}
+        participants={participants}
+        youId={youId}
+        onJoin={joinRoom}
+        onLeave={leaveRoom}
+      />
+      <button
+        onClick={() => setIsPresenting(true)}
+        disabled={slideshowPhotos.length === 0}
+        className="fixed top-4 right-[21rem] z-40 p-2 rounded-full bg-white/80 text-stone-600 shadow hover:text-stone-900 disabled:opacity-40 transition-colors"
+        title={isSearching ? 'Slideshow of the search results' : 'Slideshow'}
+        aria-label={isSearching ? 'Slideshow of the search results' : 'Slideshow'}
+      >
+        <Presentation size={18} />
+      </button>
+      <WallSwitcher
+        walls={walls}
+        activeWallId={activeWall.id}
+        onSelect={setActiveWallId}
+        onCreate={addWall}
+        onUpdate={updateWall}
+        onDelete={deleteWall}
+      />
+
+      {!inkTool && (
+        <SearchBar
+          query={searchQuery}
+          onChange={setSearchQuery}
+          photos={photos}
+          results={searchResults}
+          onJump={jumpToPhoto}
+          onTagUntagged={tagUntaggedPhotos}
+          taggingCount={taggingCount}
+          autoTag={autoTag}
+          onAutoTagChange={updateAutoTag}
         />
-      ))}
+      )}
+
+      <Minimap
+        items={items}
+        view={view}
+        screen={screenSize}
+        onCenter={(point) => updateView(prev => centerOn(point, screenSize, prev.zoom))}
+        onJumpToPhoto={jumpToPhoto}
+        onFitAll={fitAll}
+        onZoom={zoomBy}
+        onResetZoom={resetZoom}
+      />
+
+      {inkTool && (
+        <>
+          <InkLayer color={inkTool.color} width={inkTool.width} view={view} onStroke={handleInkStroke} />
+          <div className="fixed top-4 left-1/2 -translate-x-1/2 z-40 flex items-center gap-2 px-3 py-1 rounded-full bg-white/90 shadow font-hand text-stone-700">
+            Drawing: drag to ink the wall
+            <button onClick={() => setInkTool(null)} className="px-2 rounded-full bg-stone-800 text-white">
+              Done (Esc)
+            </button>
+          </div>
+        </>
+      )}
+
+      {/* --- Photo Wall --- */}
+      {/* World layer: item positions are world coordinates, mapped by the viewport */}
+      <div
+        ref={worldRef}
+        className="absolute top-0 left-0 z-30"
+        style={{
+          transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`,
+          transformOrigin: '0 0',
+          ...(isViewAnimating ? { transition: `transform ${VIEW_ANIMATION_MS}ms cubic-bezier(0.22, 1, 0.36, 1)` } : {})
+        }}
+      >
+        {photos.map(photo => (
+          <Polaroid
+            key={photo.id}
+            photo={photo}
+            onUpdate={updatePhoto}
+            onDelete={deleteItem}
+            moveTargets={otherWalls}
+            onMoveToWall={movePhotoToWall}
+            onPointerDown={(e) => handleWallPointerDown(e, photo)}
+            onKeyDown={(e) => handleItemKeyDown(e, photo)}
+            onFocus={() => handleItemFocus(photo.id)}
+            tabIndex={photo.id === rovingId ? 0 : -1}
+            describedBy="photo-keyboard-help"
+            developmentCurve={developmentConfig.curve}
+            style={{
+              transform: `translate(${photo.position.x}px, ${photo.position.y}px) rotate(${photo.rotation}deg) scale(${photo.scale})`,
+              zIndex: photo.zIndex,
+              cursor: 'grab',
+              touchAction: 'none',
+              ...(isSearching && !matchIds.has(photo.id) ? SEARCH_DIMMED : {}),
+              ...claimOutline(photo.id),
+              ...(isArranging ? { transition: `transform ${LAYOUT_ANIMATION_MS}ms cubic-bezier(0.22, 1, 0.36, 1)` } : {})
+            }}
+            className={`${draggingId === photo.id ? 'cursor-grabbing shadow-2xl scale-105 transition-transform duration-75' : 'shadow-xl hover:scale-105 hover:shadow-2xl transition-all duration-200'} ${
+              isSearching && matchIds.has(photo.id) ? 'ring-4 ring-amber-300 ring-offset-2' : ''
+            }`}
+          />
+        ))}
+        {decorations.map(item => (
+          <DecorationItem
+            key={item.id}
+            item={item}
+            onDelete={deleteItem}
+            onPointerDown={(e) => handleWallPointerDown(e, item)}
+            onKeyDown={(e) => handleItemKeyDown(e, item)}
+            onFocus={() => handleItemFocus(item.id)}
+            tabIndex={item.id === rovingId ? 0 : -1}
+            describedBy="photo-keyboard-help"
+            style={{
+              transform: `translate(${item.position.x}px, ${item.position.y}px) rotate(${item.rotation}deg) scale(${item.scale})`,
+              zIndex: item.zIndex,
+              cursor: draggingId === item.id ? 'grabbing' : 'grab',
+              touchAction: 'none',
+              ...(isSearching ? SEARCH_DIMMED : {}), // Decorations never match a search
+              ...(isArranging ? { transition: `transform ${LAYOUT_ANIMATION_MS}ms cubic-bezier(0.22, 1, 0.36, 1)` } : {})
+            }}
+          />
+        ))}
+      </div>
+
+      {/* Other people's pointers on the shared wall */}
+      {remoteCursors.map(participant => {
+        const point = worldToScreen(view, participant.cursor!);
+        return (
+          <div
+            key={participant.id}
+            className="fixed top-0 left-0 z-[35] pointer-events-none flex items-start transition-transform duration-75"
+            style={{ transform: `translate(${point.x}px, ${point.y}px)` }}
+            aria-hidden="true"
+          >
+            <MousePointer2 size={20} color={participant.color} fill={participant.color} />
+            <span className="mt-4 px-1 rounded text-xs font-sans text-white whitespace-nowrap" style={{ backgroundColor: participant.color }}>
+              {participant.name}
+            </span>
+          </div>
+        );
+      })}
 
       {/* --- Retro Camera Container --- */}
       <div 
@@ -294,17 +1865,26 @@ export default function App() {
         {/* We cheat: The "Camera Body" is z-20. The Photo is z-10. The Photo moves up. */}
         {stagedPhoto && (
           <div 
-             className="absolute left-1/2 w-[240px] h-[320px] transition-transform duration-[1500ms] ease-out"
+             className="absolute left-1/2 transition-transform duration-[1500ms] ease-out"
              style={{
+               width: `${getCardLayout(stagedPhoto).width}px`,
+               height: `${getCardLayout(stagedPhoto).height}px`,
                top: 0,
                zIndex: 10, // Behind camera body (which is effectively the container + bg)
                // Start at top:0 (hidden behind body), animate to -40% (sticking out top)
                transform: 'translateX(-50%) translateY(-40%)', 
                // Initial state for animation would be translateY(0), but React renders final state.
                // We need a small delay or CSS keyframe. Let's use an inline animation trick or simply CSS transition from mount.
-               animation: 'eject 1.5s ease-out forwards'
+               animation: 'eject 1.5s ease-out forwards',
+               touchAction: 'none'
              }}
-             onMouseDown={handleStagedMouseDown}
+             onPointerDown={handleStagedPointerDown}
+             onKeyDown={handleStagedKeyDown}
+             tabIndex={0}
+             role="button"
+             aria-label={stagedPhoto.isLoadingCaption
+               ? 'New photo in the camera slot. Press Enter to place it on the wall.'
+               : `New photo in the camera slot: ${stagedPhoto.caption || 'no caption'}. Press Enter to place it on the wall.`}
           >
              <style>{`
                @keyframes eject {
@@ -316,6 +1896,7 @@ export default function App() {
                 photo={stagedPhoto} 
                 onUpdate={() => {}} // No updates while staged
                 isStaged={true}
+                developmentCurve={developmentConfig.curve}
              />
           </div>
         )}
@@ -342,7 +1923,13 @@ export default function App() {
         >
           {cameraError ? (
             <div className="flex flex-col items-center justify-center text-center p-4">
-              <span className="text-white text-xs font-hand opacity-80">{cameraError}</span>
+              <span className="text-white text-xs font-hand opacity-80 leading-tight">{CAMERA_ERROR_MESSAGES[cameraError]}</span>
+              <button
+                onClick={() => setCameraAttempt(n => n + 1)}
+                className="mt-1 px-2 rounded-full bg-white/80 text-stone-800 text-xs font-hand hover:bg-white"
+              >
+                Retry
+              </button>
             </div>
           ) : (
             <>
@@ -351,8 +1938,36 @@ export default function App() {
                 autoPlay 
                 playsInline 
                 muted
-                className="w-full h-full object-cover transform scale-x-[-1]" // Mirror
+                aria-label="Camera viewfinder"
+                className={`w-full h-full object-cover ${isMirrored ? 'transform scale-x-[-1]' : ''}`} // Mirror user-facing cameras only
               />
+              {/* Film preview (mirrored as needed when drawn) */}
+              {(filmStock !== 'none' || autoFrame.enabled) && (
+                <canvas
+                  ref={previewCanvasRef}
+                  width={PREVIEW_SIZE}
+                  height={PREVIEW_SIZE}
+                  className="absolute inset-0 w-full h-full"
+                />
+              )}
+              {/* Faces auto-framing found, and a warning when one is cut off */}
+              {viewfinderFaces?.faces.map((face, i) => (
+                <span
+                  key={i}
+                  className={`absolute border rounded-sm pointer-events-none ${viewfinderFaces.isCutOff ? 'border-amber-300' : 'border-white/60'}`}
+                  style={{ left: `${face.x * 100}%`, top: `${face.y * 100}%`, width: `${face.width * 100}%`, height: `${face.height * 100}%` }}
+                  aria-hidden="true"
+                />
+              ))}
+              {viewfinderFaces?.isCutOff && (
+                <span className="absolute bottom-[14%] left-1/2 -translate-x-1/2 px-1.5 rounded-full bg-amber-400/90 text-stone-900 text-[10px] font-sans whitespace-nowrap" role="status">
+                  Face cut off
+                </span>
+              )}
+              {/* Live clip still recording after the shutter */}
+              {recordingClips > 0 && (
+                <span className="absolute top-[18%] left-1/2 -translate-x-1/2 w-2.5 h-2.5 rounded-full bg-red-500 animate-pulse" aria-hidden="true" />
+              )}
               {/* Glare effect */}
               <div className="absolute inset-0 bg-gradient-to-tr from-transparent via-white/10 to-transparent pointer-events-none rounded-full"></div>
             </>
@@ -360,26 +1975,151 @@ export default function App() {
         </div>
 
         {/* Layer 4: Shutter Button (Invisible Click Area) */}
-        <div 
+        <button
           onClick={takePhoto}
-          className={`absolute z-30 transition-colors active:scale-95 ${cameraError ? 'cursor-not-allowed' : 'cursor-pointer hover:bg-white/10'}`}
+          className={`absolute z-30 rounded-full transition-colors active:scale-95 focus-visible:outline focus-visible:outline-2 focus-visible:outline-stone-800 ${cameraError ? 'cursor-not-allowed' : 'cursor-pointer hover:bg-white/10'}`}
           style={{
             bottom: '40%',
             left: '18%',
             width: '11%',
             height: '11%',
           }}
-          title={cameraError ? "Camera unavailable" : "Take Photo"}
+          title={cameraError ? "Camera unavailable" : "Take Photo (Space)"}
+          aria-label={cameraError ? "Take photo (camera unavailable)" : "Take photo"}
+          aria-keyshortcuts="Space"
+          aria-disabled={!!cameraError}
+        />
+
+        {/* Film Stock Picker */}
+        <div className="absolute left-0 right-0 flex justify-center gap-1 z-30" style={{ bottom: '-40px' }}>
+          {FILM_STOCKS.map(stock => (
+            <button
+              key={stock.id}
+              onClick={() => setFilmStock(stock.id)}
+              aria-pressed={filmStock === stock.id}
+              className={`px-2 py-0.5 rounded-full text-sm font-hand transition-colors ${
+                filmStock === stock.id ? 'bg-stone-800 text-white' : 'bg-white/70 text-stone-600 hover:bg-white'
+              }`}
+              title={`Film: ${stock.label}`}
+            >
+              {stock.label}
+            </button>
+          ))}
+        </div>
+
+        <CameraSettingsPanel
+          settings={cameraSettings}
+          onChange={updateCameraSettings}
+          activeDeviceId={activeDeviceId}
+          development={developmentConfig}
+          onDevelopmentChange={updateDevelopmentConfig}
         />
 
+        {/* Shooting Mode Toggle */}
+        <div className="absolute z-30 flex flex-col gap-1" style={{ left: '100%', bottom: '30%' }}>
+          {(['single', 'booth'] as const).map(mode => (
+            <button
+              key={mode}
+              onClick={() => setShootingMode(mode)}
+              aria-pressed={shootingMode === mode}
+              disabled={countdown !== null}
+              className={`px-2 py-0.5 rounded-full text-sm font-hand whitespace-nowrap transition-colors ${
+                shootingMode === mode ? 'bg-stone-800 text-white' : 'bg-white/70 text-stone-600 hover:bg-white'
+              }`}
+              title={mode === 'booth' ? `Photo booth: ${BOOTH_FRAMES} shots in a strip` : 'Single shot'}
+            >
+              {mode === 'booth' ? `Booth ×${BOOTH_FRAMES}` : 'Single'}
+            </button>
+          ))}
+          {isLiveClipSupported() && (
+            <div className="flex gap-1">
+              <button
+                onClick={() => updateLiveClip({ ...liveClip, enabled: !liveClip.enabled })}
+                aria-pressed={liveClip.enabled}
+                disabled={shootingMode !== 'single'}
+                className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-sm font-hand whitespace-nowrap transition-colors disabled:opacity-50 ${
+                  liveClip.enabled ? 'bg-stone-800 text-white' : 'bg-white/70 text-stone-600 hover:bg-white'
+                }`}
+                title="Live: keep a short clip from around each single shot"
+              >
+                <Clapperboard size={14} />
+                Live
+              </button>
+              {liveClip.enabled && (
+                <button
+                  onClick={() => updateLiveClip({ ...liveClip, audio: !liveClip.audio })}
+                  aria-pressed={liveClip.audio}
+                  className={`p-1 rounded-full transition-colors ${
+                    liveClip.audio && !isMicBlocked ? 'bg-stone-800 text-white' : 'bg-white/70 text-stone-600 hover:bg-white'
+                  }`}
+                  title={isMicBlocked ? 'Microphone blocked: clips are silent' : liveClip.audio ? 'Clips record sound' : 'Clips are silent'}
+                  aria-label="Record sound with live clips"
+                >
+                  {liveClip.audio && !isMicBlocked ? <Mic size={14} /> : <MicOff size={14} />}
+                </button>
+              )}
+            </div>
+          )}
+          <button
+            onClick={() => updateAutoFrame({ enabled: !autoFrame.enabled })}
+            aria-pressed={autoFrame.enabled}
+            className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-sm font-hand whitespace-nowrap transition-colors ${
+              autoFrame.enabled ? 'bg-stone-800 text-white' : 'bg-white/70 text-stone-600 hover:bg-white'
+            }`}
+            title="Auto-frame: center the square on faces and warn when one is cut off"
+          >
+            <ScanFace size={14} />
+            Auto-frame
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-1 px-2 py-0.5 rounded-full text-sm font-hand whitespace-nowrap bg-white/70 text-stone-600 hover:bg-white transition-colors"
+            title="Import images from disk"
+          >
+            <ImagePlus size={14} />
+            Import{importQueue.length > 0 ? ` (${importQueue.length})` : ''}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            multiple
+            className="hidden"
+            aria-label="Import images"
+            onChange={(e) => {
+              importFiles(Array.from(e.target.files || []));
+              e.target.value = ''; // Allow picking the same file again
+            }}
+          />
+        </div>
+
+        {/* Booth Countdown */}
+        {countdown !== null && countdown > 0 && (
+          <div className="absolute inset-0 z-40 flex items-center justify-center pointer-events-none">
+            <span key={countdown} className="text-8xl text-white font-hand drop-shadow-[0_2px_8px_rgba(0,0,0,0.8)] animate-pulse">
+              {countdown}
+            </span>
+          </div>
+        )}
+
         {/* Flash overlay (optional visual feedback) */}
         <div 
            id="flash" 
-           className="fixed inset-0 bg-white opacity-0 pointer-events-none z-50 transition-opacity duration-100"
+           className={`fixed inset-0 bg-white pointer-events-none z-50 transition-opacity duration-100 ${countdown === 0 ? 'opacity-80' : 'opacity-0'}`}
            style={{ pointerEvents: 'none' }}
         ></div>
         
       </div>
+
+      {isPresenting && (
+        <Slideshow
+          photos={slideshowPhotos}
+          title={activeWall.name}
+          screen={screenSize}
+          developmentCurve={developmentConfig.curve}
+          onClose={() => setIsPresenting(false)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+import { Settings, SwitchCamera, X } from 'lucide-react';
+import { CameraSettings, RESOLUTIONS, listCameras } from '../services/cameraService.ts';
+import {
+  DEVELOPMENT_CURVES,
+  DEVELOPMENT_DURATIONS,
+  DevelopmentConfig,
+  DevelopmentCurve,
+} from '../services/developmentService.ts';
+
+interface CameraSettingsPanelProps {
+  settings: CameraSettings;
+  onChange: (settings: CameraSettings) => void;
+  activeDeviceId: string | null; // Device actually in use, which may differ from the saved choice
+  development: DevelopmentConfig;
+  onDevelopmentChange: (config: DevelopmentConfig) => void;
+}
+
+const formatDuration = (ms: number) => ms < 60000 ? `${ms / 1000} seconds` : `${ms / 60000} min`;
+
+export const CameraSettingsPanel: React.FC<CameraSettingsPanelProps> = ({
+  settings,
+  onChange,
+  activeDeviceId,
+  development,
+  onDevelopmentChange,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    // Labels are only filled in once camera permission has been granted
+    const refresh = () => listCameras().then(setDevices).catch(err => console.warn("Could not list cameras", err));
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, [isOpen, activeDeviceId]);
+
+  const flipCamera = () => {
+    onChange({
+      ...settings,
+      deviceId: null,
+      facingMode: settings.facingMode === 'user' ? 'environment' : 'user',
+    });
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="absolute z-30 p-1.5 rounded-full bg-white/70 text-stone-600 hover:bg-white transition-colors"
+        style={{ left: '100%', bottom: '55%' }}
+        title="Camera settings"
+      >
+        <Settings size={16} />
+      </button>
+    );
+  }
+
+  return (
+    <div
+      className="absolute z-40 w-64 bg-white/95 rounded-lg shadow-xl p-4 font-hand text-stone-700"
+      style={{ left: '100%', bottom: '30%' }}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-xl">Camera</h2>
+        <button onClick={() => setIsOpen(false)} className="text-stone-400 hover:text-stone-800" title="Close">
+          <X size={16} />
+        </button>
+      </div>
+
+      <button
+        onClick={flipCamera}
+        className="flex items-center gap-2 w-full justify-center border border-stone-800 rounded py-1 text-lg mb-3"
+      >
+        <SwitchCamera size={16} />
+        {settings.facingMode === 'user' ? 'Use rear camera' : 'Use front camera'}
+      </button>
+
+      <label className="flex flex-col text-lg mb-2">
+        Device
+        <select
+          className="border border-stone-300 rounded px-1 text-sm font-sans"
+          value={settings.deviceId || activeDeviceId || ''}
+          onChange={(e) => onChange({ ...settings, deviceId: e.target.value || null })}
+        >
+          <option value="">Automatic</option>
+          {devices.map((device, i) => (
+            <option key={device.deviceId || i} value={device.deviceId}>
+              {device.label || `Camera ${i + 1}`}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex flex-col text-lg">
+        Resolution
+        <select
+          className="border border-stone-300 rounded px-1 text-sm font-sans"
+          value={settings.resolution}
+          onChange={(e) => onChange({ ...settings, resolution: Number(e.target.value) })}
+        >
+          {RESOLUTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </label>
+
+      <div className="mt-4 pt-3 border-t border-stone-200">
+        <h3 className="text-lg mb-1">Development</h3>
+        <label className="flex flex-col text-lg mb-2">
+          Time
+          <select
+            className="border border-stone-300 rounded px-1 text-sm font-sans"
+            value={development.durationMs}
+            onChange={(e) => onDevelopmentChange({ ...development, durationMs: Number(e.target.value) })}
+          >
+            {DEVELOPMENT_DURATIONS.map(ms => (
+              <option key={ms} value={ms}>{formatDuration(ms)}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex flex-col text-lg">
+          Curve
+          <select
+            className="border border-stone-300 rounded px-1 text-sm font-sans"
+            value={development.curve}
+            onChange={(e) => onDevelopmentChange({ ...development, curve: e.target.value as DevelopmentCurve })}
+          >
+            {DEVELOPMENT_CURVES.map(curve => (
+              <option key={curve.id} value={curve.id}>{curve.label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+};
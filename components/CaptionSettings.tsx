@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Sparkles, X } from 'lucide-react';
+import {
+  getCaptionProviders,
+  getDefaultCaptionStyle,
+  getSelectedProviderId,
+  setDefaultCaptionStyle,
+  setSelectedProviderId,
+} from '../services/captionService.ts';
+import {
+  getOpenAiCompatibleConfig,
+  setOpenAiCompatibleConfig,
+  openAiCompatibleProvider,
+} from '../services/openAiCompatibleService.ts';
+import { CaptionStyle } from '../types.ts';
+import { CaptionStyleFields } from './CaptionStyleFields.tsx';
+
+export const CaptionSettings: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState(getSelectedProviderId);
+  const [endpoint, setEndpoint] = useState(getOpenAiCompatibleConfig);
+  const [style, setStyle] = useState(getDefaultCaptionStyle);
+
+  const handleSelect = (id: string) => {
+    setSelectedProviderId(id);
+    setSelectedId(id);
+  };
+
+  const handleEndpointChange = (field: keyof typeof endpoint, value: string) => {
+    const next = { ...endpoint, [field]: value };
+    setEndpoint(next);
+    setOpenAiCompatibleConfig(next);
+  };
+
+  const handleStyleChange = (next: CaptionStyle) => {
+    setStyle(next);
+    setDefaultCaptionStyle(next);
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="fixed top-4 right-4 z-40 p-2 rounded-full bg-white/80 text-stone-600 shadow hover:text-stone-900 transition-colors"
+        title="Caption settings"
+      >
+        <Sparkles size={18} />
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed top-4 right-4 z-40 w-72 bg-white/95 rounded-lg shadow-xl p-4 font-hand text-stone-700">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-xl">Captions</h2>
+        <button onClick={() => setIsOpen(false)} className="text-stone-400 hover:text-stone-800" title="Close">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        {getCaptionProviders().map(provider => (
+          <label key={provider.id} className="flex items-center gap-2 text-lg cursor-pointer">
+            <input
+              type="radio"
+              name="caption-provider"
+              checked={selectedId === provider.id}
+              onChange={() => handleSelect(provider.id)}
+            />
+            <span className={provider.isAvailable() ? '' : 'text-stone-400'}>{provider.label}</span>
+          </label>
+        ))}
+      </div>
+
+      {selectedId === openAiCompatibleProvider.id && (
+        <div className="mt-3 flex flex-col gap-2 text-sm font-sans">
+          <input
+            className="border border-stone-300 rounded px-2 py-1"
+            placeholder="Base URL"
+            value={endpoint.baseUrl}
+            onChange={(e) => handleEndpointChange('baseUrl', e.target.value)}
+          />
+          <input
+            className="border border-stone-300 rounded px-2 py-1"
+            placeholder="Model"
+            value={endpoint.model}
+            onChange={(e) => handleEndpointChange('model', e.target.value)}
+          />
+          <input
+            className="border border-stone-300 rounded px-2 py-1"
+            placeholder="API key (optional)"
+            type="password"
+            value={endpoint.apiKey}
+            onChange={(e) => handleEndpointChange('apiKey', e.target.value)}
+          />
+        </div>
+      )}
+
+      <div className="mt-4 pt-3 border-t border-stone-200">
+        <h3 className="text-lg mb-1">For new photos</h3>
+        <CaptionStyleFields style={style} onChange={handleStyleChange} />
+      </div>
+
+      <p className="mt-3 text-xs font-sans text-stone-400">
+        Failed captions are retried automatically; if they still fail, the card shows why.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import React from 'react';
+import { CaptionStyle } from '../types.ts';
+import { CAPTION_PERSONAS, describeLanguage } from '../services/captionPrompt.ts';
+
+interface CaptionStyleFieldsProps {
+  style: CaptionStyle;
+  onChange: (style: CaptionStyle) => void;
+}
+
+const LANGUAGES = ['en', 'es', 'fr', 'de', 'it', 'pt', 'nl', 'sv', 'pl', 'tr', 'ru', 'ar', 'hi', 'ja', 'ko', 'zh-CN', 'zh-TW'];
+
+// Persona, output language and hint; shared by the caption settings and the per-photo style picker
+export const CaptionStyleFields: React.FC<CaptionStyleFieldsProps> = ({ style, onChange }) => (
+  <div className="flex flex-col gap-2">
+    <label className="flex flex-col text-lg">
+      Style
+      <select
+        className="border border-stone-300 rounded px-1 text-sm font-sans"
+        value={style.persona}
+        onChange={(e) => onChange({ ...style, persona: e.target.value as CaptionStyle['persona'] })}
+      >
+        {CAPTION_PERSONAS.map(persona => (
+          <option key={persona.id} value={persona.id}>{persona.label}</option>
+        ))}
+      </select>
+    </label>
+
+    <label className="flex flex-col text-lg">
+      Language
+      <select
+        className="border border-stone-300 rounded px-1 text-sm font-sans"
+        value={style.language || ''}
+        onChange={(e) => onChange({ ...style, language: e.target.value || null })}
+      >
+        <option value="">Browser ({navigator.language || 'en-US'})</option>
+        {LANGUAGES.map(tag => (
+          <option key={tag} value={tag}>{describeLanguage(tag)}</option>
+        ))}
+      </select>
+    </label>
+
+    <label className="flex flex-col text-lg">
+      Hint
+      <input
+        className="border border-stone-300 rounded px-2 py-0.5 text-sm font-sans"
+        placeholder="e.g. grandma's 90th birthday"
+        maxLength={200}
+        value={style.hint}
+        onChange={(e) => onChange({ ...style, hint: e.target.value })}
+      />
+    </label>
+  </div>
+);
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { Decoration, InkItem, PinItem, StickerItem, TapeItem, TapePattern } from '../types.ts';
+import { DECORATION_LABELS, STICKER_SIZE, getDecorationSize, tapeOutline } from '../services/decorations.ts';
+
+interface DecorationItemProps {
+  item: Decoration;
+  onDelete?: (id: string) => void;
+  onPointerDown?: (e: React.PointerEvent) => void;
+  onKeyDown?: (e: React.KeyboardEvent) => void;
+  onFocus?: () => void;
+  tabIndex?: number;
+  describedBy?: string;
+  style?: React.CSSProperties;
+  className?: string;
+}
+
+/** CSS background for a tape strip; also used for the swatches in the decorations menu. */
+export const tapeBackground = (color: string, pattern: TapePattern): string => {
+  switch (pattern) {
+    case 'stripes':
+      return `repeating-linear-gradient(45deg, ${color} 0 6px, rgba(255,255,255,0.45) 6px 10px)`;
+    case 'dots':
+      return `radial-gradient(circle, rgba(255,255,255,0.6) 2px, transparent 2.5px) 0 0 / 10px 10px, ${color}`;
+    default:
+      return color;
+  }
+};
+
+// --- One renderer per kind ---
+
+const StickerArt: React.FC<{ item: StickerItem }> = ({ item }) => (
+  <span
+    className="w-full h-full flex items-center justify-center select-none"
+    style={{
+      fontSize: `${STICKER_SIZE * 0.72}px`,
+      lineHeight: 1,
+      // White die-cut edge plus a soft shadow, like a vinyl sticker
+      filter: 'drop-shadow(0 0 1px white) drop-shadow(0 0 1px white) drop-shadow(0 2px 2px rgba(0,0,0,0.25))',
+    }}
+  >
+    {item.emoji}
+  </span>
+);
+
+const TapeArt: React.FC<{ item: TapeItem }> = ({ item }) => (
+  <div
+    className="w-full h-full"
+    style={{
+      background: tapeBackground(item.color, item.pattern),
+      opacity: 0.8,
+      clipPath: `polygon(${tapeOutline(item.length).map(p => `${p.x}px ${p.y}px`).join(', ')})`,
+    }}
+  />
+);
+
+const PinArt: React.FC<{ item: PinItem }> = ({ item }) => (
+  <svg viewBox="0 0 28 28" className="w-full h-full" style={{ filter: 'drop-shadow(1px 3px 2px rgba(0,0,0,0.35))' }}>
+    <circle cx="14" cy="14" r="10" fill={item.color} stroke="rgba(0,0,0,0.2)" strokeWidth="1" />
+    <circle cx="10.5" cy="10.5" r="3" fill="white" opacity="0.7" />
+  </svg>
+);
+
+const inkPath = ({ points }: InkItem) => points.map((p, i) => `${i === 0 ? 'M' : 'L'}${p.x} ${p.y}`).join(' ');
+
+const InkArt: React.FC<{ item: InkItem }> = ({ item }) => {
+  const { width, height } = getDecorationSize(item);
+  const d = inkPath(item);
+  return (
+    <svg width={width} height={height} className="overflow-visible">
+      {/* Wider invisible stroke so thin lines are still easy to grab */}
+      <path d={d} fill="none" stroke="transparent" strokeWidth={Math.max(16, item.width + 8)} strokeLinecap="round" strokeLinejoin="round" style={{ pointerEvents: 'stroke' }} />
+      <path d={d} fill="none" stroke={item.color} strokeWidth={item.width} strokeLinecap="round" strokeLinejoin="round" style={{ pointerEvents: 'none' }} />
+    </svg>
+  );
+};
+
+const renderArt = (item: Decoration) => {
+  switch (item.kind) {
+    case 'sticker': return <StickerArt item={item} />;
+    case 'tape': return <TapeArt item={item} />;
+    case 'pin': return <PinArt item={item} />;
+    case 'ink': return <InkArt item={item} />;
+  }
+};
+
+export const DecorationItem: React.FC<DecorationItemProps> = ({
+  item,
+  onDelete,
+  onPointerDown,
+  onKeyDown,
+  onFocus,
+  tabIndex,
+  describedBy,
+  style,
+  className = '',
+}) => {
+  const [isHovering, setIsHovering] = useState(false);
+  const [isFocused, setIsFocused] = useState(false);
+  const { width, height } = getDecorationSize(item);
+  const label = item.kind === 'sticker' ? `${DECORATION_LABELS.sticker} ${item.emoji}` : DECORATION_LABELS[item.kind];
+
+  return (
+    <div
+      className={`absolute outline-none focus-visible:outline-dashed focus-visible:outline-2 focus-visible:outline-stone-500 ${className}`}
+      style={{
+        width: `${width}px`,
+        height: `${height}px`,
+        // Only the stroke of a doodle is solid; its empty box must not block the photos below
+        pointerEvents: item.kind === 'ink' ? 'none' : undefined,
+        ...style,
+      }}
+      onMouseEnter={() => setIsHovering(true)}
+      onMouseLeave={() => setIsHovering(false)}
+      onPointerDown={onPointerDown}
+      onKeyDown={onKeyDown}
+      onFocus={() => { setIsFocused(true); onFocus?.(); }}
+      onBlur={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsFocused(false); }}
+      tabIndex={tabIndex}
+      data-decoration-id={item.id}
+      role="group"
+      aria-roledescription="decoration"
+      aria-label={label}
+      aria-describedby={describedBy}
+    >
+      {renderArt(item)}
+
+      {onDelete && (isHovering || isFocused) && (
+        <button
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={() => onDelete(item.id)}
+          className="absolute -top-3 -right-3 p-1 rounded-full bg-white text-stone-500 shadow hover:text-red-600"
+          style={{ pointerEvents: 'auto' }}
+          title="Remove"
+          aria-label={`Remove ${label.toLowerCase()}`}
+        >
+          <X size={12} />
+        </button>
+      )}
+    </div>
+  );
+};
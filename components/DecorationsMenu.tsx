@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { PenLine, Sticker, X } from 'lucide-react';
+import {
+  DecorationTemplate,
+  INK_COLORS,
+  INK_WIDTHS,
+  PIN_COLORS,
+  STICKER_EMOJIS,
+  TAPE_STYLES,
+  pinTemplate,
+  stickerTemplate,
+  tapeTemplate,
+} from '../services/decorations.ts';
+import { tapeBackground } from './DecorationItem.tsx';
+
+export interface InkTool {
+  color: string;
+  width: number;
+}
+
+interface DecorationsMenuProps {
+  onAdd: (template: DecorationTemplate) => void;
+  inkTool: InkTool | null; // Non-null while drawing
+  onInkToolChange: (tool: InkTool | null) => void;
+}
+
+export const DecorationsMenu: React.FC<DecorationsMenuProps> = ({ onAdd, inkTool, onInkToolChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [lastInk, setLastInk] = useState<InkTool>({ color: INK_COLORS[0], width: INK_WIDTHS[1] });
+
+  const pickInk = (tool: InkTool) => {
+    setLastInk(tool);
+    onInkToolChange(tool);
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="fixed top-4 right-60 z-40 p-2 rounded-full bg-white/80 text-stone-600 shadow hover:text-stone-900 transition-colors"
+        title="Stickers, tape and doodles"
+        aria-label="Decorate"
+      >
+        <Sticker size={18} />
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed top-4 right-60 z-40 w-72 bg-white/95 rounded-lg shadow-xl p-4 font-hand text-stone-700">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-xl">Decorate</h2>
+        <button onClick={() => setIsOpen(false)} className="text-stone-400 hover:text-stone-800" title="Close" aria-label="Close">
+          <X size={16} />
+        </button>
+      </div>
+
+      <h3 className="text-lg">Stickers</h3>
+      <div className="grid grid-cols-6 gap-1 mb-3">
+        {STICKER_EMOJIS.map(emoji => (
+          <button
+            key={emoji}
+            onClick={() => onAdd(stickerTemplate(emoji))}
+            className="text-2xl rounded hover:bg-stone-100"
+            aria-label={`Add sticker ${emoji}`}
+          >
+            {emoji}
+          </button>
+        ))}
+      </div>
+
+      <h3 className="text-lg">Washi tape</h3>
+      <div className="flex flex-wrap gap-2 mb-3">
+        {TAPE_STYLES.map(style => (
+          <button
+            key={`${style.color}-${style.pattern}`}
+            onClick={() => onAdd(tapeTemplate(style))}
+            className="w-10 h-4 rounded-sm opacity-80 hover:opacity-100 hover:scale-110 transition-transform"
+            style={{ background: tapeBackground(style.color, style.pattern) }}
+            aria-label={`Add ${style.pattern} tape`}
+          />
+        ))}
+      </div>
+
+      <h3 className="text-lg">Push pins</h3>
+      <div className="flex gap-2 mb-3">
+        {PIN_COLORS.map(color => (
+          <button
+            key={color}
+            onClick={() => onAdd(pinTemplate(color))}
+            className="w-6 h-6 rounded-full border border-black/20 shadow hover:scale-110 transition-transform"
+            style={{ backgroundColor: color }}
+            aria-label={`Add push pin ${color}`}
+          />
+        ))}
+      </div>
+
+      <h3 className="text-lg">Ink</h3>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => onInkToolChange(inkTool ? null : lastInk)}
+          aria-pressed={!!inkTool}
+          className={`flex items-center gap-1 px-2 rounded-full text-lg transition-colors ${
+            inkTool ? 'bg-stone-800 text-white' : 'border border-stone-800 hover:bg-stone-100'
+          }`}
+        >
+          <PenLine size={16} /> {inkTool ? 'Drawing' : 'Draw'}
+        </button>
+        {INK_COLORS.map(color => (
+          <button
+            key={color}
+            onClick={() => pickInk({ ...lastInk, color })}
+            className={`w-5 h-5 rounded-full border ${lastInk.color === color ? 'ring-2 ring-stone-500 ring-offset-1' : 'border-black/20'}`}
+            style={{ backgroundColor: color }}
+            aria-label={`Ink colour ${color}`}
+            aria-pressed={lastInk.color === color}
+          />
+        ))}
+      </div>
+      <div className="flex items-center gap-2 mt-2">
+        {INK_WIDTHS.map(width => (
+          <button
+            key={width}
+            onClick={() => pickInk({ ...lastInk, width })}
+            aria-pressed={lastInk.width === width}
+            className={`w-8 h-6 flex items-center justify-center rounded ${lastInk.width === width ? 'bg-stone-200' : 'hover:bg-stone-100'}`}
+            aria-label={`Line width ${width}`}
+          >
+            <span className="block w-5 rounded-full bg-stone-800" style={{ height: `${width}px` }} />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React, { useEffect, useRef } from 'react';
+import { DevelopmentCurve, developedAmount, renderDevelopmentFrame } from '../services/developmentService.ts';
+
+interface DevelopingImageProps {
+  src: string;
+  progress: number; // Raw development progress from PhotoData
+  agitation: number;
+  curve: DevelopmentCurve;
+  label: string; // Accessible description of the picture
+  className?: string;
+}
+
+// Progress arrives in coarse ticks from the app; ease toward it per frame so
+// the chemistry looks continuous.
+const SMOOTHING = 0.12;
+
+export const DevelopingImage: React.FC<DevelopingImageProps> = ({ src, progress, agitation, curve, label, className = '' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const targetRef = useRef({ progress, agitation, curve });
+  targetRef.current = { progress, agitation, curve };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    // Match the backing store to the card's own size for crisp output. Not the
+    // bounding box: that includes the wall's zoom and the card's tilt and scale.
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.max(1, Math.round(canvas.clientWidth * dpr));
+    canvas.height = Math.max(1, Math.round(canvas.clientHeight * dpr));
+
+    const image = new Image();
+    let frame = 0;
+    let shown = targetRef.current.progress;
+
+    const draw = (time: number) => {
+      const { progress: target, agitation: shake, curve: shownCurve } = targetRef.current;
+      shown += (target - shown) * SMOOTHING;
+      renderDevelopmentFrame(ctx, image, developedAmount(shown, shownCurve), shake, time);
+      frame = requestAnimationFrame(draw);
+    };
+
+    image.onload = () => { frame = requestAnimationFrame(draw); };
+    image.src = src;
+
+    return () => cancelAnimationFrame(frame);
+  }, [src]);
+
+  return <canvas ref={canvasRef} className={className} role="img" aria-label={label} />;
+};
@@ -0,0 +1,169 @@
+import React, { useRef, useState } from 'react';
+import { ImageDown, FileText, Package, Upload, X } from 'lucide-react';
+import { Wall } from '../types.ts';
+import { exportContactSheetPdf, exportWallPng } from '../services/exportService.ts';
+import { BUNDLE_EXTENSION, BundleError, WallBundle, exportWallBundle, readWallBundle } from '../services/wallBundle.ts';
+
+interface ExportMenuProps {
+  wall: Wall;
+  onImportBundle: (bundle: WallBundle, mode: 'merge' | 'replace') => void;
+}
+
+const DPI_OPTIONS = [96, 150, 300, 600];
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ wall, onImportBundle }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [dpi, setDpi] = useState(300);
+  const [busy, setBusy] = useState<'png' | 'pdf' | 'bundle' | 'import' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingBundle, setPendingBundle] = useState<WallBundle | null>(null); // Read, waiting for merge / replace
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { photos, decorations } = wall;
+
+  const run = async (kind: 'png' | 'pdf' | 'bundle') => {
+    setBusy(kind);
+    setError(null);
+    try {
+      if (kind === 'png') await exportWallPng([...photos, ...decorations], dpi, wall.background);
+      else if (kind === 'pdf') await exportContactSheetPdf(photos, wall.name);
+      else await exportWallBundle(wall);
+    } catch (err) {
+      console.error("Export failed", err);
+      setError(kind === 'png' ? "Export failed. Try a lower DPI." : "Export failed.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleBundleFile = async (file: File) => {
+    setBusy('import');
+    setError(null);
+    setPendingBundle(null);
+    try {
+      setPendingBundle(await readWallBundle(file));
+    } catch (err) {
+      console.error("Bundle import failed", err);
+      setError(err instanceof BundleError ? err.message : "Could not read that file.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const applyBundle = (mode: 'merge' | 'replace') => {
+    if (!pendingBundle) return;
+    if (mode === 'replace' && (photos.length > 0 || decorations.length > 0) &&
+        !window.confirm(`Replace the ${photos.length} photo(s) and ${decorations.length} decoration(s) on "${wall.name}"?`)) return;
+    onImportBundle(pendingBundle, mode);
+    setPendingBundle(null);
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="fixed top-4 right-16 z-40 p-2 rounded-full bg-white/80 text-stone-600 shadow hover:text-stone-900 transition-colors"
+        title="Export wall"
+      >
+        <ImageDown size={18} />
+      </button>
+    );
+  }
+
+  const isEmpty = photos.length === 0 && decorations.length === 0;
+  const hasPhotos = photos.length > 0; // The contact sheet only shows photos
+
+  return (
+    <div className="fixed top-4 right-16 z-40 w-64 bg-white/95 rounded-lg shadow-xl p-4 font-hand text-stone-700">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-xl">Export wall</h2>
+        <button onClick={() => setIsOpen(false)} className="text-stone-400 hover:text-stone-800" title="Close">
+          <X size={16} />
+        </button>
+      </div>
+
+      <label className="flex items-center justify-between text-lg mb-2">
+        Resolution
+        <select
+          className="border border-stone-300 rounded px-1 text-sm font-sans"
+          value={dpi}
+          onChange={(e) => setDpi(Number(e.target.value))}
+        >
+          {DPI_OPTIONS.map(option => (
+            <option key={option} value={option}>{option} DPI</option>
+          ))}
+        </select>
+      </label>
+
+      <div className="flex flex-col gap-2">
+        <button
+          onClick={() => run('png')}
+          disabled={isEmpty || !!busy}
+          className="flex items-center gap-2 justify-center bg-stone-800 text-white rounded py-1 text-lg disabled:opacity-40"
+        >
+          <ImageDown size={16} /> {busy === 'png' ? 'Rendering...' : 'Whole wall as PNG'}
+        </button>
+        <button
+          onClick={() => run('pdf')}
+          disabled={!hasPhotos || !!busy}
+          className="flex items-center gap-2 justify-center border border-stone-800 rounded py-1 text-lg disabled:opacity-40"
+        >
+          <FileText size={16} /> {busy === 'pdf' ? 'Rendering...' : 'Contact sheet PDF'}
+        </button>
+      </div>
+
+      <div className="mt-4 pt-3 border-t border-stone-200 flex flex-col gap-2">
+        <h3 className="text-lg">Share</h3>
+        <button
+          onClick={() => run('bundle')}
+          disabled={isEmpty || !!busy}
+          className="flex items-center gap-2 justify-center border border-stone-800 rounded py-1 text-lg disabled:opacity-40"
+        >
+          <Package size={16} /> {busy === 'bundle' ? 'Packing...' : `Wall bundle (${BUNDLE_EXTENSION})`}
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={!!busy}
+          className="flex items-center gap-2 justify-center border border-stone-800 rounded py-1 text-lg disabled:opacity-40"
+        >
+          <Upload size={16} /> {busy === 'import' ? 'Reading...' : 'Open a bundle...'}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={`${BUNDLE_EXTENSION},.zip`}
+          className="hidden"
+          aria-label="Open a wall bundle"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleBundleFile(file);
+            e.target.value = '';
+          }}
+        />
+
+        {pendingBundle && (
+          <div className="bg-stone-100 rounded p-2 text-sm font-sans">
+            <p className="mb-2">
+              "{pendingBundle.name}": {pendingBundle.photos.length} photo(s)
+              {pendingBundle.photos.some(p => p.clip) && ` (${pendingBundle.photos.filter(p => p.clip).length} live)`}
+              {pendingBundle.decorations.length > 0 && `, ${pendingBundle.decorations.length} decoration(s)`}
+            </p>
+            <div className="flex gap-1">
+              <button onClick={() => applyBundle('merge')} className="flex-1 bg-stone-800 text-white rounded py-0.5">
+                Add here
+              </button>
+              <button onClick={() => applyBundle('replace')} className="flex-1 border border-stone-800 rounded py-0.5">
+                Replace wall
+              </button>
+              <button onClick={() => setPendingBundle(null)} className="px-1 text-stone-500" title="Cancel" aria-label="Cancel">
+                <X size={14} />
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {error && <p className="mt-2 text-sm font-sans text-red-500">{error}</p>}
+      {!hasPhotos && <p className="mt-2 text-xs font-sans text-stone-400">Take a photo first.</p>}
+    </div>
+  );
+};
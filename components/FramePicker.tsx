@@ -0,0 +1,254 @@
+import React, { useRef, useState } from 'react';
+import { ImagePlus, Plus, Trash2, X } from 'lucide-react';
+import {
+  CAPTION_FONTS,
+  CustomFrame,
+  FRAME_SHAPES,
+  FrameShapeId,
+  FrameTemplate,
+  addCustomFrame,
+  deleteCustomFrame,
+  getFrameTemplates,
+  readBackgroundImage,
+} from '../services/frameTemplates.ts';
+
+interface FramePickerProps {
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onClose: () => void;
+}
+
+const SWATCH_WIDTH = 44;
+
+const NEW_FRAME: Omit<CustomFrame, 'id'> = {
+  label: '',
+  shape: 'classic',
+  background: '#fde68a',
+  backgroundImage: null,
+  ink: 'dark',
+  captionFont: CAPTION_FONTS[0].family,
+};
+
+// A small drawing of the card: its shape, color and where the photo sits
+const FrameSwatch: React.FC<{ template: FrameTemplate }> = ({ template }) => {
+  const scale = SWATCH_WIDTH / template.width;
+  return (
+    <span
+      className="block relative shadow border border-stone-200"
+      style={{
+        width: SWATCH_WIDTH,
+        height: template.height * scale,
+        backgroundColor: template.background,
+        backgroundImage: template.backgroundImage ? `url(${template.backgroundImage})` : undefined,
+        backgroundSize: 'cover',
+        backgroundPosition: 'center',
+      }}
+    >
+      <span
+        className="absolute bg-stone-700"
+        style={{
+          left: template.padding.side * scale,
+          top: template.padding.top * scale,
+          right: template.padding.side * scale,
+          height: template.imageHeight * scale,
+        }}
+      />
+    </span>
+  );
+};
+
+export const FramePicker: React.FC<FramePickerProps> = ({ selectedId, onSelect, onClose }) => {
+  const [draft, setDraft] = useState<Omit<CustomFrame, 'id'> | null>(null); // Non-null while making a new template
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const templates = getFrameTemplates();
+
+  const handleDelete = (template: FrameTemplate) => {
+    if (!window.confirm(`Delete the "${template.label}" frame? Photos using it go back to the classic frame.`)) return;
+    deleteCustomFrame(template.id);
+  };
+
+  const handleBackgroundFile = async (file: File) => {
+    try {
+      const backgroundImage = await readBackgroundImage(file);
+      setDraft(prev => prev && { ...prev, backgroundImage });
+      setError(null);
+    } catch (err) {
+      console.error("Could not read the background image", err);
+      setError('That image could not be read.');
+    }
+  };
+
+  const saveDraft = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    try {
+      const frame = addCustomFrame({ ...draft, label: draft.label.trim() || 'My frame' });
+      onSelect(frame.id);
+      setDraft(null);
+      setError(null);
+    } catch (err) {
+      console.error("Could not save the frame", err);
+      setError('There is no room left to save this frame. Try a smaller background image.');
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key !== 'Escape') return;
+    e.stopPropagation();
+    onClose();
+  };
+
+  return (
+    <div
+      className="absolute left-full top-0 ml-2 w-64 bg-white/95 rounded-lg shadow-xl p-3 font-hand text-stone-700 z-50"
+      onPointerDown={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => e.stopPropagation()}
+      onKeyDown={handleKeyDown}
+      role="dialog"
+      aria-label="Frame"
+    >
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xl">Frame</h2>
+        <button onClick={onClose} className="text-stone-400 hover:text-stone-800" title="Close" aria-label="Close">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-4 gap-2 max-h-64 overflow-y-auto p-1">
+        {templates.map(template => (
+          <div key={template.id} className="relative group">
+            <button
+              onClick={() => onSelect(template.id)}
+              aria-pressed={template.id === selectedId}
+              className={`flex flex-col items-center gap-1 w-full rounded p-1 transition-colors ${
+                template.id === selectedId ? 'bg-stone-200' : 'hover:bg-stone-100'
+              }`}
+            >
+              <FrameSwatch template={template} />
+              <span className="text-sm leading-4 text-center truncate w-full">{template.label}</span>
+            </button>
+            {template.isCustom && (
+              <button
+                onClick={() => handleDelete(template)}
+                className="absolute -top-1 -right-1 p-0.5 rounded-full bg-white shadow text-stone-400 hover:text-red-500 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                title="Delete frame"
+                aria-label={`Delete the ${template.label} frame`}
+              >
+                <Trash2 size={10} />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {draft ? (
+        <form onSubmit={saveDraft} className="flex flex-col gap-2 mt-3 text-lg">
+          <input
+            value={draft.label}
+            onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+            maxLength={24}
+            placeholder="Name"
+            aria-label="Frame name"
+            className="border border-stone-300 rounded px-1 text-sm font-sans"
+            autoFocus
+          />
+          <label className="flex items-center justify-between gap-2">
+            Shape
+            <select
+              value={draft.shape}
+              onChange={(e) => setDraft({ ...draft, shape: e.target.value as FrameShapeId })}
+              className="border border-stone-300 rounded px-1 text-sm font-sans"
+            >
+              {FRAME_SHAPES.map(shape => <option key={shape.id} value={shape.id}>{shape.label}</option>)}
+            </select>
+          </label>
+          <div className="flex items-center justify-between gap-2">
+            <label className="flex items-center gap-2">
+              Color
+              <input
+                type="color"
+                value={draft.background}
+                onChange={(e) => setDraft({ ...draft, background: e.target.value })}
+                className="w-8 h-6"
+              />
+            </label>
+            <span className="flex items-center gap-1">
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                className="flex items-center gap-1 text-sm font-sans text-stone-600 hover:text-stone-900"
+              >
+                <ImagePlus size={14} /> {draft.backgroundImage ? 'Change image' : 'Image...'}
+              </button>
+              {draft.backgroundImage && (
+                <button
+                  type="button"
+                  onClick={() => setDraft({ ...draft, backgroundImage: null })}
+                  className="text-stone-400 hover:text-stone-800"
+                  title="Remove the image"
+                  aria-label="Remove the background image"
+                >
+                  <X size={12} />
+                </button>
+              )}
+            </span>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              className="hidden"
+              aria-label="Background image"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleBackgroundFile(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+          <label className="flex items-center justify-between gap-2">
+            Caption
+            <select
+              value={draft.captionFont}
+              onChange={(e) => setDraft({ ...draft, captionFont: e.target.value })}
+              className="border border-stone-300 rounded px-1 text-sm"
+              style={{ fontFamily: draft.captionFont }}
+            >
+              {CAPTION_FONTS.map(font => (
+                <option key={font.family} value={font.family} style={{ fontFamily: font.family }}>{font.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            Ink
+            <select
+              value={draft.ink}
+              onChange={(e) => setDraft({ ...draft, ink: e.target.value as CustomFrame['ink'] })}
+              className="border border-stone-300 rounded px-1 text-sm font-sans"
+            >
+              <option value="dark">Dark, for light frames</option>
+              <option value="light">Light, for dark frames</option>
+            </select>
+          </label>
+          <div className="flex gap-1">
+            <button type="button" onClick={() => setDraft(null)} className="px-2 border border-stone-800 rounded">
+              Cancel
+            </button>
+            <button type="submit" className="flex-1 rounded py-1 bg-stone-800 text-white">
+              Save and use
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button
+          onClick={() => setDraft(NEW_FRAME)}
+          className="flex items-center gap-2 w-full justify-center mt-3 border border-stone-800 rounded py-1 text-lg"
+        >
+          <Plus size={16} /> New frame
+        </button>
+      )}
+
+      {error && <p className="text-xs font-sans text-red-500 mt-2">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import React, { useRef, useState } from 'react';
+import { Position } from '../types.ts';
+import { Viewport, screenToWorld } from '../services/viewport.ts';
+
+interface InkLayerProps {
+  color: string;
+  width: number; // World px
+  view: Viewport;
+  onStroke: (points: Position[]) => void; // World coordinates
+}
+
+// Covers the wall while the pen is active: every drag becomes one ink stroke.
+// The stroke in progress is drawn here in screen space and handed over when
+// the pointer lifts.
+export const InkLayer: React.FC<InkLayerProps> = ({ color, width, view, onStroke }) => {
+  const [points, setPoints] = useState<Position[]>([]);
+  const pointerRef = useRef<number | null>(null);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (pointerRef.current !== null || e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointerRef.current = e.pointerId;
+    setPoints([{ x: e.clientX, y: e.clientY }]);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (e.pointerId !== pointerRef.current) return;
+    const point = { x: e.clientX, y: e.clientY };
+    setPoints(prev => [...prev, point]);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (e.pointerId !== pointerRef.current) return;
+    pointerRef.current = null;
+    // A tap leaves a dot
+    const stroke = points.length === 1 ? [points[0], points[0]] : points;
+    setPoints([]);
+    if (e.type === 'pointerup') onStroke(stroke.map(p => screenToWorld(view, p)));
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[35] cursor-crosshair"
+      style={{ touchAction: 'none' }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {points.length > 0 && (
+        <svg className="absolute inset-0 w-full h-full pointer-events-none">
+          <polyline
+            points={points.map(p => `${p.x},${p.y}`).join(' ')}
+            fill="none"
+            stroke={color}
+            strokeWidth={width * view.zoom}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+        </svg>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { LayoutGrid, Undo, X } from 'lucide-react';
+import { WALL_LAYOUTS, WallLayoutMode } from '../services/wallLayouts.ts';
+
+interface LayoutMenuProps {
+  activeMode: WallLayoutMode | null; // null = the user's own arrangement
+  canRestore: boolean;
+  disabled: boolean;
+  onArrange: (mode: WallLayoutMode) => void;
+  onRestore: () => void;
+}
+
+export const LayoutMenu: React.FC<LayoutMenuProps> = ({ activeMode, canRestore, disabled, onArrange, onRestore }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="fixed top-4 right-48 z-40 p-2 rounded-full bg-white/80 text-stone-600 shadow hover:text-stone-900 transition-colors"
+        title="Arrange photos"
+        aria-label="Arrange photos"
+      >
+        <LayoutGrid size={18} />
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed top-4 right-48 z-40 w-64 bg-white/95 rounded-lg shadow-xl p-4 font-hand text-stone-700">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-xl">Arrange</h2>
+        <button onClick={() => setIsOpen(false)} className="text-stone-400 hover:text-stone-800" title="Close" aria-label="Close">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        {WALL_LAYOUTS.map(layout => (
+          <button
+            key={layout.id}
+            onClick={() => onArrange(layout.id)}
+            disabled={disabled}
+            aria-pressed={activeMode === layout.id}
+            className={`text-left px-2 py-0.5 rounded text-lg disabled:opacity-40 transition-colors ${
+              activeMode === layout.id ? 'bg-stone-800 text-white' : 'hover:bg-stone-100'
+            }`}
+          >
+            {layout.label}
+          </button>
+        ))}
+      </div>
+
+      <button
+        onClick={onRestore}
+        disabled={!canRestore}
+        className="flex items-center gap-2 w-full justify-center mt-3 border border-stone-800 rounded py-1 text-lg disabled:opacity-40"
+      >
+        <Undo size={16} /> Back to my arrangement
+      </button>
+    </div>
+  );
+};
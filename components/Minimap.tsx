@@ -0,0 +1,130 @@
+import React, { useRef } from 'react';
+import { Maximize, ZoomIn, ZoomOut } from 'lucide-react';
+import { Position, WallItem } from '../types.ts';
+import { getItemCorners } from '../services/cardLayout.ts';
+import { Bounds, ScreenSize, Viewport, itemBounds, unionBounds, visibleBounds } from '../services/viewport.ts';
+
+interface MinimapProps {
+  items: WallItem[]; // Photos and decorations
+  view: Viewport;
+  screen: ScreenSize;
+  onCenter: (point: Position) => void; // World point to put in the middle of the screen
+  onJumpToPhoto: (id: string) => void;
+  onFitAll: () => void;
+  onZoom: (factor: number) => void;
+  onResetZoom: () => void;
+}
+
+const MAP_WIDTH = 192;
+const MAP_HEIGHT = 128;
+const MAP_PADDING = 0.1; // Of the mapped area, on every side
+
+// The world area the map shows: every item plus what's on screen, stretched to the map's aspect ratio
+const mapBounds = (items: WallItem[], visible: Bounds): Bounds => {
+  const all = unionBounds([visible, ...items.map(itemBounds)])!;
+  let width = all.maxX - all.minX;
+  let height = all.maxY - all.minY;
+  width += width * MAP_PADDING * 2;
+  height += height * MAP_PADDING * 2;
+  if (width / height > MAP_WIDTH / MAP_HEIGHT) height = width * MAP_HEIGHT / MAP_WIDTH;
+  else width = height * MAP_WIDTH / MAP_HEIGHT;
+
+  const centerX = (all.minX + all.maxX) / 2;
+  const centerY = (all.minY + all.maxY) / 2;
+  return { minX: centerX - width / 2, minY: centerY - height / 2, maxX: centerX + width / 2, maxY: centerY + height / 2 };
+};
+
+export const Minimap: React.FC<MinimapProps> = ({ items, view, screen, onCenter, onJumpToPhoto, onFitAll, onZoom, onResetZoom }) => {
+  const visible = visibleBounds(view, screen);
+  // Frozen while dragging, otherwise the map would rescale under the pointer as the view moves
+  const dragBoundsRef = useRef<Bounds | null>(null);
+  const bounds = dragBoundsRef.current || mapBounds(items, visible);
+  const photoCount = items.filter(item => item.kind === 'photo').length;
+
+  const toWorld = (e: React.PointerEvent<SVGSVGElement>, area: Bounds): Position => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: area.minX + (e.clientX - rect.left) / rect.width * (area.maxX - area.minX),
+      y: area.minY + (e.clientY - rect.top) / rect.height * (area.maxY - area.minY),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragBoundsRef.current = bounds;
+    onCenter(toWorld(e, bounds));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragBoundsRef.current) onCenter(toWorld(e, dragBoundsRef.current));
+  };
+
+  const handlePointerUp = () => {
+    dragBoundsRef.current = null;
+  };
+
+  return (
+    <div className="fixed bottom-4 right-6 z-40 bg-white/80 rounded-lg shadow p-2 font-hand text-stone-600">
+      <svg
+        width={MAP_WIDTH}
+        height={MAP_HEIGHT}
+        viewBox={`${bounds.minX} ${bounds.minY} ${bounds.maxX - bounds.minX} ${bounds.maxY - bounds.minY}`}
+        className="block rounded bg-stone-100 cursor-pointer"
+        style={{ touchAction: 'none' }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        role="img"
+        aria-label={`Map of the wall: ${photoCount} photo(s). Click to move the view there.`}
+      >
+        {[...items].sort((a, b) => a.zIndex - b.zIndex).map(item => item.kind === 'photo' ? (
+          <polygon
+            key={item.id}
+            points={getItemCorners(item).map(c => `${c.x},${c.y}`).join(' ')}
+            className="fill-stone-400 hover:fill-stone-700"
+            onPointerDown={(e) => {
+              e.stopPropagation();
+              onJumpToPhoto(item.id);
+            }}
+          >
+            <title>{item.caption || item.date}</title>
+          </polygon>
+        ) : (
+          // Decorations are shown for orientation only
+          <polygon
+            key={item.id}
+            points={getItemCorners(item).map(c => `${c.x},${c.y}`).join(' ')}
+            className="fill-stone-300 pointer-events-none"
+          />
+        ))}
+        <rect
+          x={visible.minX}
+          y={visible.minY}
+          width={visible.maxX - visible.minX}
+          height={visible.maxY - visible.minY}
+          className="fill-stone-800/5 stroke-stone-800 pointer-events-none"
+          strokeWidth={1.5}
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+
+      <div className="flex items-center justify-between mt-1">
+        <button onClick={onFitAll} className="flex items-center gap-1 hover:text-stone-900" title="Fit all photos">
+          <Maximize size={14} /> Fit all
+        </button>
+        <div className="flex items-center gap-1">
+          <button onClick={() => onZoom(1 / 1.25)} className="hover:text-stone-900" title="Zoom out" aria-label="Zoom out">
+            <ZoomOut size={16} />
+          </button>
+          <button onClick={onResetZoom} className="w-12 text-center hover:text-stone-900" title="Reset zoom to 100%">
+            {Math.round(view.zoom * 100)}%
+          </button>
+          <button onClick={() => onZoom(1.25)} className="hover:text-stone-900" title="Zoom in" aria-label="Zoom in">
+            <ZoomIn size={16} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,288 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RotateCw, ScanFace, Undo, X } from 'lucide-react';
+import { FilmStockId, PhotoData, PhotoEdits } from '../types.ts';
+import { FILM_STOCKS } from '../services/filmStocks.ts';
+import { loadImage } from '../services/imageUtils.ts';
+import {
+  DEFAULT_EDITS,
+  MIN_CROP_SIZE,
+  canTurnAndCrop,
+  cropAroundFaces,
+  isUnedited,
+  renderPhoto,
+  renderPhotoCanvas,
+  turnCrop,
+} from '../services/photoPipeline.ts';
+
+interface PhotoEditorProps {
+  photo: PhotoData;
+  onPreview: (dataUrl: string | null) => void; // Draft render to show on the card; null when done
+  onApply: (updates: Pick<PhotoData, 'edits' | 'filmStock' | 'dataUrl'>) => void;
+  onClose: () => void;
+}
+
+interface Draft {
+  edits: PhotoEdits;
+  filmStock: FilmStockId;
+}
+
+const PREVIEW_SIZE = 480;
+const PREVIEW_DELAY_MS = 40; // Lets slider drags coalesce
+const CROP_NUDGE = 0.02;
+
+const SLIDERS: { key: 'exposure' | 'contrast' | 'warmth'; label: string; min: number; max: number; step: number }[] = [
+  { key: 'exposure', label: 'Exposure', min: -2, max: 2, step: 0.1 },
+  { key: 'contrast', label: 'Contrast', min: -1, max: 1, step: 0.05 },
+  { key: 'warmth', label: 'Warmth', min: -1, max: 1, step: 0.05 },
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const PhotoEditor: React.FC<PhotoEditorProps> = ({ photo, onPreview, onApply, onClose }) => {
+  const [draft, setDraft] = useState<Draft>({ edits: photo.edits, filmStock: photo.filmStock });
+  const [original, setOriginal] = useState<HTMLImageElement | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const cropAreaRef = useRef<HTMLDivElement>(null);
+  const cropDragRef = useRef<{ mode: 'move' | 'resize'; x: number; y: number; crop: PhotoEdits['crop'] } | null>(null);
+  const { edits } = draft;
+  const canCrop = canTurnAndCrop(photo);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(photo.original).then(
+      image => { if (!cancelled) setOriginal(image); },
+      err => {
+        console.error("Could not load the original", err);
+        setError('The original could not be loaded.');
+      }
+    );
+    return () => { cancelled = true; };
+  }, [photo.original]);
+
+  // Live preview on the card while editing
+  useEffect(() => {
+    if (!original) return;
+    const timer = window.setTimeout(() => {
+      onPreview(renderPhotoCanvas(original, { ...photo, ...draft }, PREVIEW_SIZE).toDataURL('image/jpeg', 0.85));
+    }, PREVIEW_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [original, draft]);
+
+  useEffect(() => () => onPreview(null), []);
+
+  const updateEdits = (changes: Partial<PhotoEdits>) => setDraft(prev => ({ ...prev, edits: { ...prev.edits, ...changes } }));
+
+  const setCrop = (crop: PhotoEdits['crop']) => {
+    const size = clamp(crop.size, MIN_CROP_SIZE, 1);
+    updateEdits({ crop: { size, x: clamp(crop.x, 0, 1 - size), y: clamp(crop.y, 0, 1 - size) } });
+  };
+
+  const turn = () => updateEdits({ quarterTurns: (edits.quarterTurns + 1) % 4, crop: turnCrop(edits.crop, 1) });
+
+  const frameFaces = () => {
+    const crop = cropAroundFaces(photo.faces || [], edits.quarterTurns);
+    if (crop) updateEdits({ crop });
+  };
+
+  // --- Crop box dragging ---
+
+  const startCropDrag = (e: React.PointerEvent, mode: 'move' | 'resize') => {
+    e.preventDefault();
+    e.stopPropagation();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    cropDragRef.current = { mode, x: e.clientX, y: e.clientY, crop: edits.crop };
+  };
+
+  const moveCropDrag = (e: React.PointerEvent) => {
+    const drag = cropDragRef.current;
+    const area = cropAreaRef.current?.getBoundingClientRect();
+    if (!drag || !area) return;
+    const dx = (e.clientX - drag.x) / area.width;
+    const dy = (e.clientY - drag.y) / area.height;
+    if (drag.mode === 'move') {
+      setCrop({ ...drag.crop, x: drag.crop.x + dx, y: drag.crop.y + dy });
+    } else {
+      // The top-left corner stays put
+      const maxSize = 1 - Math.max(drag.crop.x, drag.crop.y);
+      setCrop({ ...drag.crop, size: Math.min(maxSize, drag.crop.size + Math.max(dx, dy)) });
+    }
+  };
+
+  const endCropDrag = () => { cropDragRef.current = null; };
+
+  const handleCropKeyDown = (e: React.KeyboardEvent) => {
+    const { crop } = edits;
+    const moves: Record<string, [number, number]> = { ArrowLeft: [-1, 0], ArrowRight: [1, 0], ArrowUp: [0, -1], ArrowDown: [0, 1] };
+    if (moves[e.key]) {
+      const [dx, dy] = moves[e.key];
+      setCrop({ ...crop, x: crop.x + dx * CROP_NUDGE, y: crop.y + dy * CROP_NUDGE });
+    } else if (e.key === '+' || e.key === '=' || e.key === '-') {
+      // Resize around the center
+      const size = clamp(crop.size + (e.key === '-' ? -CROP_NUDGE : CROP_NUDGE), MIN_CROP_SIZE, 1);
+      setCrop({ size, x: crop.x + (crop.size - size) / 2, y: crop.y + (crop.size - size) / 2 });
+    } else {
+      return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  // --- Actions ---
+
+  const apply = async () => {
+    setIsApplying(true);
+    setError(null);
+    try {
+      const dataUrl = await renderPhoto({ ...photo, ...draft });
+      onApply({ ...draft, dataUrl });
+      onClose();
+    } catch (err) {
+      console.error("Could not apply edits", err);
+      setError('The edits could not be applied.');
+      setIsApplying(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key !== 'Escape') return;
+    e.stopPropagation();
+    onClose();
+  };
+
+  const { crop } = edits;
+
+  return (
+    <div
+      className="absolute left-full top-0 ml-2 w-60 bg-white/95 rounded-lg shadow-xl p-3 font-hand text-stone-700 z-50"
+      onPointerDown={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => e.stopPropagation()}
+      onKeyDown={handleKeyDown}
+      role="dialog"
+      aria-label="Edit photo"
+    >
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xl">Edit photo</h2>
+        <button onClick={onClose} className="text-stone-400 hover:text-stone-800" title="Close" aria-label="Close">
+          <X size={14} />
+        </button>
+      </div>
+
+      {canCrop && (
+        <>
+          {/* The whole original, turned, with the crop on top */}
+          <div ref={cropAreaRef} className="relative w-full aspect-square overflow-hidden bg-gray-900 select-none">
+            <div className="absolute inset-0" style={{ transform: `rotate(${edits.quarterTurns * 90}deg)` }}>
+              <img src={photo.original} alt="" draggable={false} className="w-full h-full object-cover" />
+              {photo.faces?.map((face, i) => (
+                <span
+                  key={i}
+                  className="absolute border border-dashed border-white/60 pointer-events-none"
+                  style={{ left: `${face.x * 100}%`, top: `${face.y * 100}%`, width: `${face.width * 100}%`, height: `${face.height * 100}%` }}
+                />
+              ))}
+            </div>
+            <div
+              className="absolute border-2 border-white cursor-move focus-visible:outline focus-visible:outline-2 focus-visible:outline-amber-300"
+              style={{
+                left: `${crop.x * 100}%`,
+                top: `${crop.y * 100}%`,
+                width: `${crop.size * 100}%`,
+                height: `${crop.size * 100}%`,
+                boxShadow: '0 0 0 999px rgba(0, 0, 0, 0.5)',
+                touchAction: 'none',
+              }}
+              tabIndex={0}
+              role="group"
+              aria-label="Crop. Arrow keys move it, plus and minus resize it."
+              onPointerDown={(e) => startCropDrag(e, 'move')}
+              onPointerMove={moveCropDrag}
+              onPointerUp={endCropDrag}
+              onPointerCancel={endCropDrag}
+              onKeyDown={handleCropKeyDown}
+            >
+              <span
+                className="absolute -right-1.5 -bottom-1.5 w-3 h-3 rounded-full bg-white cursor-nwse-resize"
+                onPointerDown={(e) => startCropDrag(e, 'resize')}
+                onPointerMove={moveCropDrag}
+                onPointerUp={endCropDrag}
+                onPointerCancel={endCropDrag}
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-1 mt-2">
+            <button onClick={turn} className="flex-1 flex items-center justify-center gap-1 border border-stone-300 rounded text-lg hover:bg-stone-100">
+              <RotateCw size={14} /> Turn
+            </button>
+            {photo.faces && photo.faces.length > 0 && (
+              <button
+                onClick={frameFaces}
+                className="flex-1 flex items-center justify-center gap-1 border border-stone-300 rounded text-lg hover:bg-stone-100"
+                title="Crop around the faces found when the photo was taken"
+              >
+                <ScanFace size={14} /> Faces
+              </button>
+            )}
+          </div>
+        </>
+      )}
+
+      <div className="flex flex-col gap-1 mt-2">
+        {SLIDERS.map(slider => (
+          <label key={slider.key} className="flex items-center gap-2 text-lg">
+            <span className="w-20">{slider.label}</span>
+            <input
+              type="range"
+              min={slider.min}
+              max={slider.max}
+              step={slider.step}
+              value={edits[slider.key]}
+              onChange={(e) => updateEdits({ [slider.key]: Number(e.target.value) })}
+              onDoubleClick={() => updateEdits({ [slider.key]: 0 })}
+              className="flex-1 min-w-0"
+            />
+            <span className="w-8 text-right text-xs font-sans">{edits[slider.key] > 0 ? '+' : ''}{edits[slider.key].toFixed(1)}</span>
+          </label>
+        ))}
+      </div>
+
+      <label className="flex flex-col text-lg mt-2">
+        Film
+        <select
+          className="border border-stone-300 rounded px-1 text-sm font-sans disabled:opacity-50"
+          value={draft.filmStock}
+          disabled={photo.originalHasFilm}
+          onChange={(e) => setDraft(prev => ({ ...prev, filmStock: e.target.value as FilmStockId }))}
+        >
+          {FILM_STOCKS.map(stock => (
+            <option key={stock.id} value={stock.id}>{stock.label}</option>
+          ))}
+        </select>
+      </label>
+      {photo.originalHasFilm && (
+        <p className="text-xs font-sans text-stone-500 mt-1">This photo is older than the editor; its film look is part of the original.</p>
+      )}
+
+      {error && <p className="text-xs font-sans text-red-500 mt-2">{error}</p>}
+
+      <div className="flex gap-1 mt-3">
+        <button
+          onClick={() => setDraft(prev => ({ ...prev, edits: DEFAULT_EDITS }))}
+          disabled={isUnedited(edits)}
+          className="flex items-center justify-center gap-1 px-2 border border-stone-800 rounded text-lg disabled:opacity-40"
+          title="Back to the photo as it was taken"
+        >
+          <Undo size={14} /> Reset
+        </button>
+        <button
+          onClick={apply}
+          disabled={isApplying || !original}
+          className="flex-1 rounded py-1 text-lg bg-stone-800 text-white disabled:opacity-50"
+        >
+          {isApplying ? 'Applying...' : 'Apply'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,83 +1,142 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Pencil, RotateCw, Download, Trash2, X, Check } from 'lucide-react';
-import { PhotoData } from '../types.ts';
-import { generateCaption } from '../services/geminiService.ts';
+import { Pencil, RotateCw, Download, Trash2, X, Check, FolderInput, Palette, AlertTriangle, Film, SlidersHorizontal, Frame } from 'lucide-react';
+import { CaptionStyle, PhotoData } from '../types.ts';
+import { CaptionCancelledError, describeCaptionError, requestCaption } from '../services/captionQueue.ts';
+import { getCardLayout } from '../services/cardLayout.ts';
+import { canChooseFrame, getFrameLook, getFrameTemplate } from '../services/frameTemplates.ts';
+import { clipExtension } from '../services/liveClip.ts';
+import { downloadBlob } from '../services/imageUtils.ts';
+import { exportPhotoCard } from '../services/exportService.ts';
+import { DevelopmentCurve } from '../services/developmentService.ts';
+import { DevelopingImage } from './DevelopingImage.tsx';
+import { CaptionStyleFields } from './CaptionStyleFields.tsx';
+import { PhotoEditor } from './PhotoEditor.tsx';
+import { FramePicker } from './FramePicker.tsx';
 
 interface PolaroidProps {
   photo: PhotoData;
   onUpdate: (id: string, updates: Partial<PhotoData>) => void;
   onDelete?: (id: string) => void;
-  onMouseDown?: (e: React.MouseEvent) => void;
+  moveTargets?: { id: string; name: string }[]; // Other walls this photo can move to
+  onMoveToWall?: (id: string, wallId: string) => void;
+  onPointerDown?: (e: React.PointerEvent) => void;
+  onKeyDown?: (e: React.KeyboardEvent) => void; // Keys the card itself doesn't handle
+  onFocus?: () => void;
+  tabIndex?: number;
+  describedBy?: string; // Id of the keyboard help text
   style?: React.CSSProperties;
   className?: string;
   isStaged?: boolean; // If true, it's inside the camera (non-interactive mostly)
+  developmentCurve: DevelopmentCurve;
 }
 
 export const Polaroid: React.FC<PolaroidProps> = ({
   photo,
   onUpdate,
   onDelete,
-  onMouseDown,
+  moveTargets = [],
+  onMoveToWall,
+  onPointerDown,
+  onKeyDown,
+  onFocus,
+  tabIndex,
+  describedBy,
   style,
   className = '',
-  isStaged = false
+  isStaged = false,
+  developmentCurve,
 }) => {
   const [isHovering, setIsHovering] = useState(false);
+  const [isFocused, setIsFocused] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
+  const [isPickingWall, setIsPickingWall] = useState(false);
   const [editText, setEditText] = useState(photo.caption);
+  const [styleDraft, setStyleDraft] = useState<CaptionStyle | null>(null); // Non-null while the style picker is open
+  const [clipUrl, setClipUrl] = useState<string | null>(null);
+  const [isEditingPhoto, setIsEditingPhoto] = useState(false);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null); // The editor's draft, shown in place of the photo
+  const [isPickingFrame, setIsPickingFrame] = useState(false);
   const cardRef = useRef<HTMLDivElement>(null);
+  const layout = getCardLayout(photo);
+  const look = getFrameLook(photo);
+  const showTools = isHovering || isFocused; // Keyboard users get the hover tools on focus
+  const altText = photo.caption || `Photo taken ${photo.date}`;
 
   // Sync state if prop changes (e.g. from AI generation)
   useEffect(() => {
     setEditText(photo.caption);
   }, [photo.caption]);
 
+  useEffect(() => {
+    if (!photo.clip) return;
+    const url = URL.createObjectURL(photo.clip);
+    setClipUrl(url);
+    return () => {
+      URL.revokeObjectURL(url);
+      setClipUrl(null);
+    };
+  }, [photo.clip]);
+
+  // Live photos loop while hovered or focused, once developed; the still is the poster frame
+  const isPlayingClip = !!clipUrl && showTools && !isStaged && !isEditing && !isEditingPhoto && photo.developProgress >= 1;
+
   const handleDownload = async (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (!cardRef.current || !window.html2canvas) return;
-
     try {
-      // Temporarily hide the tools for screenshot
-      const tools = cardRef.current.querySelector('.photo-tools');
-      if (tools) (tools as HTMLElement).style.display = 'none';
-
-      const canvas = await window.html2canvas(cardRef.current, {
-        scale: 2, // High res
-        backgroundColor: null,
-      });
-
-      // Restore tools
-      if (tools) (tools as HTMLElement).style.display = '';
-
-      const link = document.createElement('a');
-      link.download = `polaroid-${photo.id}.png`;
-      link.href = canvas.toDataURL('image/png');
-      link.click();
+      await exportPhotoCard(photo);
     } catch (err) {
       console.error("Download failed", err);
     }
   };
 
+  const handleDownloadClip = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (photo.clip) downloadBlob(photo.clip, `polaroid-${photo.id}.${clipExtension(photo.clip)}`);
+  };
+
   const handleDelete = (e: React.MouseEvent) => {
     e.stopPropagation();
     if (onDelete) onDelete(photo.id);
   };
 
-  const handleRegenerate = async (e: React.MouseEvent) => {
+  // Regenerates with the photo's saved style, or a new one from the picker
+  const regenerate = async (captionStyle: CaptionStyle = photo.captionStyle) => {
+    onUpdate(photo.id, { isLoadingCaption: true, captionError: null });
+    try {
+      const newCaption = await requestCaption(photo.id, { ...photo, captionStyle }, { force: true });
+      onUpdate(photo.id, { caption: newCaption, captionStyle, isLoadingCaption: false });
+    } catch (error) {
+      if (error instanceof CaptionCancelledError) return; // Photo was deleted
+      console.error("Caption failed:", error);
+      onUpdate(photo.id, { isLoadingCaption: false, captionError: describeCaptionError(error) });
+    }
+  };
+
+  const handleRegenerate = (e: React.MouseEvent) => {
     e.stopPropagation();
-    onUpdate(photo.id, { isLoadingCaption: true });
-    const newCaption = await generateCaption(photo.dataUrl);
-    onUpdate(photo.id, { caption: newCaption, isLoadingCaption: false });
+    regenerate();
+  };
+
+  const applyStyleDraft = () => {
+    if (styleDraft) regenerate(styleDraft);
+    setStyleDraft(null);
   };
 
   const saveEdit = () => {
-    onUpdate(photo.id, { caption: editText });
+    onUpdate(photo.id, { caption: editText, captionError: null });
     setIsEditing(false);
+    cardRef.current?.focus(); // Back to the card, for keyboard users
   };
 
   const cancelEdit = () => {
     setEditText(photo.caption);
     setIsEditing(false);
+    cardRef.current?.focus();
+  };
+
+  const closePhotoEditor = () => {
+    setIsEditingPhoto(false);
+    cardRef.current?.focus();
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -89,6 +148,20 @@ export const Polaroid: React.FC<PolaroidProps> = ({
     }
   };
 
+  const handleCardKeyDown = (e: React.KeyboardEvent) => {
+    if (e.target !== e.currentTarget || isEditing) return; // Typing in the caption, or on a tool button
+    if (e.key === 'Enter' && !isStaged) {
+      e.preventDefault();
+      setIsEditing(true);
+      return;
+    }
+    onKeyDown?.(e);
+  };
+
+  const handleBlur = (e: React.FocusEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsFocused(false);
+  };
+
   // Prevent drag propagation when interacting with inputs or buttons
   const stopProp = (e: React.PointerEvent | React.MouseEvent) => {
     e.stopPropagation();
@@ -97,56 +170,189 @@ export const Polaroid: React.FC<PolaroidProps> = ({
   return (
     <div
       ref={cardRef}
-      className={`absolute flex flex-col items-center bg-white shadow-xl ${className} ${photo.isDeveloping ? 'brightness-110' : ''}`}
+      className={`absolute flex flex-col items-center shadow-xl ${className} ${photo.developProgress < 1 ? 'brightness-110' : ''}`}
       style={{
-        width: '240px',
-        height: '320px', // 3:4 aspect ratio roughly
-        padding: '16px 16px 40px 16px', // Thick bottom like polaroid
+        width: `${layout.width}px`,
+        height: `${layout.height}px`,
+        padding: `${layout.padding.top}px ${layout.padding.side}px ${layout.padding.bottom}px`,
+        backgroundColor: look.background,
+        backgroundImage: look.backgroundImage ? `url(${look.backgroundImage})` : undefined,
+        backgroundSize: 'cover',
+        backgroundPosition: 'center',
         transition: isStaged ? 'filter 3s ease-out' : 'transform 0.1s',
         cursor: isStaged ? 'grab' : 'default', // If staged, grab to pull out. If wall, handled by parent
         ...style
       }}
       onMouseEnter={() => setIsHovering(true)}
-      onMouseLeave={() => setIsHovering(false)}
-      onMouseDown={onMouseDown}
+      onMouseLeave={() => { setIsHovering(false); setIsPickingWall(false); }}
+      onPointerDown={onPointerDown}
+      onKeyDown={handleCardKeyDown}
+      onFocus={() => { setIsFocused(true); onFocus?.(); }}
+      onBlur={handleBlur}
+      tabIndex={isStaged ? undefined : tabIndex}
+      data-photo-id={photo.id}
+      role={isStaged ? undefined : 'group'}
+      aria-roledescription={isStaged ? undefined : 'photo'}
+      aria-label={isStaged ? undefined : `${altText}, ${photo.date}${photo.clip ? ', live photo' : ''}`}
+      aria-describedby={describedBy}
     >
       {/* Top Controls (Only on wall, not staged) */}
-      {!isStaged && isHovering && !isEditing && (
+      {!isStaged && showTools && !isEditing && (
         <div 
           className="photo-tools absolute -top-4 left-1/2 transform -translate-x-1/2 flex gap-2 bg-gray-800 text-white px-3 py-1 rounded-full text-xs shadow-lg z-50 transition-opacity"
-          onMouseDown={stopProp} // Prevent dragging when clicking tools
+          onPointerDown={stopProp} // Prevent dragging when clicking tools
         >
-          <button onClick={handleDownload} className="hover:text-blue-300 transition-colors" title="Download">
+          <button onClick={handleDownload} className="hover:text-blue-300 transition-colors" title="Download" aria-label="Download photo">
             <Download size={14} />
           </button>
-          <button onClick={handleDelete} className="hover:text-red-300 transition-colors" title="Delete">
+          {photo.clip && (
+            <button onClick={handleDownloadClip} className="hover:text-blue-300 transition-colors" title="Download live clip" aria-label="Download live clip">
+              <Film size={14} />
+            </button>
+          )}
+          {photo.developProgress >= 1 && (
+            <button
+              onClick={() => { setStyleDraft(null); setIsPickingFrame(false); setIsEditingPhoto(true); }}
+              className="hover:text-amber-300 transition-colors"
+              title="Edit photo"
+              aria-label="Edit photo"
+              aria-expanded={isEditingPhoto}
+            >
+              <SlidersHorizontal size={14} />
+            </button>
+          )}
+          {canChooseFrame(photo) && (
+            <button
+              onClick={() => { setStyleDraft(null); setIsEditingPhoto(false); setIsPickingFrame(!isPickingFrame); }}
+              className="hover:text-amber-300 transition-colors"
+              title="Frame"
+              aria-label="Choose frame"
+              aria-expanded={isPickingFrame}
+            >
+              <Frame size={14} />
+            </button>
+          )}
+          {onMoveToWall && moveTargets.length > 0 && (
+            <button
+              onClick={() => setIsPickingWall(!isPickingWall)}
+              className="hover:text-yellow-300 transition-colors"
+              title="Move to wall"
+              aria-label="Move to wall"
+              aria-expanded={isPickingWall}
+            >
+              <FolderInput size={14} />
+            </button>
+          )}
+          <button onClick={handleDelete} className="hover:text-red-300 transition-colors" title="Delete" aria-label="Delete photo">
             <Trash2 size={14} />
           </button>
+
+          {isPickingWall && (
+            <div className="absolute top-full left-1/2 -translate-x-1/2 mt-1 bg-gray-800 rounded-lg py-1 min-w-[8rem] shadow-lg">
+              {moveTargets.map(wall => (
+                <button
+                  key={wall.id}
+                  onClick={() => { onMoveToWall?.(photo.id, wall.id); setIsPickingWall(false); }}
+                  className="block w-full text-left px-3 py-0.5 hover:bg-gray-700 truncate"
+                >
+                  {wall.name}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
       )}
 
       {/* Image Area */}
-      <div className="w-full h-[200px] bg-gray-900 mb-4 overflow-hidden relative border border-gray-100">
-         <img
-          src={photo.dataUrl}
-          alt="Memory"
-          draggable={false}
-          className="w-full h-full object-cover"
-          style={{
-            filter: photo.isDeveloping ? 'blur(8px) brightness(1.5) grayscale(0.5)' : 'none',
-            transition: 'filter 3s ease-in-out',
-          }}
-        />
+      <div
+        className="w-full shrink-0 bg-gray-900 overflow-hidden relative border border-gray-100"
+        style={{ height: `${layout.imageHeight}px`, marginBottom: `${layout.captionGap}px` }}
+      >
+        {photo.developProgress < 1 ? (
+          <DevelopingImage
+            src={photo.dataUrl}
+            progress={photo.developProgress}
+            agitation={photo.agitation}
+            curve={developmentCurve}
+            label={`Developing: ${altText}`}
+            className="w-full h-full"
+          />
+        ) : (
+          <img
+            src={previewUrl || photo.dataUrl}
+            alt={altText}
+            draggable={false}
+            className="w-full h-full object-cover"
+          />
+        )}
+        {isPlayingClip && (
+          <video
+            src={clipUrl!}
+            poster={photo.dataUrl}
+            autoPlay
+            loop
+            muted
+            playsInline
+            aria-hidden="true"
+            className="live-clip absolute inset-0 w-full h-full object-cover"
+          />
+        )}
+        {photo.clip && !isStaged && photo.developProgress >= 1 && (
+          <span className="absolute top-1 left-1 px-1 rounded bg-black/40 text-white text-[9px] font-sans tracking-widest pointer-events-none">
+            LIVE
+          </span>
+        )}
         {/* Paper texture overlay for realism */}
         <div className="absolute inset-0 pointer-events-none opacity-10 bg-[url('https://www.transparenttextures.com/patterns/paper-fibers.png')]"></div>
       </div>
 
+      {isEditingPhoto && !isStaged && (
+        <PhotoEditor
+          photo={photo}
+          onPreview={setPreviewUrl}
+          onApply={(updates) => onUpdate(photo.id, updates)}
+          onClose={closePhotoEditor}
+        />
+      )}
+
+      {isPickingFrame && !isStaged && (
+        <FramePicker
+          selectedId={getFrameTemplate(photo.frameTemplate).id} // Classic when its template is gone
+          onSelect={(frameTemplate) => onUpdate(photo.id, { frameTemplate })}
+          onClose={() => { setIsPickingFrame(false); cardRef.current?.focus(); }}
+        />
+      )}
+
+      {/* Caption Style Picker */}
+      {styleDraft && !isStaged && (
+        <div
+          className="absolute left-full top-0 ml-2 w-56 bg-white/95 rounded-lg shadow-xl p-3 font-hand text-stone-700 z-50"
+          onPointerDown={stopProp}
+          onDoubleClick={stopProp}
+        >
+          <div className="flex items-center justify-between mb-2">
+            <h2 className="text-xl">Caption style</h2>
+            <button onClick={() => setStyleDraft(null)} className="text-stone-400 hover:text-stone-800" title="Close">
+              <X size={14} />
+            </button>
+          </div>
+          <CaptionStyleFields style={styleDraft} onChange={setStyleDraft} />
+          <button
+            onClick={applyStyleDraft}
+            className="flex items-center gap-2 w-full justify-center mt-3 rounded py-1 text-lg bg-stone-800 text-white"
+          >
+            <RotateCw size={14} />
+            Rewrite caption
+          </button>
+        </div>
+      )}
+
       {/* Caption Area */}
       <div 
         className="w-full flex-1 flex flex-col justify-start items-center relative group"
-        onMouseDown={!isEditing ? undefined : stopProp}
+        onPointerDown={!isEditing ? undefined : stopProp}
       >
-        <div className="text-gray-400 text-[10px] self-end w-full text-right font-sans mb-1 pr-1">
+        <div className="text-[10px] self-end w-full text-right font-sans mb-1 pr-1" style={{ color: look.dateInk }}>
           {photo.date}
         </div>
 
@@ -157,11 +363,12 @@ export const Polaroid: React.FC<PolaroidProps> = ({
               value={editText}
               onChange={(e) => setEditText(e.target.value)}
               onKeyDown={handleKeyDown}
+              aria-label="Caption"
               autoFocus
             />
             <div className="absolute bottom-0 right-0 flex gap-1 bg-white/90 p-1">
-               <button onClick={saveEdit} className="text-green-600 hover:bg-green-100 p-1 rounded"><Check size={14}/></button>
-               <button onClick={cancelEdit} className="text-red-500 hover:bg-red-100 p-1 rounded"><X size={14}/></button>
+               <button onClick={saveEdit} className="text-green-600 hover:bg-green-100 p-1 rounded" aria-label="Save caption"><Check size={14}/></button>
+               <button onClick={cancelEdit} className="text-red-500 hover:bg-red-100 p-1 rounded" aria-label="Cancel editing"><X size={14}/></button>
             </div>
           </div>
         ) : (
@@ -169,20 +376,41 @@ export const Polaroid: React.FC<PolaroidProps> = ({
             className="w-full text-center relative"
             onDoubleClick={(e) => { e.stopPropagation(); setIsEditing(true); }}
           >
-            <p className={`text-xl text-gray-800 leading-6 font-hand min-h-[1.5em] px-1 ${photo.isLoadingCaption ? 'animate-pulse text-gray-400' : ''}`}>
-              {photo.isLoadingCaption ? 'Developing thought...' : (photo.caption || '...')}
+            <p
+              className={`min-h-[1.5em] px-1 whitespace-pre-line ${photo.isLoadingCaption ? 'animate-pulse' : ''}`}
+              style={{
+                fontFamily: look.captionFont,
+                fontSize: `${look.captionSize}px`,
+                lineHeight: 1.2,
+                color: photo.isLoadingCaption ? look.dateInk : look.ink,
+              }}
+            >
+              {photo.isLoadingCaption ? 'Developing thought...' : (photo.caption || (photo.captionError ? '' : '...'))}
             </p>
 
+            {photo.captionError && !photo.isLoadingCaption && (
+              <div className="flex items-center justify-center gap-1 text-xs font-sans text-red-500 px-1">
+                <AlertTriangle size={12} className="shrink-0" />
+                <span className="truncate" title={photo.captionError}>{photo.captionError}</span>
+                {!isStaged && (
+                  <button onClick={handleRegenerate} onPointerDown={stopProp} className="underline shrink-0">
+                    Retry
+                  </button>
+                )}
+              </div>
+            )}
+
             {/* Hover actions for caption */}
-            {!isStaged && isHovering && !photo.isLoadingCaption && (
+            {!isStaged && showTools && !photo.isLoadingCaption && (
               <div 
-                className="absolute -right-2 top-0 flex flex-col gap-1 opacity-0 group-hover:opacity-100 transition-opacity"
-                onMouseDown={stopProp}
+                className={`absolute -right-2 top-0 flex flex-col gap-1 transition-opacity ${isFocused ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+                onPointerDown={stopProp}
               >
                 <button 
                   onClick={() => setIsEditing(true)} 
                   className="p-1 text-gray-400 hover:text-gray-800 bg-white/50 rounded-full"
                   title="Edit Text"
+                  aria-label="Edit caption"
                 >
                   <Pencil size={12} />
                 </button>
@@ -190,9 +418,18 @@ export const Polaroid: React.FC<PolaroidProps> = ({
                   onClick={handleRegenerate} 
                   className="p-1 text-gray-400 hover:text-blue-600 bg-white/50 rounded-full"
                   title="Regenerate with AI"
+                  aria-label="Regenerate caption"
                 >
                   <RotateCw size={12} />
                 </button>
+                <button
+                  onClick={() => { setIsEditingPhoto(false); setIsPickingFrame(false); setStyleDraft(photo.captionStyle); }}
+                  className="p-1 text-gray-400 hover:text-purple-600 bg-white/50 rounded-full"
+                  title="Caption style"
+                  aria-label="Caption style"
+                >
+                  <Palette size={12} />
+                </button>
               </div>
             )}
           </div>
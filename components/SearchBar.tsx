@@ -0,0 +1,218 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronUp, Search, SlidersHorizontal, Tags, X } from 'lucide-react';
+import { PhotoData, PhotoTagId } from '../types.ts';
+import { PHOTO_TAGS } from '../services/photoTags.ts';
+import { EMPTY_QUERY, PhotoQuery, isQueryActive } from '../services/photoSearch.ts';
+
+interface SearchBarProps {
+  query: PhotoQuery;
+  onChange: (query: PhotoQuery) => void;
+  photos: PhotoData[]; // Everything on the wall, for tag counts
+  results: PhotoData[]; // Matches, in list order
+  onJump: (id: string) => void;
+  onTagUntagged: () => void;
+  taggingCount: number; // Tag requests in flight
+  autoTag: boolean; // Whether new photos are tagged as they're taken
+  onAutoTagChange: (on: boolean) => void;
+}
+
+export const SearchBar: React.FC<SearchBarProps> = ({
+  query,
+  onChange,
+  photos,
+  results,
+  onJump,
+  onTagUntagged,
+  taggingCount,
+  autoTag,
+  onAutoTagChange,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const isActive = isQueryActive(query);
+  const filterCount = query.tags.length + (query.from ? 1 : 0) + (query.to ? 1 : 0);
+  const untaggedCount = photos.filter(p => p.tags === null).length;
+
+  // "/" jumps to the search field from anywhere that isn't a text field
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== '/' || e.ctrlKey || e.metaKey || e.altKey) return;
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      e.preventDefault();
+      inputRef.current?.focus();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const toggleTag = (id: PhotoTagId) => {
+    const tags = query.tags.includes(id) ? query.tags.filter(t => t !== id) : [...query.tags, id];
+    onChange({ ...query, tags });
+  };
+
+  const clear = () => {
+    onChange(EMPTY_QUERY);
+    inputRef.current?.focus();
+  };
+
+  const handleInputKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      if (isActive) onChange(EMPTY_QUERY);
+      else inputRef.current?.blur();
+      setIsOpen(false);
+    } else if (e.key === 'Enter' && results.length > 0) {
+      onJump(results[0].id);
+    }
+  };
+
+  return (
+    <div className="fixed top-4 left-1/2 -translate-x-1/2 z-40 w-80 font-hand text-stone-700" role="search">
+      <div className="flex items-center gap-1 px-3 py-1 rounded-full bg-white/90 shadow">
+        <Search size={16} className="text-stone-400 shrink-0" />
+        <input
+          ref={inputRef}
+          type="search"
+          value={query.text}
+          onChange={(e) => onChange({ ...query, text: e.target.value })}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={handleInputKeyDown}
+          placeholder="Search captions and dates  ( / )"
+          aria-label="Search photos"
+          aria-controls="search-results"
+          className="flex-1 min-w-0 bg-transparent text-lg focus:outline-none placeholder:text-stone-400"
+        />
+        {isActive && (
+          <span className="text-xs font-sans text-stone-500 whitespace-nowrap">{results.length}/{photos.length}</span>
+        )}
+        <button
+          onClick={() => { setShowFilters(!showFilters); setIsOpen(true); }}
+          aria-pressed={showFilters}
+          className={`relative p-1 rounded-full ${filterCount > 0 ? 'text-stone-900' : 'text-stone-400'} hover:text-stone-900`}
+          title="Filter by date and tags"
+          aria-label="Filters"
+        >
+          <SlidersHorizontal size={16} />
+          {filterCount > 0 && (
+            <span className="absolute -top-1 -right-1 w-4 h-4 rounded-full bg-stone-800 text-white text-[10px] font-sans leading-4 text-center">
+              {filterCount}
+            </span>
+          )}
+        </button>
+        {isActive && (
+          <button onClick={clear} className="p-1 text-stone-400 hover:text-stone-900" title="Clear search" aria-label="Clear search">
+            <X size={16} />
+          </button>
+        )}
+      </div>
+
+      {isOpen && (showFilters || isActive) && (
+        <div className="mt-2 bg-white/95 rounded-lg shadow-xl p-3">
+          {showFilters && (
+            <div className="mb-2">
+              <div className="flex items-center gap-2 mb-2 text-lg">
+                <label className="flex flex-col flex-1">
+                  From
+                  <input
+                    type="date"
+                    value={query.from}
+                    max={query.to || undefined}
+                    onChange={(e) => onChange({ ...query, from: e.target.value })}
+                    className="border border-stone-300 rounded px-1 text-sm font-sans"
+                  />
+                </label>
+                <label className="flex flex-col flex-1">
+                  To
+                  <input
+                    type="date"
+                    value={query.to}
+                    min={query.from || undefined}
+                    onChange={(e) => onChange({ ...query, to: e.target.value })}
+                    className="border border-stone-300 rounded px-1 text-sm font-sans"
+                  />
+                </label>
+              </div>
+
+              <div className="flex flex-wrap gap-1">
+                {PHOTO_TAGS.map(tag => {
+                  const count = photos.filter(p => p.tags?.includes(tag.id)).length;
+                  const isOn = query.tags.includes(tag.id);
+                  return (
+                    <button
+                      key={tag.id}
+                      onClick={() => toggleTag(tag.id)}
+                      aria-pressed={isOn}
+                      className={`px-2 rounded-full text-base transition-colors ${
+                        isOn ? 'bg-stone-800 text-white' : 'border border-stone-300 hover:bg-stone-100'
+                      } ${count === 0 && !isOn ? 'opacity-50' : ''}`}
+                      title={tag.description}
+                    >
+                      {tag.label} <span className="text-xs font-sans">{count}</span>
+                    </button>
+                  );
+                })}
+              </div>
+
+              {(untaggedCount > 0 || taggingCount > 0) && (
+                <div className="flex items-center gap-2 mt-2 text-xs font-sans text-stone-500">
+                  <Tags size={12} className="shrink-0" />
+                  {taggingCount > 0 ? (
+                    <span>Tagging {taggingCount} photo(s)...</span>
+                  ) : (
+                    <>
+                      <span>{untaggedCount} photo(s) have no tags yet.</span>
+                      <button onClick={onTagUntagged} className="underline shrink-0">Tag them</button>
+                    </>
+                  )}
+                </div>
+              )}
+              <label className="flex items-center gap-2 mt-2 text-xs font-sans text-stone-500">
+                <input
+                  type="checkbox"
+                  checked={autoTag}
+                  onChange={(e) => onAutoTagChange(e.target.checked)}
+                  className="accent-stone-800"
+                />
+                Tag new photos as they're taken (one more request to the caption service each)
+              </label>
+            </div>
+          )}
+
+          {isActive && (
+            <>
+              <p className="text-sm font-sans text-stone-500" aria-live="polite">
+                {results.length === 0 ? 'No matching photos.' : `${results.length} matching photo(s)`}
+              </p>
+              <ul id="search-results" className="max-h-64 overflow-y-auto mt-1">
+                {results.map(photo => (
+                  <li key={photo.id}>
+                    <button
+                      onClick={() => onJump(photo.id)}
+                      className="flex items-center gap-2 w-full text-left rounded p-1 hover:bg-stone-100"
+                    >
+                      <img src={photo.dataUrl} alt="" className="w-8 h-8 object-cover shrink-0 border border-stone-200" />
+                      <span className="flex-1 min-w-0">
+                        <span className="block truncate text-lg leading-5">{photo.caption || 'No caption'}</span>
+                        <span className="block text-xs font-sans text-stone-400">{photo.date}</span>
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+
+          <button
+            onClick={() => setIsOpen(false)}
+            className="flex items-center justify-center w-full mt-1 text-stone-400 hover:text-stone-800"
+            title="Collapse"
+            aria-label="Collapse search"
+          >
+            <ChevronUp size={16} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
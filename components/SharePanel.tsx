@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { LogOut, RefreshCw, Users, X } from 'lucide-react';
+import { Participant, SyncStatus, createRoomCode, getSyncSettings, setSyncSettings } from '../services/syncService.ts';
+
+interface SharePanelProps {
+  room: string | null; // null = not sharing
+  status: SyncStatus;
+  sharedWallName: string | null;
+  activeWallName: string;
+  participants: Participant[];
+  youId: string | null;
+  onJoin: (serverUrl: string, room: string, name: string) => void;
+  onLeave: () => void;
+}
+
+const STATUS_LABELS: Record<SyncStatus, string> = {
+  connecting: 'Connecting...',
+  connected: 'Connected',
+  reconnecting: 'Connection lost, reconnecting...',
+};
+
+export const SharePanel: React.FC<SharePanelProps> = ({
+  room,
+  status,
+  sharedWallName,
+  activeWallName,
+  participants,
+  youId,
+  onJoin,
+  onLeave,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [settings, setSettings] = useState(getSyncSettings);
+  const [roomCode, setRoomCode] = useState(createRoomCode);
+
+  const join = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = roomCode.trim();
+    if (!code || !settings.serverUrl.trim()) return;
+    setSyncSettings(settings);
+    onJoin(settings.serverUrl.trim(), code, settings.name.trim());
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className={`fixed top-4 right-72 z-40 p-2 rounded-full bg-white/80 shadow hover:text-stone-900 transition-colors ${
+          room ? 'text-emerald-600' : 'text-stone-600'
+        }`}
+        title={room ? `Sharing "${sharedWallName}"` : 'Share this wall'}
+        aria-label={room ? `Sharing, ${participants.length} here` : 'Share this wall'}
+      >
+        <Users size={18} />
+        {room && participants.length > 1 && (
+          <span className="absolute -top-1 -right-1 w-4 h-4 rounded-full bg-emerald-600 text-white text-[10px] font-sans leading-4 text-center">
+            {participants.length}
+          </span>
+        )}
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed top-4 right-72 z-40 w-72 bg-white/95 rounded-lg shadow-xl p-4 font-hand text-stone-700">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-xl">Share</h2>
+        <button onClick={() => setIsOpen(false)} className="text-stone-400 hover:text-stone-800" title="Close" aria-label="Close">
+          <X size={16} />
+        </button>
+      </div>
+
+      {room ? (
+        <>
+          <p className="text-lg leading-5">
+            Sharing "{sharedWallName}" in room <span className="font-sans font-semibold select-all">{room}</span>
+          </p>
+          <p
+            className={`text-xs font-sans mt-1 ${status === 'connected' ? 'text-emerald-600' : 'text-amber-600'}`}
+            aria-live="polite"
+          >
+            {STATUS_LABELS[status]}
+          </p>
+
+          <ul className="mt-3 flex flex-col gap-1">
+            {participants.map(participant => (
+              <li key={participant.id} className="flex items-center gap-2 text-lg">
+                <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: participant.color }} />
+                <span className="truncate">{participant.name}</span>
+                {participant.id === youId && <span className="text-xs font-sans text-stone-400">(you)</span>}
+              </li>
+            ))}
+          </ul>
+
+          <button
+            onClick={onLeave}
+            className="flex items-center gap-2 w-full justify-center mt-3 border border-stone-800 rounded py-1 text-lg"
+          >
+            <LogOut size={16} /> Leave room
+          </button>
+        </>
+      ) : (
+        <form onSubmit={join} className="flex flex-col gap-2 text-lg">
+          <label className="flex flex-col">
+            Your name
+            <input
+              value={settings.name}
+              onChange={(e) => setSettings({ ...settings, name: e.target.value })}
+              maxLength={40}
+              placeholder="Guest"
+              className="border border-stone-300 rounded px-1 text-sm font-sans"
+            />
+          </label>
+          <label className="flex flex-col">
+            Room
+            <span className="flex gap-1">
+              <input
+                value={roomCode}
+                onChange={(e) => setRoomCode(e.target.value)}
+                className="flex-1 min-w-0 border border-stone-300 rounded px-1 text-sm font-sans"
+              />
+              <button
+                type="button"
+                onClick={() => setRoomCode(createRoomCode())}
+                className="p-1 text-stone-400 hover:text-stone-800"
+                title="New room code"
+                aria-label="New room code"
+              >
+                <RefreshCw size={14} />
+              </button>
+            </span>
+          </label>
+          <label className="flex flex-col">
+            Relay
+            <input
+              value={settings.serverUrl}
+              onChange={(e) => setSettings({ ...settings, serverUrl: e.target.value })}
+              className="border border-stone-300 rounded px-1 text-sm font-sans"
+            />
+          </label>
+          <p className="text-xs font-sans text-stone-500">
+            "{activeWallName}" will be shared. Send the room code to friends to join it; their photos and yours end up on the same wall.
+          </p>
+          <button type="submit" className="w-full bg-stone-800 text-white rounded py-1">
+            Join room
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
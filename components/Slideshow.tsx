@@ -0,0 +1,314 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Move, Pause, Play, SkipBack, SkipForward, Volume2, VolumeX, X } from 'lucide-react';
+import { PhotoData } from '../types.ts';
+import { getCardLayout } from '../services/cardLayout.ts';
+import { DevelopmentCurve } from '../services/developmentService.ts';
+import {
+  SLIDE_DURATIONS,
+  SLIDE_ORDERS,
+  SlideOrder,
+  SlideshowSettings,
+  canNarrate,
+  getSlideshowSettings,
+  kenBurnsMove,
+  narrateCaption,
+  orderSlides,
+  setSlideshowSettings,
+  stopNarration,
+} from '../services/slideshow.ts';
+import { Polaroid } from './Polaroid.tsx';
+
+interface SlideshowProps {
+  photos: PhotoData[];
+  title: string; // The wall's name
+  screen: { width: number; height: number };
+  developmentCurve: DevelopmentCurve;
+  onClose: () => void;
+}
+
+const CARD_SCREEN_SHARE = 0.78; // Of the screen's shorter fit, leaving room for the controls
+const FADE_MS = 600;
+const CONTROLS_IDLE_MS = 2500; // Controls and cursor hide after this long without the mouse moving
+
+const noop = () => {};
+
+export const Slideshow: React.FC<SlideshowProps> = ({ photos, title, screen, developmentCurve, onClose }) => {
+  const [settings, setSettings] = useState(getSlideshowSettings);
+  const [index, setIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [isTimeUp, setIsTimeUp] = useState(false);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [showControls, setShowControls] = useState(true);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const slideRef = useRef<HTMLDivElement>(null);
+  const clockRef = useRef({ elapsed: 0 }); // Replaced for every slide, so a pause picks up where it left off
+  const idleTimerRef = useRef<number | null>(null);
+
+  const slides = orderSlides(photos, settings.order);
+  const current = slides[Math.min(index, slides.length - 1)];
+  const narrationAvailable = canNarrate();
+  const narrate = settings.narrate && narrationAvailable;
+
+  const updateSettings = (changes: Partial<SlideshowSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    setSlideshowSettings(next);
+  };
+
+  const goTo = (next: number) => {
+    if (slides.length === 0) return;
+    clockRef.current = { elapsed: 0 };
+    setIsTimeUp(false);
+    setIndex((next + slides.length) % slides.length);
+  };
+
+  // --- Full screen ---
+  // Leaving full screen (Escape, in most browsers) ends the show. Where full
+  // screen isn't allowed, e.g. in an iframe, the show just covers the window.
+  useEffect(() => {
+    const root = rootRef.current;
+    const returnFocus = document.activeElement as HTMLElement | null;
+    root?.focus();
+
+    let entered = false;
+    const handleChange = () => {
+      if (document.fullscreenElement === root) entered = true;
+      else if (entered) onClose();
+    };
+    document.addEventListener('fullscreenchange', handleChange);
+    root?.requestFullscreen?.().catch(() => {});
+
+    return () => {
+      document.removeEventListener('fullscreenchange', handleChange);
+      if (document.fullscreenElement === root) document.exitFullscreen().catch(() => {});
+      stopNarration();
+      returnFocus?.focus({ preventScroll: true });
+    };
+  }, []);
+
+  // --- Timing ---
+  // A slide moves on once its time is up and its caption has been read out.
+  useEffect(() => {
+    if (!isPlaying || isTimeUp) return;
+    const clock = clockRef.current;
+    const started = performance.now();
+    const timer = window.setTimeout(() => setIsTimeUp(true), settings.seconds * 1000 - clock.elapsed);
+    return () => {
+      window.clearTimeout(timer);
+      clock.elapsed += performance.now() - started;
+    };
+  }, [index, isPlaying, isTimeUp, settings.seconds]);
+
+  useEffect(() => {
+    if (isPlaying && isTimeUp && !isSpeaking) goTo(index + 1);
+  }, [isPlaying, isTimeUp, isSpeaking]);
+
+  // --- Narration ---
+  useEffect(() => {
+    if (!narrate || !current) return;
+    let cancelled = false;
+    setIsSpeaking(true);
+    narrateCaption(current).then(() => {
+      if (!cancelled) setIsSpeaking(false);
+    });
+    return () => {
+      cancelled = true;
+      stopNarration();
+      setIsSpeaking(false);
+    };
+  }, [current?.id, narrate]);
+
+  useEffect(() => {
+    if (!isPlaying) stopNarration();
+  }, [isPlaying]);
+
+  // --- Ken Burns and the fade between slides ---
+  useEffect(() => {
+    const slide = slideRef.current;
+    if (!slide || !current) return;
+    const fade = slide.animate([{ opacity: 0 }, { opacity: 1 }], { duration: FADE_MS, easing: 'ease-out' });
+
+    const reduceMotion = window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+    if (!settings.kenBurns || reduceMotion) return () => fade.cancel();
+
+    const { from, to } = kenBurnsMove(current, index);
+    const frame = ({ scale, x, y }: typeof from) => ({ transform: `translate(${x}%, ${y}%) scale(${scale})` });
+    const drift = slide.animate([frame(from), frame(to)], {
+      duration: settings.seconds * 1000 + FADE_MS,
+      easing: 'ease-in-out',
+      fill: 'forwards',
+    });
+    return () => {
+      fade.cancel();
+      drift.cancel();
+    };
+  }, [current?.id, index, settings.kenBurns, settings.seconds]);
+
+  useEffect(() => {
+    slideRef.current?.getAnimations().forEach(animation => isPlaying ? animation.play() : animation.pause());
+  }, [isPlaying, current?.id]);
+
+  // --- Controls ---
+
+  const wakeControls = () => {
+    setShowControls(true);
+    if (idleTimerRef.current !== null) window.clearTimeout(idleTimerRef.current);
+    idleTimerRef.current = window.setTimeout(() => setShowControls(false), CONTROLS_IDLE_MS);
+  };
+
+  useEffect(() => {
+    wakeControls();
+    return () => {
+      if (idleTimerRef.current !== null) window.clearTimeout(idleTimerRef.current);
+    };
+  }, []);
+
+  // Keys stop here either way, so the wall behind doesn't react (Space would take a photo)
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation();
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    const target = e.target as HTMLElement;
+    if (e.key !== 'Escape' && target !== e.currentTarget && target.closest('button, select')) return; // Their own keys
+
+    switch (e.key) {
+      case 'ArrowRight':
+      case 'PageDown':
+        goTo(index + 1);
+        break;
+      case 'ArrowLeft':
+      case 'PageUp':
+        goTo(index - 1);
+        break;
+      case 'Home':
+        goTo(0);
+        break;
+      case 'End':
+        goTo(slides.length - 1);
+        break;
+      case ' ':
+      case 'k':
+        setIsPlaying(playing => !playing);
+        break;
+      case 'Escape':
+        onClose();
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+    wakeControls();
+  };
+
+  const layout = current ? getCardLayout(current) : null;
+  const fit = layout
+    ? Math.min(screen.width / layout.width, screen.height / layout.height) * CARD_SCREEN_SHARE
+    : 1;
+
+  const iconButton = 'p-2 rounded-full hover:bg-white/10 disabled:opacity-40 transition-colors';
+
+  return (
+    <div
+      ref={rootRef}
+      className="fixed inset-0 z-[60] bg-stone-900 flex items-center justify-center outline-none"
+      style={{ cursor: showControls ? 'default' : 'none' }}
+      tabIndex={-1}
+      role="dialog"
+      aria-modal="true"
+      aria-label={`Slideshow: ${title}`}
+      onKeyDown={handleKeyDown}
+      onKeyUp={(e) => e.stopPropagation()}
+      onPointerMove={wakeControls}
+      onPointerDown={wakeControls}
+    >
+      {current && layout ? (
+        <div
+          key={current.id}
+          ref={slideRef}
+          className="relative"
+          style={{ width: layout.width * fit, height: layout.height * fit }}
+        >
+          <Polaroid
+            photo={current}
+            onUpdate={noop}
+            isStaged
+            developmentCurve={developmentCurve}
+            style={{ left: 0, top: 0, transform: `scale(${fit})`, transformOrigin: 'top left', cursor: 'inherit' }}
+          />
+        </div>
+      ) : (
+        <p className="text-3xl text-stone-400 font-hand">No photos to show</p>
+      )}
+
+      <div className="sr-only" aria-live="polite" aria-atomic="true">
+        {current ? `Photo ${index + 1} of ${slides.length}. ${current.caption}` : ''}
+      </div>
+
+      <div
+        className={`absolute bottom-6 left-1/2 -translate-x-1/2 flex items-center gap-2 px-4 py-2 rounded-full bg-black/60 text-white font-hand shadow-lg transition-opacity duration-500 ${
+          showControls ? 'opacity-100' : 'opacity-0 pointer-events-none'
+        }`}
+      >
+        <button onClick={() => goTo(index - 1)} className={iconButton} title="Previous (Left arrow)" aria-label="Previous photo">
+          <SkipBack size={18} />
+        </button>
+        <button
+          onClick={() => setIsPlaying(!isPlaying)}
+          className={iconButton}
+          title={isPlaying ? 'Pause (Space)' : 'Play (Space)'}
+          aria-label={isPlaying ? 'Pause' : 'Play'}
+        >
+          {isPlaying ? <Pause size={18} /> : <Play size={18} />}
+        </button>
+        <button onClick={() => goTo(index + 1)} className={iconButton} title="Next (Right arrow)" aria-label="Next photo">
+          <SkipForward size={18} />
+        </button>
+        <span className="text-lg w-16 text-center tabular-nums">
+          {slides.length > 0 ? `${index + 1} / ${slides.length}` : '0 / 0'}
+        </span>
+
+        <select
+          value={settings.order}
+          onChange={(e) => { updateSettings({ order: e.target.value as SlideOrder }); goTo(0); }}
+          className="bg-transparent border border-white/30 rounded px-1 text-sm font-sans"
+          aria-label="Order"
+        >
+          {SLIDE_ORDERS.map(order => (
+            <option key={order.id} value={order.id} className="text-stone-800">{order.label}</option>
+          ))}
+        </select>
+        <select
+          value={settings.seconds}
+          onChange={(e) => updateSettings({ seconds: Number(e.target.value) })}
+          className="bg-transparent border border-white/30 rounded px-1 text-sm font-sans"
+          aria-label="Seconds per photo"
+        >
+          {SLIDE_DURATIONS.map(seconds => (
+            <option key={seconds} value={seconds} className="text-stone-800">{seconds} s</option>
+          ))}
+        </select>
+        <button
+          onClick={() => updateSettings({ kenBurns: !settings.kenBurns })}
+          className={`${iconButton} ${settings.kenBurns ? 'text-amber-300' : ''}`}
+          title="Pan and zoom"
+          aria-label="Pan and zoom"
+          aria-pressed={settings.kenBurns}
+        >
+          <Move size={18} />
+        </button>
+        <button
+          onClick={() => updateSettings({ narrate: !settings.narrate })}
+          disabled={!narrationAvailable}
+          className={`${iconButton} ${narrate ? 'text-amber-300' : ''}`}
+          title={narrationAvailable ? 'Read captions aloud' : 'This browser cannot read aloud'}
+          aria-label="Read captions aloud"
+          aria-pressed={narrate}
+        >
+          {narrate ? <Volume2 size={18} /> : <VolumeX size={18} />}
+        </button>
+        <button onClick={onClose} className={iconButton} title="Leave (Esc)" aria-label="Leave slideshow">
+          <X size={18} />
+        </button>
+      </div>
+    </div>
+  );
+};
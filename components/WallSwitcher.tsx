@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { ChevronDown, Check, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Wall } from '../types.ts';
+
+interface WallSwitcherProps {
+  walls: Wall[];
+  activeWallId: string;
+  onSelect: (id: string) => void;
+  onCreate: (name: string) => void;
+  onUpdate: (id: string, updates: Partial<Omit<Wall, 'id' | 'photos'>>) => void;
+  onDelete: (id: string) => void;
+}
+
+const BACKGROUNDS = [
+  { label: 'Paper', color: '#f5f5f4' },
+  { label: 'Cork', color: '#d9b98c' },
+  { label: 'Mint', color: '#dcefe4' },
+  { label: 'Blush', color: '#f6e1e6' },
+  { label: 'Slate', color: '#475569' },
+];
+
+export const WallSwitcher: React.FC<WallSwitcherProps> = ({
+  walls,
+  activeWallId,
+  onSelect,
+  onCreate,
+  onUpdate,
+  onDelete
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [nameText, setNameText] = useState('');
+  const [newName, setNewName] = useState('');
+
+  const activeWall = walls.find(w => w.id === activeWallId) || walls[0];
+
+  const startRename = (wall: Wall) => {
+    setRenamingId(wall.id);
+    setNameText(wall.name);
+  };
+
+  const saveRename = () => {
+    if (renamingId && nameText.trim()) onUpdate(renamingId, { name: nameText.trim() });
+    setRenamingId(null);
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    onCreate(newName.trim());
+    setNewName('');
+  };
+
+  const handleDelete = (wall: Wall) => {
+    const message = wall.photos.length > 0
+      ? `Delete "${wall.name}" and its ${wall.photos.length} photo(s)?`
+      : `Delete "${wall.name}"?`;
+    if (window.confirm(message)) onDelete(wall.id);
+  };
+
+  return (
+    <div className="fixed top-4 left-4 z-40 font-hand text-stone-700">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 px-3 py-1 rounded-full bg-white/80 shadow text-xl hover:bg-white transition-colors"
+        title="Switch wall"
+      >
+        {activeWall.name}
+        <ChevronDown size={16} />
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 w-72 bg-white/95 rounded-lg shadow-xl p-3">
+          <ul className="flex flex-col gap-1 max-h-72 overflow-y-auto">
+            {walls.map(wall => (
+              <li key={wall.id} className="flex items-center gap-2 text-lg">
+                {renamingId === wall.id ? (
+                  <>
+                    <input
+                      className="flex-1 border border-stone-300 rounded px-1 text-base"
+                      value={nameText}
+                      onChange={(e) => setNameText(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') saveRename();
+                        else if (e.key === 'Escape') setRenamingId(null);
+                      }}
+                      autoFocus
+                    />
+                    <button onClick={saveRename} className="text-green-600" title="Save name">
+                      <Check size={14} />
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => { onSelect(wall.id); setIsOpen(false); }}
+                      className={`flex-1 text-left truncate ${wall.id === activeWallId ? 'font-bold' : 'hover:text-stone-900'}`}
+                    >
+                      {wall.name} <span className="text-sm text-stone-400">({wall.photos.length})</span>
+                    </button>
+                    <button onClick={() => startRename(wall)} className="text-stone-400 hover:text-stone-800" title="Rename">
+                      <Pencil size={12} />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(wall)}
+                      disabled={walls.length <= 1}
+                      className="text-stone-400 hover:text-red-500 disabled:opacity-30"
+                      title="Delete wall"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <form onSubmit={handleCreate} className="flex gap-1 mt-3">
+            <input
+              className="flex-1 border border-stone-300 rounded px-2 text-base"
+              placeholder="New wall, e.g. Trip to Kyoto"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+            />
+            <button type="submit" className="p-1 rounded bg-stone-800 text-white" title="Create wall">
+              <Plus size={14} />
+            </button>
+          </form>
+
+          <div className="flex gap-2 mt-3 items-center">
+            <span className="text-sm text-stone-500">Background</span>
+            {BACKGROUNDS.map(bg => (
+              <button
+                key={bg.color}
+                onClick={() => onUpdate(activeWall.id, { background: bg.color })}
+                className={`w-5 h-5 rounded-full border ${activeWall.background === bg.color ? 'ring-2 ring-stone-800' : 'border-stone-300'}`}
+                style={{ backgroundColor: bg.color }}
+                title={bg.label}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,357 @@
+// Relay for shared walls. Run it with `npm run relay` (PORT defaults to 8787)
+// and point the app's Share panel at ws://<this machine>:8787.
+//
+// Clients connect to ws://host:port/<room>. The relay keeps the current
+// photos of each room in memory, puts every op from every client in one
+// order and broadcasts it (back to the sender too, as the acknowledgement),
+// and hands out drag claims so two people can't move the same photo at once.
+// The message shapes are documented in services/syncService.ts.
+//
+// No dependencies: the WebSocket handshake and framing (RFC 6455) are done
+// by hand below, for text messages only.
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.PORT) || 8787;
+const MAX_MESSAGE_BYTES = 32 * 1024 * 1024; // Photos travel as data URLs
+const HEARTBEAT_MS = 30000;
+const EMPTY_ROOM_TTL_MS = 60 * 60 * 1000; // Keep an empty room around for late (re)joiners
+const COLORS = ['#e11d48', '#2563eb', '#16a34a', '#d97706', '#9333ea', '#0891b2', '#db2777', '#4d7c0f'];
+const PLACEMENT_FIELDS = ['position', 'rotation', 'scale', 'zIndex']; // What a claim protects
+
+// --- WebSocket plumbing ---
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+/**
+ * Wraps an upgraded socket (`head` = bytes already read past the handshake).
+ * `onMessage` gets each complete text message;
+ * `onClose` is called once, however the connection ends.
+ */
+const acceptConnection = (socket, head, onMessage, onClose) => {
+  let buffer = Buffer.alloc(0);
+  let fragments = [];
+  let isClosed = false;
+  let isAlive = true;
+
+  const close = (code = 1000) => {
+    if (isClosed) return;
+    isClosed = true;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code, 0);
+    socket.end(encodeFrame(0x8, payload));
+    onClose();
+  };
+
+  const connection = {
+    send: (text) => {
+      if (!isClosed) socket.write(encodeFrame(0x1, Buffer.from(text)));
+    },
+    close,
+    // Called by the heartbeat: false if the last ping went unanswered
+    ping: () => {
+      if (!isAlive) return false;
+      isAlive = false;
+      if (!isClosed) socket.write(encodeFrame(0x9, Buffer.alloc(0)));
+      return true;
+    },
+  };
+
+  const handleFrame = (fin, opcode, payload) => {
+    switch (opcode) {
+      case 0x0: // Continuation
+      case 0x1: // Text
+        fragments.push(payload);
+        if (fin) {
+          const text = Buffer.concat(fragments).toString('utf8');
+          fragments = [];
+          onMessage(text);
+        }
+        break;
+      case 0x8:
+        close();
+        break;
+      case 0x9:
+        socket.write(encodeFrame(0xA, payload));
+        break;
+      case 0xA:
+        isAlive = true;
+        break;
+      default: // Binary and anything else is not part of the protocol
+        close(1003);
+    }
+  };
+
+  const receive = (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    while (buffer.length >= 2 && !isClosed) {
+      const fin = (buffer[0] & 0x80) !== 0;
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (!masked || length > MAX_MESSAGE_BYTES) {
+        close(masked ? 1009 : 1002); // Clients must mask; nobody may send more than the limit
+        return;
+      }
+      if (buffer.length < offset + 4 + length) return; // Wait for the rest
+
+      const mask = buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      buffer = buffer.subarray(offset + 4 + length);
+      handleFrame(fin, opcode, payload);
+    }
+  };
+  socket.on('data', receive);
+
+  const lost = () => {
+    if (isClosed) return;
+    isClosed = true;
+    onClose();
+  };
+  socket.on('close', lost);
+  socket.on('error', lost);
+
+  // Bytes that arrived together with the upgrade request
+  if (head.length > 0) queueMicrotask(() => receive(head));
+  return connection;
+};
+
+// --- Rooms ---
+
+const rooms = new Map(); // Name -> { photos, claims, participants, expiry }
+let nextParticipantId = 1;
+
+const getRoom = (name) => {
+  let room = rooms.get(name);
+  if (!room) {
+    room = { photos: new Map(), claims: new Map(), participants: new Map(), expiry: null };
+    rooms.set(name, room);
+  }
+  clearTimeout(room.expiry);
+  return room;
+};
+
+const broadcast = (room, message, except = null) => {
+  const text = JSON.stringify(message);
+  for (const participant of room.participants.values()) {
+    if (participant.id !== except) participant.connection.send(text);
+  }
+};
+
+const publicInfo = ({ id, name, color, cursor }) => ({ id, name, color, cursor });
+
+const isObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The shape applyOp relies on; anything else is dropped
+const isValidOp = (op) => {
+  if (!isObject(op)) return false;
+  switch (op.kind) {
+    case 'upsert': return isObject(op.photo) && typeof op.photo.id === 'string';
+    case 'patch': return typeof op.id === 'string' && isObject(op.changes);
+    case 'delete': return typeof op.id === 'string';
+    default: return false;
+  }
+};
+
+const applyOp = (room, sender, opId, op) => {
+  const reply = (message) => sender.connection.send(JSON.stringify(message));
+  if (!isValidOp(op)) return;
+  const id = op.kind === 'upsert' ? op.photo.id : op.id;
+
+  // Someone else holds the photo: refuse, and tell the sender where it really is
+  const holder = room.claims.get(id);
+  const touchesPlacement = op.kind === 'delete'
+    || (op.kind === 'patch' && PLACEMENT_FIELDS.some(field => field in op.changes));
+  if (holder && holder !== sender.id && touchesPlacement) {
+    reply({ type: 'reject', opId, photo: room.photos.get(id) || null });
+    return;
+  }
+
+  switch (op.kind) {
+    case 'upsert':
+      room.photos.set(id, op.photo);
+      break;
+    case 'patch': {
+      const photo = room.photos.get(id);
+      if (!photo) {
+        reply({ type: 'reject', opId, photo: null });
+        return;
+      }
+      room.photos.set(id, { ...photo, ...op.changes });
+      break;
+    }
+    case 'delete':
+      room.photos.delete(id);
+      if (room.claims.delete(id)) broadcast(room, { type: 'released', id });
+      break;
+  }
+  broadcast(room, { type: 'op', from: sender.id, opId, op });
+};
+
+const handleMessage = (room, sender, message) => {
+  switch (message.type) {
+    case 'hello': {
+      sender.name = String(message.name || '').slice(0, 40) || `Guest ${sender.id.slice(1)}`;
+      room.participants.set(sender.id, sender);
+      sender.connection.send(JSON.stringify({
+        type: 'welcome',
+        you: sender.id,
+        participants: [...room.participants.values()].map(publicInfo),
+        photos: [...room.photos.values()],
+        claims: Object.fromEntries(room.claims),
+      }));
+      broadcast(room, { type: 'joined', participant: publicInfo(sender) }, sender.id);
+      break;
+    }
+    case 'op':
+      applyOp(room, sender, message.opId, message.op);
+      break;
+    case 'claim': {
+      if (typeof message.id !== 'string') break;
+      const holder = room.claims.get(message.id);
+      if (holder && holder !== sender.id) {
+        sender.connection.send(JSON.stringify({ type: 'claim-denied', id: message.id, by: holder }));
+      } else if (room.photos.has(message.id)) {
+        room.claims.set(message.id, sender.id);
+        broadcast(room, { type: 'claimed', id: message.id, by: sender.id });
+      }
+      break;
+    }
+    case 'release':
+      if (typeof message.id === 'string' && room.claims.get(message.id) === sender.id) {
+        room.claims.delete(message.id);
+        broadcast(room, { type: 'released', id: message.id });
+      }
+      break;
+    case 'cursor':
+      sender.cursor = message.position || null;
+      broadcast(room, { type: 'cursor', from: sender.id, position: sender.cursor }, sender.id);
+      break;
+  }
+};
+
+const leave = (roomName, room, participant) => {
+  if (!room.participants.delete(participant.id)) return;
+  for (const [photoId, holder] of room.claims) {
+    if (holder !== participant.id) continue;
+    room.claims.delete(photoId);
+    broadcast(room, { type: 'released', id: photoId });
+  }
+  broadcast(room, { type: 'left', id: participant.id });
+  console.log(`${participant.name} left ${roomName} (${room.participants.size} left)`);
+
+  if (room.participants.size === 0) {
+    room.expiry = setTimeout(() => rooms.delete(roomName), EMPTY_ROOM_TTL_MS);
+  }
+};
+
+// --- Server ---
+
+const connections = new Set();
+
+const server = createServer((req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('Bao Retro Camera relay. Connect with a WebSocket to /<room>.\n');
+});
+
+const refuse = (socket) => socket.end('HTTP/1.1 400 Bad Request\r\n\r\n', () => socket.destroy());
+
+server.on('upgrade', (req, socket, head) => {
+  const key = req.headers['sec-websocket-key'];
+  let roomName;
+  try {
+    roomName = decodeURIComponent(new URL(req.url || '/', 'http://relay').pathname.slice(1));
+  } catch {
+    refuse(socket); // Malformed escapes, e.g. /%E0%A4%A
+    return;
+  }
+  if (req.headers.upgrade?.toLowerCase() !== 'websocket' || !key || !roomName) {
+    refuse(socket);
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '', '',
+  ].join('\r\n'));
+  socket.setNoDelay(true);
+
+  let room = null; // Joined on hello, so sockets that never say it don't keep a room around
+  const participant = {
+    id: `p${nextParticipantId}`,
+    name: '',
+    color: COLORS[(nextParticipantId - 1) % COLORS.length],
+    cursor: null,
+    connection: null,
+  };
+  nextParticipantId++;
+
+  participant.connection = acceptConnection(
+    socket,
+    head,
+    (text) => {
+      let message;
+      try {
+        message = JSON.parse(text);
+      } catch {
+        return; // Not ours
+      }
+      if (!isObject(message) || typeof message.type !== 'string') return; // Not ours either
+      if (message.type === 'hello') room ??= getRoom(roomName);
+      if (!room || (message.type !== 'hello' && !room.participants.has(participant.id))) return; // Must say hello first
+      handleMessage(room, participant, message);
+      if (message.type === 'hello') console.log(`${participant.name} joined ${roomName} (${room.participants.size} here)`);
+    },
+    () => {
+      connections.delete(participant.connection);
+      if (room) leave(roomName, room, participant);
+    }
+  );
+  connections.add(participant.connection);
+});
+
+// Drops connections that stopped answering pings (sleeping laptops, dead Wi-Fi)
+setInterval(() => {
+  for (const connection of connections) {
+    if (!connection.ping()) connection.close(1001);
+  }
+}, HEARTBEAT_MS);
+
+server.listen(PORT, () => {
+  console.log(`Relay listening on ws://localhost:${PORT}/<room>`);
+});
@@ -0,0 +1,284 @@
+import { FaceBox } from '../types.ts';
+
+// Auto-framing: finds the faces in a camera frame, or failing that the
+// likely subject, and picks the square crop that frames them instead of the
+// blind center square. Uses the browser's FaceDetector (Shape Detection API)
+// where there is one, and a rough skin-tone / saliency map everywhere else.
+// Everything runs on the device.
+
+const SETTINGS_KEY = 'bao.autoFrame';
+const ANALYSIS_SIZE = 64; // The fallback looks at a thumbnail this long
+const MAX_FACES = 8;
+const MIN_SKIN_AREA = 0.004; // Of the thumbnail; smaller skin patches are noise
+const MIN_SALIENCY = 12; // Mean color distance below which the frame is too flat to have a subject
+const FACE_LINE = 0.4; // Faces sit this far down the crop, leaving room for shoulders below
+const CUT_OFF_TOLERANCE = 0.02; // Of the crop size; a face closer than this to an edge counts as cut
+const EASE = 0.15; // Share of the way to the target crop the viewfinder moves per frame
+
+export interface AutoFrameSettings {
+  enabled: boolean;
+}
+
+const DEFAULT_SETTINGS: AutoFrameSettings = { enabled: false };
+
+export const getAutoFrameSettings = (): AutoFrameSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const setAutoFrameSettings = (settings: AutoFrameSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/** A box in video pixels. */
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** The square of the video frame that becomes the photo. */
+export interface Crop {
+  sx: number;
+  sy: number;
+  size: number;
+}
+
+export interface Framing {
+  crop: Crop;
+  faces: Rect[];
+  isCutOff: boolean; // Some face straddles the edge of the crop
+}
+
+// --- Face detection ---
+
+// The Shape Detection API isn't in the DOM typings
+interface FaceDetectorInstance {
+  detect: (source: CanvasImageSource) => Promise<{ boundingBox: DOMRectReadOnly }[]>;
+}
+type FaceDetectorConstructor = new (options: { fastMode?: boolean; maxDetectedFaces?: number }) => FaceDetectorInstance;
+
+let faceDetector: FaceDetectorInstance | null | undefined; // undefined = not created yet
+
+const getFaceDetector = (): FaceDetectorInstance | null => {
+  if (faceDetector === undefined) {
+    const FaceDetector = (window as unknown as { FaceDetector?: FaceDetectorConstructor }).FaceDetector;
+    try {
+      faceDetector = FaceDetector ? new FaceDetector({ fastMode: true, maxDetectedFaces: MAX_FACES }) : null;
+    } catch {
+      faceDetector = null;
+    }
+  }
+  return faceDetector;
+};
+
+// --- Fallback ---
+
+interface Thumbnail {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+  scale: number; // Thumbnail px per video px
+}
+
+let analysisCanvas: HTMLCanvasElement | null = null;
+
+const readThumbnail = (video: HTMLVideoElement): Thumbnail => {
+  const scale = ANALYSIS_SIZE / Math.max(video.videoWidth, video.videoHeight);
+  const width = Math.max(1, Math.round(video.videoWidth * scale));
+  const height = Math.max(1, Math.round(video.videoHeight * scale));
+
+  if (!analysisCanvas) analysisCanvas = document.createElement('canvas');
+  analysisCanvas.width = width;
+  analysisCanvas.height = height;
+  const ctx = analysisCanvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(video, 0, 0, width, height);
+  return { data: ctx.getImageData(0, 0, width, height).data, width, height, scale };
+};
+
+// Classic YCbCr skin range; covers most skin tones under ordinary light
+const isSkin = (r: number, g: number, b: number) => {
+  const y = 0.299 * r + 0.587 * g + 0.114 * b;
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return y > 60 && cb >= 85 && cb <= 135 && cr >= 135 && cr <= 180;
+};
+
+// Face-shaped patches of skin: roughly as wide as tall and mostly filled
+const findSkinFaces = ({ data, width, height, scale }: Thumbnail): Rect[] => {
+  const count = width * height;
+  const skin = new Uint8Array(count);
+  for (let i = 0; i < count; i++) skin[i] = isSkin(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]) ? 1 : 0;
+
+  const seen = new Uint8Array(count);
+  const patches: (Rect & { area: number })[] = [];
+  for (let start = 0; start < count; start++) {
+    if (!skin[start] || seen[start]) continue;
+
+    // Flood-fill one patch, tracking its bounds
+    const stack = [start];
+    seen[start] = 1;
+    let area = 0, minX = width, minY = height, maxX = 0, maxY = 0;
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      const x = i % width;
+      const y = (i - x) / width;
+      area++;
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+      for (const n of [x > 0 ? i - 1 : -1, x < width - 1 ? i + 1 : -1, i - width, i + width]) {
+        if (n >= 0 && n < count && skin[n] && !seen[n]) {
+          seen[n] = 1;
+          stack.push(n);
+        }
+      }
+    }
+
+    const w = maxX - minX + 1;
+    const h = maxY - minY + 1;
+    if (area >= MIN_SKIN_AREA * count && w / h > 0.5 && w / h < 1.5 && area / (w * h) > 0.4) {
+      patches.push({ x: minX / scale, y: minY / scale, width: w / scale, height: h / scale, area });
+    }
+  }
+
+  // Patches much smaller than the biggest are hands and arms more often than faces
+  patches.sort((a, b) => b.area - a.area);
+  return patches
+    .filter(patch => patch.area >= patches[0].area / 4)
+    .slice(0, MAX_FACES)
+    .map(({ area, ...rect }) => rect);
+};
+
+// Where the frame stands out from its average color: a box two standard
+// deviations around the weighted center of the standout pixels
+const findSalientRegion = ({ data, width, height, scale }: Thumbnail): Rect | null => {
+  const count = width * height;
+  let meanR = 0, meanG = 0, meanB = 0;
+  for (let i = 0; i < count; i++) {
+    meanR += data[i * 4];
+    meanG += data[i * 4 + 1];
+    meanB += data[i * 4 + 2];
+  }
+  meanR /= count;
+  meanG /= count;
+  meanB /= count;
+
+  const distance = new Float32Array(count);
+  let total = 0;
+  for (let i = 0; i < count; i++) {
+    distance[i] = Math.hypot(data[i * 4] - meanR, data[i * 4 + 1] - meanG, data[i * 4 + 2] - meanB);
+    total += distance[i];
+  }
+  const mean = total / count;
+  if (mean < MIN_SALIENCY) return null;
+
+  let sum = 0, cx = 0, cy = 0;
+  for (let i = 0; i < count; i++) {
+    const weight = Math.max(0, distance[i] - mean);
+    sum += weight;
+    cx += weight * (i % width + 0.5);
+    cy += weight * (Math.floor(i / width) + 0.5);
+  }
+  if (sum === 0) return null;
+  cx /= sum;
+  cy /= sum;
+
+  let varX = 0, varY = 0;
+  for (let i = 0; i < count; i++) {
+    const weight = Math.max(0, distance[i] - mean);
+    varX += weight * (i % width + 0.5 - cx) ** 2;
+    varY += weight * (Math.floor(i / width) + 0.5 - cy) ** 2;
+  }
+  const spreadX = 2 * Math.sqrt(varX / sum);
+  const spreadY = 2 * Math.sqrt(varY / sum);
+  return { x: (cx - spreadX) / scale, y: (cy - spreadY) / scale, width: 2 * spreadX / scale, height: 2 * spreadY / scale };
+};
+
+// --- Framing ---
+
+const detectFaces = async (video: HTMLVideoElement, thumbnail: () => Thumbnail): Promise<Rect[]> => {
+  const detector = getFaceDetector();
+  if (detector) {
+    try {
+      const found = await detector.detect(video);
+      return found.map(({ boundingBox: { x, y, width, height } }) => ({ x, y, width, height }));
+    } catch (err) {
+      // Some platforms expose the API without a working backend
+      console.warn("FaceDetector failed, falling back to skin tones", err);
+      faceDetector = null;
+    }
+  }
+  return findSkinFaces(thumbnail());
+};
+
+const union = (rects: Rect[]): Rect => {
+  const left = Math.min(...rects.map(r => r.x));
+  const top = Math.min(...rects.map(r => r.y));
+  const right = Math.max(...rects.map(r => r.x + r.width));
+  const bottom = Math.max(...rects.map(r => r.y + r.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+export const centerCrop = (width: number, height: number): Crop => {
+  const size = Math.min(width, height);
+  return { sx: (width - size) / 2, sy: (height - size) / 2, size };
+};
+
+// The largest square with the subject in the middle (faces a little above
+// it), as far as the edges of the frame allow
+const cropAround = (width: number, height: number, subject: Rect | null, isFace: boolean): Crop => {
+  const crop = centerCrop(width, height);
+  if (!subject) return crop;
+  const clamp = (value: number, max: number) => Math.min(max, Math.max(0, value));
+  return {
+    sx: clamp(subject.x + subject.width / 2 - crop.size / 2, width - crop.size),
+    sy: clamp(subject.y + subject.height / 2 - crop.size * (isFace ? FACE_LINE : 0.5), height - crop.size),
+    size: crop.size,
+  };
+};
+
+// Partly in the crop but not comfortably inside it. Detectors clip faces at
+// the frame edge, so this also catches faces cut off by the camera itself.
+const isCutOff = (face: Rect, { sx, sy, size }: Crop): boolean => {
+  const overlaps = face.x < sx + size && face.x + face.width > sx && face.y < sy + size && face.y + face.height > sy;
+  const inset = size * CUT_OFF_TOLERANCE;
+  const isInside = face.x >= sx + inset && face.y >= sy + inset
+    && face.x + face.width <= sx + size - inset && face.y + face.height <= sy + size - inset;
+  return overlaps && !isInside;
+};
+
+/** Finds the subjects in the video's current frame and the crop that frames them. */
+export const analyzeFrame = async (video: HTMLVideoElement): Promise<Framing> => {
+  const { videoWidth: width, videoHeight: height } = video;
+  let thumbnail: Thumbnail | null = null;
+  const getThumbnail = () => thumbnail || (thumbnail = readThumbnail(video));
+
+  const faces = await detectFaces(video, getThumbnail);
+  const subject = faces.length > 0 ? union(faces) : findSalientRegion(getThumbnail());
+  const crop = cropAround(width, height, subject, faces.length > 0);
+  return { crop, faces, isCutOff: faces.some(face => isCutOff(face, crop)) };
+};
+
+/** Moves the viewfinder part of the way to the target crop, so reframing glides instead of jumping. */
+export const easeCrop = (from: Crop, to: Crop): Crop => {
+  if (from.size !== to.size) return to; // The camera changed
+  return { sx: from.sx + (to.sx - from.sx) * EASE, sy: from.sy + (to.sy - from.sy) * EASE, size: to.size };
+};
+
+/** Faces as fractions of the cropped photo, mirrored like it. Faces outside the crop are left out. */
+export const facesInCrop = (faces: Rect[], { sx, sy, size }: Crop, mirror: boolean): FaceBox[] =>
+  faces.flatMap(face => {
+    const left = Math.max(0, (face.x - sx) / size);
+    const right = Math.min(1, (face.x + face.width - sx) / size);
+    const top = Math.max(0, (face.y - sy) / size);
+    const bottom = Math.min(1, (face.y + face.height - sy) / size);
+    if (right <= left || bottom <= top) return [];
+    return [{ x: mirror ? 1 - right : left, y: top, width: right - left, height: bottom - top }];
+  });
@@ -0,0 +1,118 @@
+// Camera access: device listing, constraints and turning getUserMedia
+// failures into states the UI can explain and retry.
+
+export type FacingMode = 'user' | 'environment';
+
+export type CameraErrorKind = 'permission-denied' | 'device-busy' | 'no-device' | 'unknown';
+
+export interface CameraSettings {
+  deviceId: string | null; // null = pick by facing mode
+  facingMode: FacingMode;
+  resolution: number; // Ideal length of the short side, in px
+}
+
+export const RESOLUTIONS = [
+  { label: 'Low (480p)', value: 480 },
+  { label: 'Standard (720p)', value: 720 },
+  { label: 'High (1080p)', value: 1080 },
+];
+
+export const CAMERA_ERROR_MESSAGES: Record<CameraErrorKind, string> = {
+  'permission-denied': 'Camera blocked. Allow access in browser settings.',
+  'device-busy': 'Camera is busy in another app.',
+  'no-device': 'No camera found.',
+  'unknown': 'Camera not available.',
+};
+
+const SETTINGS_KEY = 'bao.camera';
+
+const DEFAULT_SETTINGS: CameraSettings = {
+  deviceId: null,
+  facingMode: 'user',
+  resolution: 720,
+};
+
+export const getCameraSettings = (): CameraSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const setCameraSettings = (settings: CameraSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const classifyCameraError = (error: unknown): CameraErrorKind => {
+  const name = (error as { name?: string })?.name;
+  switch (name) {
+    case 'NotAllowedError':
+    case 'PermissionDeniedError':
+    case 'SecurityError':
+      return 'permission-denied';
+    case 'NotReadableError':
+    case 'TrackStartError':
+    case 'AbortError':
+      return 'device-busy';
+    case 'NotFoundError':
+    case 'DevicesNotFoundError':
+    case 'OverconstrainedError':
+      return 'no-device';
+    default:
+      return 'unknown';
+  }
+};
+
+export const listCameras = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'videoinput');
+};
+
+/**
+ * Opens the camera described by `settings`. If the exact constraints can't be
+ * met (e.g. a saved device was unplugged) it falls back to any camera; other
+ * failures (permission, busy) are thrown for the caller to classify.
+ */
+export const openCamera = async (settings: CameraSettings): Promise<MediaStream> => {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new DOMException('getUserMedia is not supported', 'NotFoundError');
+  }
+
+  const video: MediaTrackConstraints = {
+    width: { ideal: settings.resolution },
+    height: { ideal: settings.resolution },
+    ...(settings.deviceId
+      ? { deviceId: { exact: settings.deviceId } }
+      : { facingMode: settings.facingMode }),
+  };
+
+  try {
+    return await navigator.mediaDevices.getUserMedia({ video });
+  } catch (err) {
+    if (classifyCameraError(err) !== 'no-device') throw err;
+    console.warn("Preferred camera constraints failed, trying fallback...", err);
+    // Fallback: Accept any camera available
+    return navigator.mediaDevices.getUserMedia({ video: true });
+  }
+};
+
+/**
+ * Whether the stream faces the user, and so should be mirrored. Laptop
+ * webcams usually don't report a facing mode; treat those as user-facing.
+ */
+export const isUserFacing = (stream: MediaStream, settings: CameraSettings): boolean => {
+  const facing = stream.getVideoTracks()[0]?.getSettings().facingMode;
+  if (facing) return facing === 'user';
+  return settings.deviceId ? true : settings.facingMode === 'user';
+};
+
+/** Microphone for live clips. Opened separately so a refusal never costs the camera. */
+export const openMicrophone = async (): Promise<MediaStream> => {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new DOMException('getUserMedia is not supported', 'NotFoundError');
+  }
+  return navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } });
+};
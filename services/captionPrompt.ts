@@ -0,0 +1,120 @@
+import { CaptionPersonaId, CaptionStyle, FilmStockId } from '../types.ts';
+import { getFilmStock } from './filmStocks.ts';
+
+// Caption prompts are assembled from small template sections so every
+// provider asks for the same thing: who is writing (persona), what to write,
+// and in which language.
+
+export interface CaptionPersona {
+  id: CaptionPersonaId;
+  label: string;
+  role: string; // Who the model is
+  task: string; // What to write about the scene
+  format: string; // Length and shape of the answer
+}
+
+export const CAPTION_PERSONAS: CaptionPersona[] = [
+  {
+    id: 'nostalgic',
+    label: 'Nostalgic',
+    role: 'You are a warm, nostalgic, and poetic AI assistant inside a retro camera.',
+    task: 'Analyze the provided image and generate a SHORT, warm, 1-sentence blessing, memory, or nice comment about the scene.',
+    format: 'Limit the response to maximum 10-12 words.',
+  },
+  {
+    id: 'poetic',
+    label: 'Poetic',
+    role: 'You are a lyrical poet who lives inside a retro camera.',
+    task: 'Write one vivid, image-rich line of free verse about the scene, leaning on metaphor rather than description.',
+    format: 'Limit the response to maximum 14 words.',
+  },
+  {
+    id: 'funny',
+    label: 'Funny',
+    role: 'You are a witty, good-natured comedian inside a retro camera.',
+    task: 'Write a playful one-liner about the scene. Keep it kind: tease the situation, never the people.',
+    format: 'Limit the response to maximum 12 words.',
+  },
+  {
+    id: 'haiku',
+    label: 'Haiku',
+    role: 'You are a haiku master inside a retro camera.',
+    task: 'Write a haiku about the scene, with a seasonal or natural image where it fits.',
+    format: 'Exactly three short lines (roughly 5-7-5 syllables), separated by line breaks.',
+  },
+  {
+    id: 'factual',
+    label: 'Description',
+    role: 'You are a precise photo archivist.',
+    task: 'Describe plainly what the photo shows: the main subjects, the setting and what is happening. No opinions or embellishment.',
+    format: 'One sentence, maximum 15 words.',
+  },
+  {
+    id: 'hashtags',
+    label: 'Hashtags',
+    role: 'You are a social media assistant inside a retro camera.',
+    task: 'Write a set of hashtags that capture the scene, its mood and the occasion.',
+    format: 'Reply with 4-6 hashtags separated by single spaces and nothing else.',
+  },
+];
+
+export const getCaptionPersona = (id: CaptionPersonaId): CaptionPersona =>
+  CAPTION_PERSONAS.find(p => p.id === id) || CAPTION_PERSONAS[0];
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+  persona: 'nostalgic',
+  language: null,
+  hint: '',
+};
+
+const MAX_HINT_LENGTH = 200;
+
+// Human-readable language name next to the tag; models follow "Japanese (ja)" more reliably than "ja"
+export const describeLanguage = (locale: string): string => {
+  try {
+    const name = new Intl.DisplayNames(['en'], { type: 'language' }).of(locale);
+    return name && name !== locale ? `${name} (${locale})` : locale;
+  } catch {
+    return locale;
+  }
+};
+
+// --- Sections ---
+
+const describeSequence = (frameCount: number) => {
+  if (frameCount <= 1) return '';
+  return `The ${frameCount} images are one photo-booth strip shot in quick succession; write ONE caption for the whole sequence.`;
+};
+
+const describeFilm = (filmStock?: FilmStockId) => {
+  if (!filmStock || filmStock === 'none') return '';
+  return `The photo was shot with a "${getFilmStock(filmStock).label}" film look; let that mood color your words.`;
+};
+
+const describeHint = (hint: string) => {
+  const cleaned = hint.replace(/\s+/g, ' ').trim().slice(0, MAX_HINT_LENGTH);
+  if (!cleaned) return '';
+  return `Context from the photographer: "${cleaned}". Weave it in where it fits what you see.`;
+};
+
+export interface CaptionPromptContext {
+  locale: string; // Already resolved: the style's language or the browser's
+  persona: CaptionPersonaId;
+  hint: string;
+  filmStock?: FilmStockId;
+  frameCount: number;
+}
+
+export const buildCaptionPrompt = ({ locale, persona, hint, filmStock, frameCount }: CaptionPromptContext): string => {
+  const template = getCaptionPersona(persona);
+  return [
+    template.role,
+    describeSequence(frameCount),
+    template.task,
+    describeFilm(filmStock),
+    describeHint(hint),
+    template.format,
+    `The output MUST be in this language: ${describeLanguage(locale)}.`,
+    'Do not include quotes.',
+  ].filter(Boolean).join('\n');
+};
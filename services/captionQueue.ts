@@ -0,0 +1,220 @@
+import { PhotoTagId } from '../types.ts';
+import { CaptionSource, generateCaption, generateTags, getSelectedProviderId } from './captionService.ts';
+
+// All caption requests go through here: at most MAX_CONCURRENT run at once,
+// transient failures (429 / 5xx / timeouts) are retried with exponential
+// backoff, identical requests are answered from a cache, and a photo's jobs
+// can be cancelled when the photo goes away. Tagging for search rides along
+// as a second kind of job.
+
+const MAX_CONCURRENT = 2;
+const MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 1000;
+const ATTEMPT_TIMEOUT_MS = 20000;
+const CACHE_SIZE = 100;
+
+export class CaptionCancelledError extends Error {
+  constructor() {
+    super('Caption request cancelled');
+    this.name = 'CaptionCancelledError';
+  }
+}
+
+class CaptionTimeoutError extends Error {
+  constructor() {
+    super('Caption request timed out');
+    this.name = 'CaptionTimeoutError';
+  }
+}
+
+// Each kind of job and what it resolves to
+interface JobResults {
+  caption: string;
+  tags: PhotoTagId[] | null; // null if the provider can't tag images
+}
+
+type JobKind = keyof JobResults;
+
+// What each kind of job calls, once per attempt
+const GENERATORS: { [K in JobKind]: (source: CaptionSource, signal: AbortSignal) => Promise<JobResults[K]> } = {
+  caption: generateCaption,
+  tags: generateTags,
+};
+
+interface Job<K extends JobKind> {
+  photoId: string;
+  kind: K; // A photo has at most one job of each kind
+  source: CaptionSource;
+  force: boolean;
+  controller: AbortController;
+  resolve: (result: JobResults[K]) => void;
+  reject: (error: unknown) => void;
+}
+
+// A caption job or a tag job; `kind` says which result `resolve` takes
+type CaptionJob = { [K in JobKind]: Job<K> }[JobKind];
+
+const waiting: CaptionJob[] = [];
+const running = new Map<string, CaptionJob>(); // By jobKey; cancelled jobs leave at once
+let inFlight = 0; // Attempts that haven't settled, cancelled or not; these hold the slots
+const cache = new Map<string, unknown>(); // Insertion order doubles as LRU order
+
+const jobKey = (photoId: string, kind: JobKind) => `${kind}:${photoId}`;
+
+// --- Cache ---
+
+const hashText = async (text: string): Promise<string> => {
+  const bytes = new TextEncoder().encode(text);
+  if (crypto?.subtle) {
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+  }
+  // crypto.subtle needs a secure context; FNV-1a is plenty for a local cache
+  let hash = 0x811c9dc5;
+  for (const b of bytes) hash = Math.imul(hash ^ b, 0x01000193);
+  return `fnv-${(hash >>> 0).toString(16)}-${bytes.length}`;
+};
+
+// Same pixels + same provider + same style = same caption request. Tags don't depend on the style.
+const cacheKey = async (kind: JobKind, { dataUrl, filmStock, layout, frameCount, captionStyle }: CaptionSource) => {
+  const image = await hashText(dataUrl);
+  return kind === 'tags'
+    ? JSON.stringify([kind, image, getSelectedProviderId(), layout, frameCount])
+    : JSON.stringify([image, getSelectedProviderId(), filmStock, layout, frameCount, captionStyle]);
+};
+
+const remember = (key: string, result: unknown) => {
+  cache.delete(key);
+  cache.set(key, result);
+  if (cache.size > CACHE_SIZE) cache.delete(cache.keys().next().value!);
+};
+
+// --- Retry helpers ---
+
+const isRetryable = (error: unknown): boolean => {
+  if (error instanceof CaptionTimeoutError) return true;
+  const status = (error as { status?: number })?.status;
+  return status === 429 || (typeof status === 'number' && status >= 500);
+};
+
+const sleep = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new CaptionCancelledError());
+  }, { once: true });
+});
+
+// One attempt, aborted by whichever comes first: the job's cancellation or the timeout
+const attempt = async <K extends JobKind>(job: Job<K>): Promise<JobResults[K]> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => { timedOut = true; controller.abort(); }, ATTEMPT_TIMEOUT_MS);
+  const cancel = () => controller.abort();
+  job.controller.signal.addEventListener('abort', cancel, { once: true });
+
+  try {
+    return await GENERATORS[job.kind](job.source, controller.signal);
+  } catch (error) {
+    if (job.controller.signal.aborted) throw new CaptionCancelledError();
+    if (timedOut) throw new CaptionTimeoutError();
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    job.controller.signal.removeEventListener('abort', cancel);
+  }
+};
+
+const runJob = async <K extends JobKind>(job: Job<K>): Promise<JobResults[K]> => {
+  const key = await cacheKey(job.kind, job.source);
+  const cached = cache.get(key) as JobResults[K] | undefined; // The key includes the kind
+  if (cached !== undefined && !job.force) return cached;
+
+  for (let retry = 0; ; retry++) {
+    try {
+      const result = await attempt(job);
+      remember(key, result);
+      return result;
+    } catch (error) {
+      if (retry >= MAX_RETRIES || !isRetryable(error)) throw error;
+      const delay = BASE_BACKOFF_MS * 2 ** retry * (0.75 + Math.random() * 0.5);
+      console.warn(`${job.kind === 'tags' ? 'Tagging' : 'Caption'} attempt ${retry + 1} failed, retrying in ${Math.round(delay)}ms`, error);
+      await sleep(delay, job.controller.signal);
+    }
+  }
+};
+
+// --- Scheduling ---
+
+// A provider may ignore the abort and answer anyway; a cancelled job's result is dropped
+const settle = <K extends JobKind>(job: Job<K>) => runJob(job).then(
+  result => job.controller.signal.aborted ? job.reject(new CaptionCancelledError()) : job.resolve(result),
+  job.reject
+);
+
+const pump = () => {
+  while (inFlight < MAX_CONCURRENT && waiting.length > 0) {
+    const job = waiting.shift()!;
+    const key = jobKey(job.photoId, job.kind);
+    running.set(key, job);
+    inFlight++;
+    settle(job).finally(() => {
+      inFlight--;
+      if (running.get(key) === job) running.delete(key);
+      pump();
+    });
+  }
+};
+
+const cancelJob = (photoId: string, kind: JobKind) => {
+  const index = waiting.findIndex(job => job.photoId === photoId && job.kind === kind);
+  if (index >= 0) {
+    const [job] = waiting.splice(index, 1);
+    job.reject(new CaptionCancelledError());
+  }
+  const key = jobKey(photoId, kind);
+  const active = running.get(key);
+  if (active) {
+    running.delete(key); // Its slot frees once the attempt has actually stopped
+    active.controller.abort();
+  }
+};
+
+/** Stops any pending or running caption and tag jobs for the photo. Their promises reject with CaptionCancelledError. */
+export const cancelCaption = (photoId: string) => {
+  cancelJob(photoId, 'caption');
+  cancelJob(photoId, 'tags');
+};
+
+const enqueue = <K extends JobKind>(photoId: string, kind: K, source: CaptionSource, force: boolean): Promise<JobResults[K]> => {
+  cancelJob(photoId, kind);
+  return new Promise((resolve, reject) => {
+    const job: Job<K> = { photoId, kind, source, force, controller: new AbortController(), resolve, reject };
+    waiting.push(job as CaptionJob); // K is one kind, which TypeScript cannot see through
+    pump();
+  });
+};
+
+/**
+ * Queues a caption for the photo, replacing any caption job it already has.
+ * `force` skips the cache, for when the user explicitly asks for a new caption.
+ */
+export const requestCaption = (photoId: string, source: CaptionSource, { force = false } = {}): Promise<string> =>
+  enqueue(photoId, 'caption', source, force);
+
+/**
+ * Queues search tags for the photo. Resolves to null if the selected
+ * provider can't tag images.
+ */
+export const requestTags = (photoId: string, source: CaptionSource): Promise<PhotoTagId[] | null> =>
+  enqueue(photoId, 'tags', source, false);
+
+/** Short, user-facing explanation of a failed caption job. */
+export const describeCaptionError = (error: unknown): string => {
+  if (error instanceof CaptionTimeoutError) return 'The caption service timed out.';
+  const status = (error as { status?: number })?.status;
+  if (status === 429) return 'Too many requests. Try again in a minute.';
+  if (status === 401 || status === 403) return 'The caption service rejected the API key.';
+  if (typeof status === 'number' && status >= 500) return 'The caption service is having trouble.';
+  return error instanceof Error && error.message ? error.message : 'Caption failed.';
+};
@@ -0,0 +1,98 @@
+import { CaptionProvider, CaptionStyle, PhotoData, PhotoTagId } from '../types.ts';
+import { geminiProvider } from './geminiService.ts';
+import { openAiCompatibleProvider } from './openAiCompatibleService.ts';
+import { offlineProvider } from './offlineCaptionService.ts';
+import { splitStrip } from './photoStrip.ts';
+import { DEFAULT_CAPTION_STYLE } from './captionPrompt.ts';
+
+const SELECTED_PROVIDER_KEY = 'bao.captionProvider';
+const CAPTION_STYLE_KEY = 'bao.captionStyle';
+
+// --- Registry ---
+
+const providers = new Map<string, CaptionProvider>();
+
+export const registerCaptionProvider = (provider: CaptionProvider) => {
+  providers.set(provider.id, provider);
+};
+
+export const getCaptionProviders = (): CaptionProvider[] => [...providers.values()];
+
+registerCaptionProvider(geminiProvider);
+registerCaptionProvider(openAiCompatibleProvider);
+registerCaptionProvider(offlineProvider);
+
+// --- Selector ---
+
+export const getSelectedProviderId = (): string => {
+  const stored = localStorage.getItem(SELECTED_PROVIDER_KEY);
+  if (stored && providers.has(stored)) return stored;
+  return geminiProvider.isAvailable() ? geminiProvider.id : offlineProvider.id;
+};
+
+export const setSelectedProviderId = (id: string) => {
+  if (!providers.has(id)) throw new Error(`Unknown caption provider: ${id}`);
+  localStorage.setItem(SELECTED_PROVIDER_KEY, id);
+};
+
+// --- Style for new photos ---
+
+export const getDefaultCaptionStyle = (): CaptionStyle => {
+  try {
+    const raw = localStorage.getItem(CAPTION_STYLE_KEY);
+    return raw ? { ...DEFAULT_CAPTION_STYLE, ...JSON.parse(raw) } : DEFAULT_CAPTION_STYLE;
+  } catch {
+    return DEFAULT_CAPTION_STYLE;
+  }
+};
+
+export const setDefaultCaptionStyle = (style: CaptionStyle) => {
+  localStorage.setItem(CAPTION_STYLE_KEY, JSON.stringify(style));
+};
+
+/** The language a caption is written in: the style's own, or the browser's. */
+export const captionLocale = (style: CaptionStyle): string => style.language || navigator.language || 'en-US';
+
+// --- Single attempt; callers go through captionQueue.ts ---
+
+export type CaptionSource = Pick<PhotoData, 'dataUrl' | 'capturedAt' | 'filmStock' | 'layout' | 'frameCount' | 'captionStyle'>;
+
+export const generateCaption = async (
+  { dataUrl, capturedAt, filmStock, layout, frameCount, captionStyle }: CaptionSource,
+  signal?: AbortSignal
+): Promise<string> => {
+  // Sequences are captioned from their individual frames
+  const frames = layout === 'strip' ? await splitStrip(dataUrl, frameCount) : [dataUrl];
+
+  const request = {
+    dataUrl,
+    frames,
+    capturedAt,
+    filmStock,
+    style: captionStyle,
+    locale: captionLocale(captionStyle),
+  };
+
+  const provider = providers.get(getSelectedProviderId()) || offlineProvider;
+  if (!provider.isAvailable()) throw new Error(`${provider.label} is not configured`);
+  return provider.generate(request, signal);
+};
+
+export type TagSource = Pick<PhotoData, 'dataUrl' | 'layout' | 'frameCount'>;
+
+/**
+ * Asks the selected provider which PHOTO_TAGS apply. Resolves to null when
+ * the provider can't tag (the offline one has no vision), so the photo can
+ * be tagged later with another provider.
+ */
+export const generateTags = async (
+  { dataUrl, layout, frameCount }: TagSource,
+  signal?: AbortSignal
+): Promise<PhotoTagId[] | null> => {
+  const provider = providers.get(getSelectedProviderId()) || offlineProvider;
+  if (!provider.tag) return null;
+  if (!provider.isAvailable()) throw new Error(`${provider.label} is not configured`);
+
+  const frames = layout === 'strip' ? await splitStrip(dataUrl, frameCount) : [dataUrl];
+  return provider.tag({ frames }, signal);
+};
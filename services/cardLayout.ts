@@ -0,0 +1,62 @@
+import { PhotoData, Position, WallItem } from '../types.ts';
+import { getDecorationSize } from './decorations.ts';
+import { getFrameTemplate } from './frameTemplates.ts';
+
+// Card geometry per layout variant, shared by the on-screen card, drag
+// placement and the export renderer. Single photos take theirs from their
+// frame template (services/frameTemplates.ts).
+
+export interface CardLayout {
+  width: number;
+  height: number;
+  padding: { top: number; side: number; bottom: number };
+  imageHeight: number;
+  captionGap: number; // Space between the image window and the date/caption
+}
+
+// Photo-booth strip: square frames stacked vertically with thin white gaps
+const STRIP_WIDTH = 150;
+const STRIP_PADDING = 12;
+export const STRIP_GAP_RATIO = 0.05; // Gap between frames, relative to frame size
+const STRIP_CAPTION_AREA = 84;
+
+export const stripImageHeight = (frameWidth: number, frameCount: number) => {
+  return frameWidth * frameCount + Math.round(frameWidth * STRIP_GAP_RATIO) * (frameCount - 1);
+};
+
+export const getCardLayout = (photo: Pick<PhotoData, 'layout' | 'frameCount' | 'frameTemplate'>): CardLayout => {
+  if (photo.layout !== 'strip') return getFrameTemplate(photo.frameTemplate);
+
+  const imageWidth = STRIP_WIDTH - STRIP_PADDING * 2;
+  const imageHeight = stripImageHeight(imageWidth, photo.frameCount);
+  return {
+    width: STRIP_WIDTH,
+    height: STRIP_PADDING + imageHeight + STRIP_CAPTION_AREA,
+    padding: { top: STRIP_PADDING, side: STRIP_PADDING, bottom: 24 },
+    imageHeight,
+    captionGap: 8,
+  };
+};
+
+// --- Any wall item ---
+
+/** Unscaled size of a photo card or decoration. */
+export const getItemSize = (item: WallItem): { width: number; height: number } => {
+  return item.kind === 'photo' ? getCardLayout(item) : getDecorationSize(item);
+};
+
+/** Corners of the item as placed on the wall (position, rotation and scale applied). */
+export const getItemCorners = (item: WallItem): Position[] => {
+  // Items rotate and scale around their center; `position` is the unscaled top-left
+  const { width, height } = getItemSize(item);
+  const cx = item.position.x + width / 2;
+  const cy = item.position.y + height / 2;
+  const rad = item.rotation * Math.PI / 180;
+  const cos = Math.cos(rad) * item.scale;
+  const sin = Math.sin(rad) * item.scale;
+  return [[-1, -1], [1, -1], [1, 1], [-1, 1]].map(([sx, sy]) => {
+    const dx = sx * width / 2;
+    const dy = sy * height / 2;
+    return { x: cx + dx * cos - dy * sin, y: cy + dx * sin + dy * cos };
+  });
+};
@@ -0,0 +1,154 @@
+import { Decoration, InkItem, Position, TapePattern, WallItemBase } from '../types.ts';
+
+// Stickers, washi tape, push-pins and ink doodles: wall items that aren't
+// photos. They sit in the same z-order as the photos and drag the same way;
+// this module has their presets, geometry and validation.
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/** What the palette offers: a decoration minus its placement. */
+export type DecorationTemplate = DistributiveOmit<Exclude<Decoration, InkItem>, keyof WallItemBase>;
+
+export const STICKER_EMOJIS = ['⭐', '❤️', '🌸', '☀️', '🌈', '✨', '🎉', '🍓', '🐱', '🍀', '🎈', '💌'];
+
+export const TAPE_STYLES: { color: string; pattern: TapePattern }[] = [
+  { color: '#f9a8d4', pattern: 'solid' },
+  { color: '#93c5fd', pattern: 'stripes' },
+  { color: '#fde68a', pattern: 'dots' },
+  { color: '#86efac', pattern: 'stripes' },
+  { color: '#c4b5fd', pattern: 'dots' },
+  { color: '#d6d3d1', pattern: 'solid' },
+];
+
+export const PIN_COLORS = ['#ef4444', '#3b82f6', '#eab308', '#22c55e', '#f5f5f4'];
+
+export const INK_COLORS = ['#1c1917', '#dc2626', '#2563eb', '#16a34a', '#ffffff'];
+export const INK_WIDTHS = [2, 4, 8];
+
+export const STICKER_SIZE = 72;
+export const PIN_SIZE = 28;
+export const TAPE_WIDTH = 30;
+const TAPE_LENGTH = 120;
+const MIN_INK_POINT_GAP = 2; // px between recorded points; denser input adds nothing visible
+
+export const DECORATION_LABELS: Record<Decoration['kind'], string> = {
+  sticker: 'Sticker',
+  tape: 'Washi tape',
+  pin: 'Push pin',
+  ink: 'Ink doodle',
+};
+
+export const stickerTemplate = (emoji: string): DecorationTemplate => ({ kind: 'sticker', emoji });
+export const tapeTemplate = ({ color, pattern }: { color: string; pattern: TapePattern }): DecorationTemplate =>
+  ({ kind: 'tape', color, pattern, length: TAPE_LENGTH });
+export const pinTemplate = (color: string): DecorationTemplate => ({ kind: 'pin', color });
+
+// Photo ids are Date.now() strings; the prefix keeps decoration ids from ever clashing
+const newDecorationId = () => `deco-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+
+/** Unscaled size of a decoration; `position` is its top-left. */
+export const getDecorationSize = (item: Decoration): { width: number; height: number } => {
+  switch (item.kind) {
+    case 'sticker':
+      return { width: STICKER_SIZE, height: STICKER_SIZE };
+    case 'pin':
+      return { width: PIN_SIZE, height: PIN_SIZE };
+    case 'tape':
+      return { width: item.length, height: TAPE_WIDTH };
+    case 'ink':
+      // Points are laid out with a margin of one stroke width on every side
+      return {
+        width: Math.max(...item.points.map(p => p.x)) + item.width,
+        height: Math.max(...item.points.map(p => p.y)) + item.width,
+      };
+  }
+};
+
+/** A new decoration centered on `center` (world coordinates). */
+export const createDecoration = (template: DecorationTemplate, center: Position, zIndex: number): Decoration => {
+  // Tape and stickers go on slightly askew, like by hand; pins are round anyway
+  const tilt = template.kind === 'tape' ? 30 : template.kind === 'sticker' ? 16 : 0;
+  const item = {
+    ...template,
+    id: newDecorationId(),
+    position: { x: 0, y: 0 },
+    rotation: Math.round((Math.random() - 0.5) * tilt),
+    scale: 1,
+    zIndex,
+  } as Decoration;
+  const { width, height } = getDecorationSize(item);
+  return { ...item, position: { x: center.x - width / 2, y: center.y - height / 2 } };
+};
+
+/** Drops points too close to the last kept one, so long strokes stay small. */
+export const simplifyStroke = (points: Position[]): Position[] => {
+  const kept: Position[] = [];
+  points.forEach((p, i) => {
+    const last = kept[kept.length - 1];
+    if (!last || i === points.length - 1 || Math.hypot(p.x - last.x, p.y - last.y) >= MIN_INK_POINT_GAP) kept.push(p);
+  });
+  return kept;
+};
+
+/** Turns a stroke drawn in world coordinates into an ink item. */
+export const createInkStroke = (points: Position[], color: string, width: number, zIndex: number): InkItem => {
+  const position = {
+    x: Math.min(...points.map(p => p.x)) - width,
+    y: Math.min(...points.map(p => p.y)) - width,
+  };
+  return {
+    kind: 'ink',
+    id: newDecorationId(),
+    color,
+    width,
+    points: simplifyStroke(points).map(p => ({ x: p.x - position.x, y: p.y - position.y })),
+    position,
+    rotation: 0,
+    scale: 1,
+    zIndex,
+  };
+};
+
+/** Outline of a tape strip with torn, zigzag ends; shared by the card on screen and the export. */
+export const tapeOutline = (length: number): Position[] => {
+  const teeth = 5;
+  const depth = 4;
+  const step = TAPE_WIDTH / teeth;
+  const right: Position[] = [];
+  const left: Position[] = [];
+  for (let i = 0; i <= teeth * 2; i++) {
+    const y = i * step / 2;
+    const inset = i % 2 === 1 ? depth : 0;
+    right.push({ x: length - inset, y });
+    left.push({ x: inset, y });
+  }
+  return [...right, ...left.reverse()];
+};
+
+// --- Validation (stored records and wall bundles) ---
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null;
+const isNumber = (v: unknown): v is number => Number.isFinite(v);
+const isPositive = (v: unknown): v is number => isNumber(v) && v > 0;
+const isPosition = (v: unknown): v is Position => isRecord(v) && isNumber(v.x) && isNumber(v.y);
+const isColor = (v: unknown): v is string => typeof v === 'string' && v.length > 0 && v.length < 64;
+
+const KIND_CHECKS: Record<Decoration['kind'], (v: Record<string, unknown>) => boolean> = {
+  sticker: v => typeof v.emoji === 'string' && v.emoji.length > 0 && v.emoji.length <= 16,
+  tape: v => isColor(v.color) && ['solid', 'stripes', 'dots'].some(pattern => pattern === v.pattern) && isPositive(v.length),
+  pin: v => isColor(v.color),
+  ink: v => isColor(v.color) && isPositive(v.width)
+    && Array.isArray(v.points) && v.points.length > 0 && v.points.every(isPosition),
+};
+
+const isKind = (v: unknown): v is Decoration['kind'] =>
+  typeof v === 'string' && Object.prototype.hasOwnProperty.call(KIND_CHECKS, v);
+
+export const isDecoration = (value: unknown): value is Decoration =>
+  isRecord(value) && isKind(value.kind)
+  && typeof value.id === 'string' && value.id.length > 0
+  && isPosition(value.position)
+  && isNumber(value.rotation)
+  && isPositive(value.scale)
+  && isNumber(value.zIndex)
+  && KIND_CHECKS[value.kind](value);
@@ -0,0 +1,166 @@
+// Instant film doesn't fade in, it develops: the frame starts as a near-black
+// cyan fog, cool tones surface first, warm tones and contrast come in last.
+// `PhotoData.developProgress` is the elapsed fraction of development time
+// (0..1). The configured curve maps it to how far the chemistry has got.
+
+export type DevelopmentCurve = 'linear' | 'ease-out' | 'instant-film';
+
+export interface DevelopmentConfig {
+  durationMs: number;
+  curve: DevelopmentCurve;
+}
+
+const CONFIG_KEY = 'bao.development';
+
+const DEFAULT_CONFIG: DevelopmentConfig = {
+  durationMs: 15000,
+  curve: 'instant-film',
+};
+
+export const DEVELOPMENT_CURVES: { id: DevelopmentCurve; label: string }[] = [
+  { id: 'instant-film', label: 'Instant film' },
+  { id: 'ease-out', label: 'Fast, then slow' },
+  { id: 'linear', label: 'Even' },
+];
+
+export const DEVELOPMENT_DURATIONS = [5000, 15000, 30000, 60000, 180000]; // ms; real instant film takes minutes
+
+// How much shaking speeds development up at full agitation (1 = twice as fast)
+export const SHAKE_BOOST = 1.5;
+// Agitation halves roughly every this many ms once the shaking stops
+const AGITATION_HALF_LIFE_MS = 500;
+
+const CURVES: Record<DevelopmentCurve, (t: number) => number> = {
+  'linear': (t) => t,
+  'ease-out': (t) => 1 - Math.pow(1 - t, 3),
+  // Slow start while the reagent spreads, quick middle, long tail
+  'instant-film': (t) => {
+    const logistic = (x: number) => 1 / (1 + Math.exp(-9 * (x - 0.4)));
+    return (logistic(t) - logistic(0)) / (logistic(1) - logistic(0));
+  },
+};
+
+const isCurve = (value: unknown): value is DevelopmentCurve => DEVELOPMENT_CURVES.some(curve => curve.id === value);
+
+// Stored values that don't make sense (hand-edited, or from another version) fall back to the defaults
+export const getDevelopmentConfig = (): DevelopmentConfig => {
+  try {
+    const raw = localStorage.getItem(CONFIG_KEY);
+    const stored = raw ? JSON.parse(raw) : {};
+    return {
+      durationMs: Number.isFinite(stored.durationMs) && stored.durationMs > 0 ? stored.durationMs : DEFAULT_CONFIG.durationMs,
+      curve: isCurve(stored.curve) ? stored.curve : DEFAULT_CONFIG.curve,
+    };
+  } catch {
+    return DEFAULT_CONFIG;
+  }
+};
+
+export const setDevelopmentConfig = (config: DevelopmentConfig) => {
+  localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+};
+
+/** Advances raw development progress by `dtMs`, faster while agitated. */
+export const advanceDevelopment = (
+  progress: number,
+  agitation: number,
+  dtMs: number,
+  config: DevelopmentConfig
+): number => {
+  const rate = (1 + agitation * SHAKE_BOOST) / config.durationMs;
+  return Math.min(1, progress + dtMs * rate);
+};
+
+export const decayAgitation = (agitation: number, dtMs: number): number => {
+  const next = agitation * Math.pow(0.5, dtMs / AGITATION_HALF_LIFE_MS);
+  return next < 0.01 ? 0 : next;
+};
+
+export const developedAmount = (progress: number, curve: DevelopmentCurve): number => {
+  return CURVES[curve](Math.max(0, Math.min(1, progress)));
+};
+
+// --- Rendering ---
+
+const MOTTLE_SIZE = 64;
+let mottleCanvas: HTMLCanvasElement | null = null;
+
+// Low-frequency blotches for uneven reagent spread, generated once
+const getMottle = (): HTMLCanvasElement => {
+  if (mottleCanvas) return mottleCanvas;
+
+  mottleCanvas = document.createElement('canvas');
+  mottleCanvas.width = MOTTLE_SIZE;
+  mottleCanvas.height = MOTTLE_SIZE;
+  const ctx = mottleCanvas.getContext('2d');
+  if (ctx) {
+    for (let i = 0; i < 40; i++) {
+      const x = Math.random() * MOTTLE_SIZE;
+      const y = Math.random() * MOTTLE_SIZE;
+      const r = 6 + Math.random() * 14;
+      const blob = ctx.createRadialGradient(x, y, 0, x, y, r);
+      blob.addColorStop(0, `rgba(8, 30, 36, ${0.4 + Math.random() * 0.4})`);
+      blob.addColorStop(1, 'rgba(8, 30, 36, 0)');
+      ctx.fillStyle = blob;
+      ctx.fillRect(0, 0, MOTTLE_SIZE, MOTTLE_SIZE);
+    }
+  }
+  return mottleCanvas;
+};
+
+/**
+ * Draws one frame of a developing photo, covering the canvas like `object-fit: cover`.
+ * `developed` is the curve output (0 = fresh from the camera, 1 = done).
+ * `agitation` (0..1) swirls the still-undeveloped reagent around.
+ */
+export const renderDevelopmentFrame = (
+  ctx: CanvasRenderingContext2D,
+  image: CanvasImageSource & { width: number; height: number },
+  developed: number,
+  agitation: number,
+  time: number
+) => {
+  const { width, height } = ctx.canvas;
+  const fog = 1 - developed;
+
+  // Cover-fit source rect
+  const scale = Math.max(width / image.width, height / image.height);
+  const sw = width / scale;
+  const sh = height / scale;
+  const sx = (image.width - sw) / 2;
+  const sy = (image.height - sh) / 2;
+
+  ctx.save();
+  ctx.clearRect(0, 0, width, height);
+
+  // 1. The latent image: dim, flat and desaturated early on
+  if ('filter' in ctx) {
+    const saturation = Math.pow(developed, 1.6);
+    const contrast = 0.55 + 0.45 * developed;
+    const brightness = 0.35 + 0.65 * developed;
+    ctx.filter = `saturate(${saturation}) contrast(${contrast}) brightness(${brightness})`;
+  }
+  ctx.drawImage(image, sx, sy, sw, sh, 0, 0, width, height);
+  ctx.filter = 'none';
+
+  // 2. Cyan cast that holds back the warm tones until late
+  ctx.globalCompositeOperation = 'multiply';
+  ctx.fillStyle = `rgba(110, 200, 215, ${Math.min(1, fog * 0.9)})`;
+  ctx.fillRect(0, 0, width, height);
+
+  // 3. Near-black fog lifting off the emulsion
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.fillStyle = `rgba(10, 32, 40, ${Math.pow(fog, 1.4) * 0.92})`;
+  ctx.fillRect(0, 0, width, height);
+
+  // 4. Uneven reagent spread; shaking sloshes it around
+  if (fog > 0.02) {
+    const swirl = agitation * 14;
+    const ox = Math.sin(time / 90) * swirl;
+    const oy = Math.cos(time / 70) * swirl;
+    ctx.globalAlpha = Math.min(1, fog * (0.7 + agitation * 0.6));
+    ctx.drawImage(getMottle(), ox - swirl, oy - swirl, width + swirl * 2, height + swirl * 2);
+  }
+
+  ctx.restore();
+};
@@ -0,0 +1,53 @@
+import { PhotoData, WallItem } from '../types.ts';
+import { CONTACT_SHEET_DPI, drawCard, ensureFontsLoaded, loadFrameImages, renderContactSheet, renderWall } from './wallRenderer.ts';
+import { createImagePdf } from './pdfWriter.ts';
+import { canvasToBlob, downloadBlob, loadImage } from './imageUtils.ts';
+import { getCardLayout } from './cardLayout.ts';
+import { renderPhotoCanvas } from './photoPipeline.ts';
+
+const PDF_POINTS_PER_INCH = 72;
+
+const timestamp = () => new Date().toISOString().slice(0, 10);
+
+export const exportWallPng = async (items: WallItem[], dpi: number, background?: string) => {
+  const canvas = await renderWall(items, dpi, background);
+  const blob = await canvasToBlob(canvas, 'image/png');
+  downloadBlob(blob, `bao-wall-${timestamp()}-${dpi}dpi.png`);
+};
+
+export const exportContactSheetPdf = async (photos: PhotoData[], wallName: string) => {
+  const title = `${wallName} · ${new Date().toLocaleDateString()}`;
+  const canvases = await renderContactSheet(photos, title);
+
+  const pages = await Promise.all(canvases.map(async canvas => {
+    const jpeg = await canvasToBlob(canvas, 'image/jpeg', 0.92);
+    return {
+      jpeg: new Uint8Array(await jpeg.arrayBuffer()),
+      pixelWidth: canvas.width,
+      pixelHeight: canvas.height,
+      widthPt: canvas.width / CONTACT_SHEET_DPI * PDF_POINTS_PER_INCH,
+      heightPt: canvas.height / CONTACT_SHEET_DPI * PDF_POINTS_PER_INCH,
+    };
+  }));
+
+  downloadBlob(createImagePdf(pages), `bao-contact-sheet-${timestamp()}.pdf`);
+};
+
+/** One card as a PNG, with the photo rendered from its original at full resolution. */
+export const exportPhotoCard = async (photo: PhotoData) => {
+  await ensureFontsLoaded([photo]);
+  const image = renderPhotoCanvas(await loadImage(photo.original), photo);
+  const [frameImage] = await loadFrameImages([photo]);
+  const { width, height, padding } = getCardLayout(photo);
+  const scale = Math.max(2, image.width / (width - padding.side * 2)); // At least as sharp as the old 2x screenshots
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+
+  ctx.scale(scale, scale);
+  drawCard(ctx, photo, image, false, frameImage);
+  downloadBlob(await canvasToBlob(canvas, 'image/png'), `polaroid-${photo.id}.png`);
+};
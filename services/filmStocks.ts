@@ -0,0 +1,253 @@
+import { FilmStockId } from '../types.ts';
+
+// Each film stock is a small pixel pipeline:
+//   saturation (+ optional mono tint) -> per-channel curves -> faded blacks
+//   -> vignette -> grain -> optional light leak overlay.
+// The same pipeline renders the viewfinder preview and the saved capture.
+
+type CurvePoints = [number, number][]; // [input, output] pairs in 0..255, sorted by input
+
+interface FilmStock {
+  id: FilmStockId;
+  label: string;
+  saturation: number; // 1 = unchanged, 0 = monochrome
+  tint?: [number, number, number]; // Multiplier applied after desaturation
+  curves?: { r?: CurvePoints; g?: CurvePoints; b?: CurvePoints; all?: CurvePoints };
+  fade: number; // 0..1, lifts the black point
+  vignette: number; // 0..1
+  grain: number; // 0..1
+  lightLeak?: boolean;
+}
+
+export const FILM_STOCKS: FilmStock[] = [
+  {
+    id: 'none',
+    label: 'Digital',
+    saturation: 1,
+    fade: 0,
+    vignette: 0,
+    grain: 0,
+  },
+  {
+    id: 'sepia',
+    label: 'Sepia',
+    saturation: 0,
+    tint: [1.08, 0.94, 0.74],
+    curves: { all: [[0, 18], [64, 60], [192, 200], [255, 240]] },
+    fade: 0.05,
+    vignette: 0.35,
+    grain: 0.08,
+  },
+  {
+    id: 'polaroid-600',
+    label: 'Faded 600',
+    saturation: 0.8,
+    curves: {
+      r: [[0, 20], [128, 138], [255, 250]],
+      g: [[0, 16], [128, 128], [255, 244]],
+      b: [[0, 36], [128, 118], [255, 226]],
+    },
+    fade: 0.12,
+    vignette: 0.25,
+    grain: 0.05,
+  },
+  {
+    id: 'bw-contrast',
+    label: 'B&W',
+    saturation: 0,
+    curves: { all: [[0, 0], [50, 24], [128, 128], [205, 235], [255, 255]] },
+    fade: 0,
+    vignette: 0.4,
+    grain: 0.14,
+  },
+  {
+    id: 'cross-process',
+    label: 'Cross',
+    saturation: 1.25,
+    curves: {
+      r: [[0, 0], [64, 48], [192, 214], [255, 255]],
+      g: [[0, 8], [64, 58], [192, 206], [255, 248]],
+      b: [[0, 42], [128, 120], [255, 196]],
+    },
+    fade: 0,
+    vignette: 0.2,
+    grain: 0.06,
+  },
+  {
+    id: 'light-leak',
+    label: 'Light Leak',
+    saturation: 0.95,
+    curves: {
+      r: [[0, 10], [128, 140], [255, 255]],
+      b: [[0, 20], [128, 120], [255, 235]],
+    },
+    fade: 0.06,
+    vignette: 0.2,
+    grain: 0.07,
+    lightLeak: true,
+  },
+];
+
+export const getFilmStock = (id: FilmStockId | undefined): FilmStock => {
+  return FILM_STOCKS.find(s => s.id === id) || FILM_STOCKS[0];
+};
+
+// --- Pipeline internals ---
+
+const buildLut = (points?: CurvePoints): Uint8ClampedArray => {
+  const lut = new Uint8ClampedArray(256);
+  if (!points || points.length === 0) {
+    for (let i = 0; i < 256; i++) lut[i] = i;
+    return lut;
+  }
+
+  const pts: CurvePoints = [
+    ...(points[0][0] > 0 ? [[0, points[0][1]] as [number, number]] : []),
+    ...points,
+    ...(points[points.length - 1][0] < 255 ? [[255, points[points.length - 1][1]] as [number, number]] : []),
+  ];
+
+  let seg = 0;
+  for (let i = 0; i < 256; i++) {
+    while (seg < pts.length - 2 && i > pts[seg + 1][0]) seg++;
+    const [x0, y0] = pts[seg];
+    const [x1, y1] = pts[seg + 1];
+    const t = x1 === x0 ? 0 : (i - x0) / (x1 - x0);
+    lut[i] = y0 + (y1 - y0) * t;
+  }
+  return lut;
+};
+
+const lutCache = new Map<FilmStockId, [Uint8ClampedArray, Uint8ClampedArray, Uint8ClampedArray]>();
+
+const getLuts = (stock: FilmStock) => {
+  let luts = lutCache.get(stock.id);
+  if (!luts) {
+    const all = buildLut(stock.curves?.all);
+    const chain = (channel?: CurvePoints) => {
+      const own = buildLut(channel);
+      return own.map(v => all[v]) as Uint8ClampedArray;
+    };
+    luts = [chain(stock.curves?.r), chain(stock.curves?.g), chain(stock.curves?.b)];
+    lutCache.set(stock.id, luts);
+  }
+  return luts;
+};
+
+// Small seeded PRNG so a given capture always gets the same grain
+const mulberry32 = (seed: number) => () => {
+  seed |= 0;
+  seed = (seed + 0x6D2B79F5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const drawLightLeak = (ctx: CanvasRenderingContext2D, width: number, height: number, random: () => number) => {
+  ctx.save();
+  ctx.globalCompositeOperation = 'screen';
+
+  // Warm bloom bleeding in from one edge
+  const fromLeft = random() > 0.5;
+  const x = fromLeft ? 0 : width;
+  const y = height * (0.2 + random() * 0.6);
+  const gradient = ctx.createRadialGradient(x, y, 0, x, y, width * 0.8);
+  gradient.addColorStop(0, 'rgba(255, 120, 40, 0.75)');
+  gradient.addColorStop(0.35, 'rgba(255, 70, 60, 0.35)');
+  gradient.addColorStop(1, 'rgba(255, 60, 80, 0)');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  // Thin streak along the top
+  const streak = ctx.createLinearGradient(0, 0, 0, height * 0.25);
+  streak.addColorStop(0, 'rgba(255, 200, 120, 0.45)');
+  streak.addColorStop(1, 'rgba(255, 200, 120, 0)');
+  ctx.fillStyle = streak;
+  ctx.fillRect(0, 0, width, height * 0.25);
+
+  ctx.restore();
+};
+
+// --- Public API ---
+
+/**
+ * Applies a film stock to the canvas contents in place.
+ * Pass a fixed seed to get reproducible grain and light leaks.
+ */
+export const applyFilmStock = (
+  canvas: HTMLCanvasElement,
+  stockId: FilmStockId | undefined,
+  seed: number = Math.floor(Math.random() * 2 ** 32)
+) => {
+  const stock = getFilmStock(stockId);
+  if (stock.id === 'none') return;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  const { width, height } = canvas;
+  const image = ctx.getImageData(0, 0, width, height);
+  const data = image.data;
+  const [lutR, lutG, lutB] = getLuts(stock);
+  const random = mulberry32(seed);
+
+  const [tintR, tintG, tintB] = stock.tint || [1, 1, 1];
+  const fadeFloor = stock.fade * 255;
+  const fadeScale = 1 - stock.fade;
+  const grainAmount = stock.grain * 255;
+  const cx = width / 2;
+  const cy = height / 2;
+  const maxDistSq = cx * cx + cy * cy;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      let r = data[i];
+      let g = data[i + 1];
+      let b = data[i + 2];
+
+      // Saturation around Rec. 601 luma
+      const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+      r = (luma + (r - luma) * stock.saturation) * tintR;
+      g = (luma + (g - luma) * stock.saturation) * tintG;
+      b = (luma + (b - luma) * stock.saturation) * tintB;
+
+      r = lutR[r < 0 ? 0 : r > 255 ? 255 : r | 0];
+      g = lutG[g < 0 ? 0 : g > 255 ? 255 : g | 0];
+      b = lutB[b < 0 ? 0 : b > 255 ? 255 : b | 0];
+
+      if (stock.fade > 0) {
+        r = fadeFloor + r * fadeScale;
+        g = fadeFloor + g * fadeScale;
+        b = fadeFloor + b * fadeScale;
+      }
+
+      if (stock.vignette > 0) {
+        const dx = x - cx;
+        const dy = y - cy;
+        const falloff = 1 - stock.vignette * ((dx * dx + dy * dy) / maxDistSq);
+        r *= falloff;
+        g *= falloff;
+        b *= falloff;
+      }
+
+      if (grainAmount > 0) {
+        // Monochromatic grain looks more like film than per-channel noise
+        const noise = (random() - 0.5) * grainAmount;
+        r += noise;
+        g += noise;
+        b += noise;
+      }
+
+      data[i] = r;
+      data[i + 1] = g;
+      data[i + 2] = b;
+    }
+  }
+
+  ctx.putImageData(image, 0, 0);
+
+  if (stock.lightLeak) {
+    drawLightLeak(ctx, width, height, random);
+  }
+};
@@ -0,0 +1,228 @@
+import { PhotoData } from '../types.ts';
+import { CardLayout } from './cardLayout.ts';
+import { loadImage } from './imageUtils.ts';
+
+// Card frame templates: each one is a card's size, image window and caption
+// area (the CardLayout) plus its look. Photos pick one by id. Custom
+// templates live in localStorage; a photo whose template is gone, or was made
+// on another machine, falls back to the classic card. Photo-booth strips keep
+// their own geometry and the classic look.
+
+const CUSTOM_TEMPLATES_KEY = 'bao.frameTemplates';
+const MAX_BACKGROUND_SIZE = 480; // Background images are kept small, they sit in localStorage
+
+export const DEFAULT_FRAME_TEMPLATE = 'classic';
+
+export interface FrameLook {
+  background: string; // CSS color of the card
+  backgroundImage: string | null; // Data URL, cover-fit over the whole card
+  ink: string; // Caption color
+  dateInk: string;
+  captionFont: string; // CSS font family
+  captionSize: number; // px; lines are 1.2 times this apart
+}
+
+export interface FrameTemplate extends CardLayout, FrameLook {
+  id: string;
+  label: string;
+  isCustom: boolean;
+}
+
+export type FrameShapeId = 'classic' | 'instax-mini' | 'sx-70';
+
+// What the user chose for a custom template; the rest comes from its shape
+export interface CustomFrame {
+  id: string;
+  label: string;
+  shape: FrameShapeId;
+  background: string;
+  backgroundImage: string | null;
+  ink: 'dark' | 'light';
+  captionFont: string;
+}
+
+export const CAPTION_FONTS: { label: string; family: string }[] = [
+  { label: 'Handwriting', family: '"Patrick Hand", cursive' },
+  { label: 'Typewriter', family: '"Courier New", Courier, monospace' },
+  { label: 'Serif', family: 'Georgia, "Times New Roman", serif' },
+  { label: 'Marker', family: '"Comic Sans MS", "Chalkboard SE", cursive' },
+  { label: 'Plain', family: 'Helvetica, Arial, sans-serif' },
+];
+
+// --- Built-in templates ---
+
+// Roughly to scale at 2.7 px/mm, except the classic card, which predates templates
+const SHAPES: Record<FrameShapeId, { label: string; layout: CardLayout; captionSize: number }> = {
+  classic: {
+    label: 'Classic',
+    layout: {
+      width: 240,
+      height: 320, // 3:4 aspect ratio roughly
+      padding: { top: 16, side: 16, bottom: 40 }, // Thick bottom like polaroid
+      imageHeight: 200,
+      captionGap: 16,
+    },
+    captionSize: 20,
+  },
+  // 54 x 86 mm card around a 46 x 62 mm portrait window
+  'instax-mini': {
+    label: 'Instax Mini',
+    layout: { width: 150, height: 250, padding: { top: 14, side: 11, bottom: 16 }, imageHeight: 171, captionGap: 6 },
+    captionSize: 16,
+  },
+  // 88 x 107 mm card around a 79 mm square
+  'sx-70': {
+    label: 'SX-70',
+    layout: { width: 240, height: 296, padding: { top: 12, side: 12, bottom: 20 }, imageHeight: 216, captionGap: 8 },
+    captionSize: 20,
+  },
+};
+
+export const FRAME_SHAPES = (Object.keys(SHAPES) as FrameShapeId[]).map(id => ({ id, label: SHAPES[id].label }));
+
+const DARK_INK = { ink: '#1f2937', dateInk: '#9ca3af' };
+const LIGHT_INK = { ink: '#f5f5f4', dateInk: '#a8a29e' };
+
+const fromShape = (shape: FrameShapeId, template: Omit<FrameTemplate, keyof CardLayout | 'captionSize'>): FrameTemplate => ({
+  ...SHAPES[shape].layout,
+  captionSize: SHAPES[shape].captionSize,
+  ...template,
+});
+
+const builtIn = (id: string, label: string, shape: FrameShapeId, background: string, ink = DARK_INK) =>
+  fromShape(shape, { id, label, background, backgroundImage: null, captionFont: CAPTION_FONTS[0].family, isCustom: false, ...ink });
+
+export const BUILT_IN_TEMPLATES: FrameTemplate[] = [
+  builtIn('classic', 'Classic', 'classic', '#ffffff'),
+  builtIn('instax-mini', 'Instax Mini', 'instax-mini', '#ffffff'),
+  builtIn('sx-70', 'SX-70', 'sx-70', '#fafaf9'),
+  builtIn('blush', 'Blush', 'classic', '#f9c6d0'),
+  builtIn('mint', 'Mint', 'classic', '#bfe6d3'),
+  builtIn('sky', 'Sky', 'classic', '#bcd9f2'),
+  builtIn('midnight', 'Midnight', 'classic', '#1c1917', LIGHT_INK),
+];
+
+const CLASSIC = BUILT_IN_TEMPLATES[0];
+
+// --- Custom templates ---
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isShape = (value: unknown): value is FrameShapeId =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(SHAPES, value);
+
+export const isCustomFrame = (value: unknown): value is CustomFrame =>
+  isRecord(value)
+  && typeof value.id === 'string' && typeof value.label === 'string' && isShape(value.shape)
+  && typeof value.background === 'string' && (value.backgroundImage === null || typeof value.backgroundImage === 'string')
+  && (value.ink === 'dark' || value.ink === 'light') && typeof value.captionFont === 'string';
+
+// Everything but the id
+const isSameFrame = (a: CustomFrame, b: CustomFrame) =>
+  a.label === b.label && a.shape === b.shape && a.background === b.background
+  && a.backgroundImage === b.backgroundImage && a.ink === b.ink && a.captionFont === b.captionFont;
+
+const readCustomFrames = (): CustomFrame[] => {
+  try {
+    const raw = localStorage.getItem(CUSTOM_TEMPLATES_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter(isCustomFrame) : [];
+  } catch {
+    return [];
+  }
+};
+
+let customFrames = readCustomFrames();
+const listeners = new Set<() => void>();
+
+/** Calls `listener` whenever custom templates are added or removed. Returns the unsubscribe function. */
+export const subscribeFrameTemplates = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// Throws when localStorage is full, leaving the templates as they were
+const saveCustomFrames = (frames: CustomFrame[]) => {
+  localStorage.setItem(CUSTOM_TEMPLATES_KEY, JSON.stringify(frames));
+  customFrames = frames;
+  listeners.forEach(listener => listener());
+};
+
+const toTemplate = ({ shape, ink, ...frame }: CustomFrame): FrameTemplate =>
+  fromShape(shape, { ...frame, ...(ink === 'light' ? LIGHT_INK : DARK_INK), isCustom: true });
+
+export const getCustomFrames = (): CustomFrame[] => customFrames;
+
+export const getFrameTemplates = (): FrameTemplate[] => [...BUILT_IN_TEMPLATES, ...customFrames.map(toTemplate)];
+
+const newFrameId = () => `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const addCustomFrame = (frame: Omit<CustomFrame, 'id'>): CustomFrame => {
+  const added = { ...frame, id: newFrameId() };
+  saveCustomFrames([...customFrames, added]);
+  return added;
+};
+
+/**
+ * Adds templates that came with a wall bundle. Returns the id each one has
+ * here: a template that is already here keeps its id, and one whose id is
+ * taken by a different template gets a new one.
+ */
+export const addCustomFrames = (frames: CustomFrame[]): Map<string, string> => {
+  const ids = new Map<string, string>();
+  const taken = new Set([...BUILT_IN_TEMPLATES, ...customFrames].map(template => template.id));
+  const added: CustomFrame[] = [];
+  for (const frame of frames) {
+    const existing = [...customFrames, ...added].find(other => isSameFrame(other, frame));
+    if (existing) {
+      ids.set(frame.id, existing.id);
+      continue;
+    }
+    let id = frame.id;
+    while (taken.has(id)) id = newFrameId();
+    taken.add(id);
+    added.push({ ...frame, id });
+    ids.set(frame.id, id);
+  }
+  if (added.length > 0) saveCustomFrames([...customFrames, ...added]);
+  return ids;
+};
+
+export const deleteCustomFrame = (id: string) => {
+  saveCustomFrames(customFrames.filter(frame => frame.id !== id));
+};
+
+/** Shrinks an image file into a background that fits in localStorage. */
+export const readBackgroundImage = async (file: File): Promise<string> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = await loadImage(url);
+    const scale = Math.min(1, MAX_BACKGROUND_SIZE / Math.max(image.width, image.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.width * scale));
+    canvas.height = Math.max(1, Math.round(image.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available');
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.8);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// --- Lookup ---
+
+export const getFrameTemplate = (id: string): FrameTemplate => {
+  const builtInTemplate = BUILT_IN_TEMPLATES.find(template => template.id === id);
+  if (builtInTemplate) return builtInTemplate;
+  const custom = customFrames.find(frame => frame.id === id);
+  return custom ? toTemplate(custom) : CLASSIC;
+};
+
+export const canChooseFrame = (photo: Pick<PhotoData, 'layout'>) => photo.layout !== 'strip';
+
+/** How the photo's card looks: its template's, or the classic look for strips. */
+export const getFrameLook = (photo: Pick<PhotoData, 'layout' | 'frameTemplate'>): FrameLook =>
+  canChooseFrame(photo) ? getFrameTemplate(photo.frameTemplate) : CLASSIC;
+
+export const captionFont = (look: FrameLook) => `${look.captionSize}px ${look.captionFont}`;
@@ -1,46 +1,72 @@
 import { GoogleGenAI } from "@google/genai";
+import { CaptionProvider } from '../types.ts';
+import { buildCaptionPrompt } from './captionPrompt.ts';
+import { TAG_RESPONSE_SCHEMA, buildTagPrompt, parseTagResponse } from './photoTags.ts';
 
-const getSystemPrompt = (locale: string) => `
-You are a warm, nostalgic, and poetic AI assistant inside a retro camera.
-Analyze the provided image and generate a SHORT, warm, 1-sentence blessing, memory, or nice comment about the scene.
-Limit the response to maximum 10-12 words.
-The output MUST be in the user's language: ${locale}.
-Do not include quotes.
-`;
-
-export const generateCaption = async (base64Image: string): Promise<string> => {
-  if (!process.env.API_KEY) {
-    console.warn("API_KEY is missing");
-    return "Memories are timeless...";
+// One client for the whole session instead of one per caption
+let client: GoogleGenAI | null = null;
+
+const getClient = (apiKey: string) => {
+  if (!client) client = new GoogleGenAI({ apiKey });
+  return client;
+};
+
+// Strip the data:image/jpeg;base64, prefix if present
+const toImageParts = (frames: string[]) => frames.map(frame => ({
+  inlineData: {
+    mimeType: 'image/jpeg',
+    data: frame.replace(/^data:image\/(png|jpeg|webp);base64,/, "")
   }
+}));
+
+export const geminiProvider: CaptionProvider = {
+  id: 'gemini',
+  label: 'Gemini 2.5 Flash',
 
-  try {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const locale = navigator.language || 'en-US';
+  isAvailable: () => !!process.env.API_KEY,
 
-    // Strip the data:image/jpeg;base64, prefix if present
-    const cleanBase64 = base64Image.replace(/^data:image\/(png|jpeg|webp);base64,/, "");
+  generate: async ({ frames, locale, style, filmStock }, signal) => {
+    if (!process.env.API_KEY) {
+      throw new Error("API_KEY is missing");
+    }
+
+    const ai = getClient(process.env.API_KEY);
 
     const response = await ai.models.generateContent({
       model: 'gemini-2.5-flash',
       contents: {
         parts: [
+          ...toImageParts(frames),
           {
-            inlineData: {
-              mimeType: 'image/jpeg',
-              data: cleanBase64
-            }
-          },
-          {
-            text: getSystemPrompt(locale)
+            text: buildCaptionPrompt({ locale, persona: style.persona, hint: style.hint, filmStock, frameCount: frames.length })
           }
         ]
+      },
+      config: { abortSignal: signal }
+    });
+
+    const caption = response.text?.trim();
+    if (!caption) throw new Error("Gemini returned an empty caption");
+    return caption;
+  },
+
+  tag: async ({ frames }, signal) => {
+    if (!process.env.API_KEY) {
+      throw new Error("API_KEY is missing");
+    }
+
+    const response = await getClient(process.env.API_KEY).models.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: {
+        parts: [...toImageParts(frames), { text: buildTagPrompt(frames.length) }]
+      },
+      config: {
+        abortSignal: signal,
+        responseMimeType: 'application/json',
+        responseJsonSchema: TAG_RESPONSE_SCHEMA,
       }
     });
 
-    return response.text?.trim() || "A beautiful moment captured.";
-  } catch (error) {
-    console.error("Gemini API Error:", error);
-    return "A moment frozen in time.";
+    return parseTagResponse(response.text || '');
   }
-};
\ No newline at end of file
+};
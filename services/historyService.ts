@@ -0,0 +1,186 @@
+import { PhotoData, Wall, WallItem, WallItemBase } from '../types.ts';
+
+// Undo/redo as a list of reversible commands over the walls. Commands are
+// plain data so they can be merged (a drag produces one command per frame
+// but should undo as a single step) and applied in either direction.
+
+// Changed fields of a photo or decoration. Decorations only ever change the
+// placement fields they share with photos; see applyPlacement.
+export type ItemChanges = Partial<PhotoData>;
+
+export type HistoryCommand =
+  | {
+      type: 'update';
+      itemId: string; // A photo or a decoration
+      before: ItemChanges;
+      after: ItemChanges;
+      mergeKey?: string; // Consecutive commands with the same key collapse into one
+    }
+  | {
+      type: 'delete';
+      wallId: string;
+      item: WallItem;
+      index: number; // In the wall's photos or decorations, by kind
+    }
+  | {
+      type: 'add';
+      wallId: string;
+      item: WallItem;
+    }
+  | {
+      type: 'transfer';
+      photoId: string;
+      fromWallId: string;
+      toWallId: string;
+      beforeZ: number;
+      afterZ: number;
+    }
+  | {
+      type: 'batch';
+      commands: HistoryCommand[]; // Applied in order, undone in reverse; one undo step
+    };
+
+export interface HistoryState {
+  past: HistoryCommand[];
+  future: HistoryCommand[];
+}
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+const MAX_HISTORY = 100;
+
+// Only user-facing, persistent fields are worth an undo step. Photo edits are
+// kept as parameters, not images: `dataUrl` is rendered again after undo/redo.
+export const HISTORY_FIELDS: (keyof PhotoData)[] = [
+  'caption', 'captionStyle', 'position', 'rotation', 'scale', 'zIndex', 'edits', 'filmStock', 'frameTemplate',
+];
+
+// `keys` narrows it down further, e.g. to what an update is about to change
+export const pickHistoryFields = (source: Partial<PhotoData>, keys: string[] = HISTORY_FIELDS): Partial<PhotoData> =>
+  Object.fromEntries(
+    HISTORY_FIELDS.filter(field => keys.includes(field) && field in source).map(field => [field, source[field]])
+  ) as Partial<PhotoData>; // Each value comes from the same field of `source`
+
+/** Photos whose look the command changes, so their image has to be rendered again. */
+export const editedPhotoIds = (command: HistoryCommand): string[] => {
+  if (command.type === 'batch') return command.commands.flatMap(editedPhotoIds);
+  if (command.type !== 'update') return [];
+  return 'edits' in command.after || 'filmStock' in command.after ? [command.itemId] : [];
+};
+
+const applyPlacement = <T extends WallItemBase>(item: T, changes: ItemChanges): T => ({
+  ...item,
+  position: changes.position ?? item.position,
+  rotation: changes.rotation ?? item.rotation,
+  scale: changes.scale ?? item.scale,
+  zIndex: changes.zIndex ?? item.zIndex,
+});
+
+const mapItem = (walls: Wall[], itemId: string, changes: ItemChanges): Wall[] => {
+  return walls.map(w => {
+    if (w.photos.some(p => p.id === itemId)) {
+      return { ...w, photos: w.photos.map(p => p.id === itemId ? { ...p, ...changes } : p) };
+    }
+    if (w.decorations.some(d => d.id === itemId)) {
+      return { ...w, decorations: w.decorations.map(d => d.id === itemId ? applyPlacement(d, changes) : d) };
+    }
+    return w;
+  });
+};
+
+const removeItem = (walls: Wall[], itemId: string): Wall[] => {
+  return walls.map(w => ({
+    ...w,
+    photos: w.photos.filter(p => p.id !== itemId),
+    decorations: w.decorations.filter(d => d.id !== itemId),
+  }));
+};
+
+const insertAt = <T,>(list: T[], index: number, entry: T): T[] => {
+  const next = [...list];
+  next.splice(Math.min(index, next.length), 0, entry);
+  return next;
+};
+
+const movePhoto = (walls: Wall[], photoId: string, fromWallId: string, toWallId: string, zIndex: number): Wall[] => {
+  const photo = walls.find(w => w.id === fromWallId)?.photos.find(p => p.id === photoId);
+  if (!photo || !walls.some(w => w.id === toWallId)) return walls;
+
+  return walls.map(w => {
+    if (w.id === fromWallId) return { ...w, photos: w.photos.filter(p => p.id !== photoId) };
+    if (w.id === toWallId) return { ...w, photos: [...w.photos, { ...photo, zIndex }] };
+    return w;
+  });
+};
+
+export const applyCommand = (walls: Wall[], command: HistoryCommand, direction: 'undo' | 'redo'): Wall[] => {
+  switch (command.type) {
+    case 'update':
+      return mapItem(walls, command.itemId, direction === 'redo' ? command.after : command.before);
+
+    case 'delete': {
+      const { item, index } = command;
+      if (direction === 'redo') return removeItem(walls, item.id);
+      // Put it back where it was, or on the first wall if that wall is gone
+      const target = walls.find(w => w.id === command.wallId) || walls[0];
+      return walls.map(w => {
+        if (w !== target) return w;
+        return item.kind === 'photo'
+          ? { ...w, photos: insertAt(w.photos, index, item) }
+          : { ...w, decorations: insertAt(w.decorations, index, item) };
+      });
+    }
+
+    case 'add': {
+      // The mirror image of deleting it from the end of its list
+      const asDelete: HistoryCommand = { type: 'delete', wallId: command.wallId, item: command.item, index: Infinity };
+      return applyCommand(walls, asDelete, direction === 'redo' ? 'undo' : 'redo');
+    }
+
+    case 'transfer':
+      return direction === 'redo'
+        ? movePhoto(walls, command.photoId, command.fromWallId, command.toWallId, command.afterZ)
+        : movePhoto(walls, command.photoId, command.toWallId, command.fromWallId, command.beforeZ);
+
+    case 'batch': {
+      const steps = direction === 'redo' ? command.commands : [...command.commands].reverse();
+      return steps.reduce((acc, step) => applyCommand(acc, step, direction), walls);
+    }
+  }
+};
+
+export const pushCommand = (history: HistoryState, command: HistoryCommand): HistoryState => {
+  const last = history.past[history.past.length - 1];
+
+  if (
+    command.type === 'update' && last?.type === 'update' &&
+    command.mergeKey && last.mergeKey === command.mergeKey && last.itemId === command.itemId
+  ) {
+    const merged: HistoryCommand = {
+      ...last,
+      before: { ...command.before, ...last.before }, // Earliest value wins
+      after: { ...last.after, ...command.after }, // Latest value wins
+    };
+    return { past: [...history.past.slice(0, -1), merged], future: [] };
+  }
+
+  return { past: [...history.past, command].slice(-MAX_HISTORY), future: [] };
+};
+
+export const undo = (history: HistoryState): { history: HistoryState; command: HistoryCommand } | null => {
+  const command = history.past[history.past.length - 1];
+  if (!command) return null;
+  return {
+    command,
+    history: { past: history.past.slice(0, -1), future: [command, ...history.future] },
+  };
+};
+
+export const redo = (history: HistoryState): { history: HistoryState; command: HistoryCommand } | null => {
+  const [command, ...rest] = history.future;
+  if (!command) return null;
+  return {
+    command,
+    history: { past: [...history.past, command], future: rest },
+  };
+};
@@ -0,0 +1,174 @@
+import { FilmStockId } from '../types.ts';
+import { applyFilmStock } from './filmStocks.ts';
+import { loadImage } from './imageUtils.ts';
+
+// Turns an image file from disk or the clipboard into the same kind of square,
+// film-processed frame the camera produces.
+
+const MAX_IMPORT_SIZE = 1080; // Output square side, matching the best camera resolution
+
+interface ExifInfo {
+  orientation?: number; // 1..8, see EXIF spec
+  capturedAt?: number; // Epoch ms, from DateTimeOriginal / DateTime
+}
+
+// --- Minimal EXIF reader (JPEG APP1 only) ---
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATETIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+
+const parseExifDate = (value: string): number | undefined => {
+  // "YYYY:MM:DD HH:MM:SS", in the camera's local time
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return undefined;
+  const [, y, mo, d, h, mi, s] = match.map(Number);
+  const time = new Date(y, mo - 1, d, h, mi, s).getTime();
+  return Number.isNaN(time) || y < 1900 ? undefined : time;
+};
+
+export const readExif = (buffer: ArrayBuffer): ExifInfo => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xFFD8) return {}; // Not a JPEG
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const size = view.getUint16(offset + 2);
+    if (marker === 0xFFE1 && view.getUint32(offset + 4) === 0x45786966) { // "Exif"
+      return readTiff(view, offset + 10);
+    }
+    if ((marker & 0xFF00) !== 0xFF00 || marker === 0xFFDA) break; // Start of scan: no more metadata
+    offset += 2 + size;
+  }
+  return {};
+};
+
+const readTiff = (view: DataView, tiffStart: number): ExifInfo => {
+  const little = view.getUint16(tiffStart) === 0x4949; // "II"
+  const u16 = (at: number) => view.getUint16(at, little);
+  const u32 = (at: number) => view.getUint32(at, little);
+  const info: ExifInfo = {};
+
+  const readAscii = (entry: number) => {
+    const count = u32(entry + 4);
+    const start = count > 4 ? tiffStart + u32(entry + 8) : entry + 8;
+    let text = '';
+    for (let i = 0; i < count - 1 && start + i < view.byteLength; i++) {
+      text += String.fromCharCode(view.getUint8(start + i));
+    }
+    return text;
+  };
+
+  const readIfd = (ifdOffset: number, visit: (tag: number, entry: number) => void) => {
+    const start = tiffStart + ifdOffset;
+    if (start + 2 > view.byteLength) return;
+    const count = u16(start);
+    for (let i = 0; i < count; i++) {
+      const entry = start + 2 + i * 12;
+      if (entry + 12 > view.byteLength) return;
+      visit(u16(entry), entry);
+    }
+  };
+
+  try {
+    let exifIfd: number | undefined;
+    readIfd(u32(tiffStart + 4), (tag, entry) => {
+      if (tag === TAG_ORIENTATION) info.orientation = u16(entry + 8);
+      else if (tag === TAG_DATETIME) info.capturedAt ??= parseExifDate(readAscii(entry));
+      else if (tag === TAG_EXIF_IFD) exifIfd = u32(entry + 8);
+    });
+    if (exifIfd !== undefined) {
+      readIfd(exifIfd, (tag, entry) => {
+        // The original shot time beats the last-modified DateTime
+        if (tag === TAG_DATETIME_ORIGINAL) info.capturedAt = parseExifDate(readAscii(entry)) ?? info.capturedAt;
+      });
+    }
+  } catch (err) {
+    console.warn("Ignoring malformed EXIF data", err);
+  }
+  return info;
+};
+
+// --- Decoding ---
+
+// Decodes without the browser's automatic rotation so the EXIF orientation
+// can be applied exactly once, here. Returns whether that's still needed.
+const decode = async (file: Blob): Promise<{ source: ImageBitmap | HTMLImageElement; needsOrientation: boolean }> => {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      return { source: await createImageBitmap(file, { imageOrientation: 'none' }), needsOrientation: true };
+    } catch {
+      // Older engines don't know 'none'; fall through to <img>, which orients by itself
+    }
+  }
+  const url = URL.createObjectURL(file);
+  try {
+    return { source: await loadImage(url), needsOrientation: false };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Canvas transform that turns stored pixels upright for each EXIF orientation
+const orientTransform = (ctx: CanvasRenderingContext2D, orientation: number, width: number, height: number) => {
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, height, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, height, width); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, width); break;
+  }
+};
+
+export const isImageFile = (file: File) => file.type.startsWith('image/');
+
+/**
+ * Reads an image file and returns a center-cropped, downscaled square frame,
+ * before and after the film look, plus the best-known capture time.
+ */
+export const importImageFile = async (
+  file: File,
+  filmStock: FilmStockId
+): Promise<{ original: string; dataUrl: string; capturedAt: number }> => {
+  const exif = readExif(await file.arrayBuffer());
+  const capturedAt = exif.capturedAt ?? (file.lastModified || Date.now());
+  const { source, needsOrientation } = await decode(file);
+
+  const orientation = needsOrientation ? exif.orientation || 1 : 1;
+  const swapsSides = orientation >= 5;
+  const uprightWidth = swapsSides ? source.height : source.width;
+  const uprightHeight = swapsSides ? source.width : source.height;
+
+  // 1. Upright, downscaled so the short side is at most MAX_IMPORT_SIZE
+  const scale = Math.min(1, MAX_IMPORT_SIZE / Math.min(uprightWidth, uprightHeight));
+  const upright = document.createElement('canvas');
+  upright.width = Math.round(uprightWidth * scale);
+  upright.height = Math.round(uprightHeight * scale);
+  const uprightCtx = upright.getContext('2d');
+  if (!uprightCtx) throw new Error('Canvas is not available');
+
+  const drawWidth = Math.round(source.width * scale);
+  const drawHeight = Math.round(source.height * scale);
+  orientTransform(uprightCtx, orientation, drawWidth, drawHeight);
+  uprightCtx.drawImage(source, 0, 0, drawWidth, drawHeight);
+  if ('close' in source) source.close();
+
+  // 2. Center square crop, same as the camera
+  const size = Math.min(upright.width, upright.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.drawImage(upright, (upright.width - size) / 2, (upright.height - size) / 2, size, size, 0, 0, size, size);
+
+  // 3. Film look, keeping the untouched frame as the original
+  const original = canvas.toDataURL('image/jpeg', 0.9);
+  if (filmStock === 'none') return { original, dataUrl: original, capturedAt };
+  applyFilmStock(canvas, filmStock, capturedAt);
+  return { original, dataUrl: canvas.toDataURL('image/jpeg', 0.9), capturedAt };
+};
@@ -0,0 +1,143 @@
+// "Live Polaroid" clips: a few seconds of video recorded around the shutter
+// press, stored next to the still and looped on the card.
+//
+// MediaRecorder can't look back in time, so while live mode is on two
+// recorders run staggered by half a cycle and are restarted in turn. When
+// the shutter fires, the older one already holds between HALF_CYCLE_MS and
+// CYCLE_MS of pre-roll; it keeps going for POST_ROLL_MS and is stopped, which
+// gives a clip of 2 to 2.8 seconds.
+
+export const CLIP_SIZE = 320; // Square, px. The card shows it at about this size.
+const CLIP_FPS = 24;
+const CYCLE_MS = 1600;
+const HALF_CYCLE_MS = CYCLE_MS / 2;
+const POST_ROLL_MS = 1200;
+
+const SETTINGS_KEY = 'bao.liveClip';
+
+// Preferred first; Safari only records mp4
+const MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'];
+
+export interface LiveClipSettings {
+  enabled: boolean;
+  audio: boolean; // Record the microphone too. Clips always play muted on the wall.
+}
+
+const DEFAULT_SETTINGS: LiveClipSettings = { enabled: false, audio: false };
+
+export const getLiveClipSettings = (): LiveClipSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const setLiveClipSettings = (settings: LiveClipSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const isLiveClipSupported = (): boolean =>
+  typeof MediaRecorder !== 'undefined' && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+
+/** File extension for a recorded clip, for downloads and bundles. */
+export const clipExtension = (clip: Blob): string => clip.type.startsWith('video/mp4') ? 'mp4' : 'webm';
+
+export interface ClipRecorder {
+  /** Resolves with the clip around this moment, or null if nothing was recorded. */
+  capture: () => Promise<Blob | null>;
+  stop: () => void;
+}
+
+interface Take {
+  recorder: MediaRecorder;
+  chunks: Blob[];
+}
+
+/**
+ * Starts recording in the background. `draw` paints each video frame onto
+ * the CLIP_SIZE square canvas that is recorded, so the clip can be cropped
+ * and filtered like the still. The audio track, if any, stays owned by the
+ * caller.
+ */
+export const createClipRecorder = (
+  draw: (canvas: HTMLCanvasElement) => void,
+  audio: MediaStreamTrack | null,
+): ClipRecorder => {
+  const canvas = document.createElement('canvas');
+  canvas.width = CLIP_SIZE;
+  canvas.height = CLIP_SIZE;
+
+  let frame = 0;
+  const paint = () => {
+    draw(canvas);
+    frame = requestAnimationFrame(paint);
+  };
+  paint();
+
+  const stream = canvas.captureStream(CLIP_FPS);
+  if (audio) stream.addTrack(audio);
+  const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+
+  const startTake = (): Take => {
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const take: Take = { recorder, chunks: [] };
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) take.chunks.push(e.data);
+    };
+    recorder.start();
+    return take;
+  };
+
+  // Oldest first; never more than two
+  let takes: Take[] = [startTake()];
+  const rotate = window.setInterval(() => {
+    if (takes.length >= 2) {
+      const [oldest, ...rest] = takes;
+      oldest.recorder.ondataavailable = null; // Nobody wants this one
+      oldest.recorder.stop();
+      takes = rest;
+    }
+    takes.push(startTake());
+  }, HALF_CYCLE_MS);
+
+  const pending = new Set<Take>(); // Captured, still recording the post-roll
+
+  const capture = (): Promise<Blob | null> => {
+    const take = takes.shift(); // The rotation starts a replacement on its next tick
+    if (!take) return Promise.resolve(null);
+    pending.add(take);
+
+    return new Promise(resolve => {
+      const done = (clip: Blob | null) => {
+        window.clearTimeout(timer);
+        pending.delete(take);
+        resolve(clip);
+      };
+      const { recorder, chunks } = take;
+      recorder.onstop = () => done(chunks.length > 0 ? new Blob(chunks, { type: recorder.mimeType || mimeType || 'video/webm' }) : null);
+      recorder.onerror = () => done(null);
+      const timer = window.setTimeout(() => {
+        if (recorder.state !== 'inactive') recorder.stop();
+      }, POST_ROLL_MS);
+    });
+  };
+
+  const stop = () => {
+    window.clearInterval(rotate);
+    cancelAnimationFrame(frame);
+    takes.forEach(take => {
+      take.recorder.ondataavailable = null;
+      if (take.recorder.state !== 'inactive') take.recorder.stop();
+    });
+    takes = [];
+    // Captures in flight still get what was recorded so far
+    pending.forEach(take => {
+      if (take.recorder.state !== 'inactive') take.recorder.stop();
+    });
+    stream.getVideoTracks().forEach(track => track.stop());
+  };
+
+  return { capture, stop };
+};
@@ -0,0 +1,111 @@
+import { CaptionProvider } from '../types.ts';
+import { loadImage } from './imageUtils.ts';
+
+// Fully on-device captions: no network, just the capture time and the
+// dominant colors of a downsampled copy of the frame.
+
+const SAMPLE_SIZE = 24;
+
+const colorName = (r: number, g: number, b: number): string => {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 510;
+  const saturation = max === min ? 0 : (max - min) / (255 - Math.abs(max + min - 255));
+
+  if (lightness < 0.15) return 'shadow';
+  if (lightness > 0.88) return 'bright white';
+  if (saturation < 0.18) return lightness > 0.55 ? 'silver' : 'grey';
+
+  let hue = 0;
+  if (max === r) hue = ((g - b) / (max - min) + 6) % 6;
+  else if (max === g) hue = (b - r) / (max - min) + 2;
+  else hue = (r - g) / (max - min) + 4;
+  hue *= 60;
+
+  if (hue < 15 || hue >= 345) return 'red';
+  if (hue < 40) return lightness < 0.45 ? 'brown' : 'orange';
+  if (hue < 65) return 'golden';
+  if (hue < 160) return 'green';
+  if (hue < 200) return 'teal';
+  if (hue < 255) return 'blue';
+  if (hue < 290) return 'violet';
+  return 'pink';
+};
+
+export const getDominantColors = async (dataUrl: string, count = 2): Promise<string[]> => {
+  const img = await loadImage(dataUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = SAMPLE_SIZE;
+  canvas.height = SAMPLE_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return [];
+
+  ctx.drawImage(img, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+  const { data } = ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+
+  const tally = new Map<string, number>();
+  for (let i = 0; i < data.length; i += 4) {
+    const name = colorName(data[i], data[i + 1], data[i + 2]);
+    tally.set(name, (tally.get(name) || 0) + 1);
+  }
+
+  return [...tally.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, count)
+    .map(([name]) => name);
+};
+
+const timeOfDay = (hour: number): string => {
+  if (hour < 5) return 'late night';
+  if (hour < 12) return 'morning';
+  if (hour < 17) return 'afternoon';
+  if (hour < 21) return 'evening';
+  return 'night';
+};
+
+const pick = <T,>(items: T[], seed: number): T => items[Math.abs(seed) % items.length];
+
+export const offlineProvider: CaptionProvider = {
+  id: 'offline',
+  label: 'Offline (on-device)',
+
+  isAvailable: () => true,
+
+  generate: async ({ dataUrl, frames, capturedAt, style }) => {
+    const when = new Date(capturedAt);
+    const weekday = when.toLocaleDateString('en-US', { weekday: 'long' });
+    const period = timeOfDay(when.getHours());
+
+    let colors: string[] = [];
+    try {
+      colors = await getDominantColors(dataUrl);
+    } catch (err) {
+      console.warn("Offline caption color analysis failed", err);
+    }
+
+    const palette = colors.length > 1 ? `${colors[0]} and ${colors[1]}` : colors[0] || 'soft';
+
+    // Personas whose shape matters more than their wording
+    if (style.persona === 'hashtags') {
+      const tags = [weekday, period, ...colors, frames.length > 1 ? 'photobooth' : 'instantfilm'];
+      return tags.map(tag => `#${tag.replace(/\s+/g, '')}`).join(' ');
+    }
+    if (style.persona === 'haiku') {
+      return `${weekday} ${period}\n${palette} light held in my hands\nthe shutter remembers`;
+    }
+
+    if (frames.length > 1) {
+      return `${frames.length} snaps of one ${palette} ${weekday} ${period}.`;
+    }
+
+    // Vary the wording between regenerations while staying deterministic per second
+    const seed = Math.floor(Date.now() / 1000);
+
+    return pick([
+      `A ${palette} ${weekday} ${period}, kept forever.`,
+      `${weekday} ${period} in ${palette} tones, worth remembering.`,
+      `Little ${palette} moments make the best ${period}s.`,
+      `Saving this ${palette} ${period} for a rainy day.`,
+    ], seed);
+  }
+};
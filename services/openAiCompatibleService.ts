@@ -0,0 +1,105 @@
+import { CaptionProvider } from '../types.ts';
+import { buildCaptionPrompt } from './captionPrompt.ts';
+import { TAG_RESPONSE_SCHEMA, buildTagPrompt, parseTagResponse } from './photoTags.ts';
+
+// Works with anything that speaks the OpenAI chat completions API with image
+// inputs, e.g. a local Ollama server (`ollama serve` + a vision model like llava).
+
+export interface OpenAiCompatibleConfig {
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+}
+
+const CONFIG_KEY = 'bao.openAiCompatible';
+
+const DEFAULT_CONFIG: OpenAiCompatibleConfig = {
+  baseUrl: 'http://localhost:11434/v1',
+  model: 'llava',
+  apiKey: '',
+};
+
+export const getOpenAiCompatibleConfig = (): OpenAiCompatibleConfig => {
+  try {
+    const raw = localStorage.getItem(CONFIG_KEY);
+    return raw ? { ...DEFAULT_CONFIG, ...JSON.parse(raw) } : DEFAULT_CONFIG;
+  } catch {
+    return DEFAULT_CONFIG;
+  }
+};
+
+export const setOpenAiCompatibleConfig = (config: OpenAiCompatibleConfig) => {
+  localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+};
+
+// One chat completion with the prompt and images; returns the reply text
+const complete = async (
+  prompt: string,
+  frames: string[],
+  options: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<string | undefined> => {
+  const { baseUrl, model, apiKey } = getOpenAiCompatibleConfig();
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+  const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers,
+    signal,
+    body: JSON.stringify({
+      model,
+      ...options,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: prompt },
+            ...frames.map(url => ({ type: 'image_url', image_url: { url } }))
+          ]
+        }
+      ]
+    })
+  });
+
+  if (!response.ok) {
+    // The status lets the caption queue decide whether to retry
+    throw Object.assign(new Error(`Caption endpoint responded with ${response.status}`), { status: response.status });
+  }
+
+  const json = await response.json();
+  return json?.choices?.[0]?.message?.content;
+};
+
+export const openAiCompatibleProvider: CaptionProvider = {
+  id: 'openai-compatible',
+  label: 'OpenAI-compatible endpoint',
+
+  isAvailable: () => !!getOpenAiCompatibleConfig().baseUrl,
+
+  generate: async ({ frames, locale, style, filmStock }, signal) => {
+    const text = await complete(
+      buildCaptionPrompt({ locale, persona: style.persona, hint: style.hint, filmStock, frameCount: frames.length }),
+      frames,
+      { max_tokens: 80 }, // Room for a three-line haiku
+      signal
+    );
+    const caption = text?.trim().replace(/^"|"$/g, '');
+    if (!caption) throw new Error("Caption endpoint returned an empty caption");
+    return caption;
+  },
+
+  tag: async ({ frames }, signal) => {
+    const text = await complete(
+      buildTagPrompt(frames.length),
+      frames,
+      {
+        max_tokens: 120,
+        response_format: { type: 'json_schema', json_schema: { name: 'photo_tags', strict: true, schema: TAG_RESPONSE_SCHEMA } },
+      },
+      signal
+    );
+    return parseTagResponse(text || '');
+  }
+};
@@ -0,0 +1,78 @@
+// Minimal PDF writer: one full-bleed JPEG per page. Text is rasterized into
+// the page images, so any script and the handwriting font come out exactly as
+// drawn without embedding fonts.
+
+export interface PdfImagePage {
+  jpeg: Uint8Array;
+  pixelWidth: number;
+  pixelHeight: number;
+  widthPt: number; // 1pt = 1/72 inch
+  heightPt: number;
+}
+
+const encoder = new TextEncoder();
+
+export const createImagePdf = (pages: PdfImagePage[]): Blob => {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  const beginObject = (num: number) => {
+    offsets[num] = length;
+    write(`${num} 0 obj\n`);
+  };
+
+  // Object layout: 1 catalog, 2 page tree, then (page, content, image) per page
+  const pageObj = (i: number) => 3 + i * 3;
+  const objectCount = 2 + pages.length * 3;
+
+  write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+
+  beginObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+  beginObject(2);
+  const kids = pages.map((_, i) => `${pageObj(i)} 0 R`).join(' ');
+  write(`<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>\nendobj\n`);
+
+  pages.forEach((page, i) => {
+    const pageNum = pageObj(i);
+    const contentNum = pageNum + 1;
+    const imageNum = pageNum + 2;
+    const w = page.widthPt.toFixed(2);
+    const h = page.heightPt.toFixed(2);
+
+    beginObject(pageNum);
+    write(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${w} ${h}] ` +
+      `/Resources << /XObject << /Im0 ${imageNum} 0 R >> >> /Contents ${contentNum} 0 R >>\nendobj\n`
+    );
+
+    const content = `q ${w} 0 0 ${h} 0 0 cm /Im0 Do Q`;
+    beginObject(contentNum);
+    write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+    beginObject(imageNum);
+    write(
+      `<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} ` +
+      `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`
+    );
+    write(page.jpeg);
+    write('\nendstream\nendobj\n');
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+  for (let num = 1; num <= objectCount; num++) {
+    write(`${String(offsets[num]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+};
@@ -0,0 +1,161 @@
+import { FaceBox, PhotoData, PhotoEdits } from '../types.ts';
+import { STRIP_GAP_RATIO } from './cardLayout.ts';
+import { applyFilmStock } from './filmStocks.ts';
+import { loadImage } from './imageUtils.ts';
+
+// Renders a photo from its untouched original: turn, crop, tone adjustments,
+// then the film stock. Captures store the original next to the rendered
+// `dataUrl`, so edits are just parameters that can be changed or reset at
+// any time. The editor preview, applying edits and downloads all go through
+// here.
+//
+// Photo-booth strips keep their geometry: only tone and film apply, frame
+// by frame, as at capture.
+
+export const DEFAULT_EDITS: PhotoEdits = {
+  quarterTurns: 0,
+  crop: { x: 0, y: 0, size: 1 },
+  exposure: 0,
+  contrast: 0,
+  warmth: 0,
+};
+
+export const MIN_CROP_SIZE = 0.2;
+const WARMTH_SHIFT = 30; // Red/blue shift at full warmth, in 0..255 levels
+
+export type RenderSource = Pick<
+  PhotoData,
+  'original' | 'originalHasFilm' | 'edits' | 'filmStock' | 'capturedAt' | 'layout' | 'frameCount'
+>;
+
+export const isUnedited = (edits: PhotoEdits): boolean => JSON.stringify(edits) === JSON.stringify(DEFAULT_EDITS);
+
+export const canTurnAndCrop = (photo: Pick<PhotoData, 'layout'>) => photo.layout !== 'strip';
+
+// --- Geometry ---
+
+// A box in fractions of a square image, where it ends up when the image turns clockwise `turns` times
+const turnBox = (box: FaceBox, turns: number): FaceBox => {
+  let { x, y, width, height } = box;
+  for (let i = 0; i < ((turns % 4) + 4) % 4; i++) {
+    [x, y, width, height] = [1 - y - height, x, height, width];
+  }
+  return { x, y, width, height };
+};
+
+/** The crop after turning the photo, so it keeps covering the same part of it. */
+export const turnCrop = (crop: PhotoEdits['crop'], turns: number): PhotoEdits['crop'] => {
+  const { x, y } = turnBox({ x: crop.x, y: crop.y, width: crop.size, height: crop.size }, turns);
+  return { x, y, size: crop.size };
+};
+
+/** The square crop that frames the faces with some room around them, in the turned original. */
+export const cropAroundFaces = (faces: FaceBox[], quarterTurns: number): PhotoEdits['crop'] | null => {
+  if (faces.length === 0) return null;
+  const turned = faces.map(face => turnBox(face, quarterTurns));
+  const left = Math.min(...turned.map(f => f.x));
+  const top = Math.min(...turned.map(f => f.y));
+  const right = Math.max(...turned.map(f => f.x + f.width));
+  const bottom = Math.max(...turned.map(f => f.y + f.height));
+
+  const size = Math.min(1, Math.max(MIN_CROP_SIZE, Math.max(right - left, bottom - top) * 2.2));
+  const clamp = (value: number) => Math.min(1 - size, Math.max(0, value));
+  return { x: clamp((left + right) / 2 - size / 2), y: clamp((top + bottom) / 2 - size / 2), size };
+};
+
+// --- Tone ---
+
+// One lookup table per channel for exposure, contrast and warmth together
+const buildToneLuts = ({ exposure, contrast, warmth }: PhotoEdits): Uint8ClampedArray[] => {
+  const gain = 2 ** exposure;
+  const slope = 2 ** contrast;
+  return [WARMTH_SHIFT * warmth, 0, -WARMTH_SHIFT * warmth].map(shift => {
+    const lut = new Uint8ClampedArray(256);
+    for (let v = 0; v < 256; v++) lut[v] = (v * gain - 128) * slope + 128 + shift;
+    return lut;
+  });
+};
+
+const applyTone = (canvas: HTMLCanvasElement, edits: PhotoEdits) => {
+  if (edits.exposure === 0 && edits.contrast === 0 && edits.warmth === 0) return;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const data = image.data;
+  const [lutR, lutG, lutB] = buildToneLuts(edits);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = lutR[data[i]];
+    data[i + 1] = lutG[data[i + 1]];
+    data[i + 2] = lutB[data[i + 2]];
+  }
+  ctx.putImageData(image, 0, 0);
+};
+
+const develop = (canvas: HTMLCanvasElement, photo: RenderSource, seed: number) => {
+  applyTone(canvas, photo.edits);
+  if (!photo.originalHasFilm) applyFilmStock(canvas, photo.filmStock, seed);
+};
+
+// --- Rendering ---
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  return { canvas, ctx };
+};
+
+const renderSingle = (image: HTMLImageElement, photo: RenderSource, maxSize: number): HTMLCanvasElement => {
+  const { quarterTurns, crop } = photo.edits;
+  const isSideways = quarterTurns % 2 === 1;
+  const turnedWidth = isSideways ? image.height : image.width;
+  const turnedHeight = isSideways ? image.width : image.height;
+  const side = crop.size * Math.min(turnedWidth, turnedHeight);
+  const outputSize = Math.min(side, maxSize);
+  const scale = outputSize / side;
+
+  // Map the crop back into the original, turn, and draw straight into the output
+  const { canvas, ctx } = createCanvas(outputSize, outputSize);
+  ctx.scale(scale, scale);
+  ctx.translate(-crop.x * turnedWidth, -crop.y * turnedHeight);
+  ctx.translate(turnedWidth / 2, turnedHeight / 2);
+  ctx.rotate(quarterTurns * Math.PI / 2);
+  ctx.drawImage(image, -image.width / 2, -image.height / 2);
+
+  develop(canvas, photo, photo.capturedAt);
+  return canvas;
+};
+
+const renderStrip = (image: HTMLImageElement, photo: RenderSource, maxSize: number): HTMLCanvasElement => {
+  const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+  const size = image.width;
+  const gap = Math.round(size * STRIP_GAP_RATIO);
+  const { canvas, ctx } = createCanvas(image.width * scale, image.height * scale);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  // Frames one at a time, with the same seeds as the booth used
+  for (let i = 0; i < photo.frameCount; i++) {
+    const frame = createCanvas(size * scale, size * scale);
+    frame.ctx.drawImage(image, 0, i * (size + gap), size, size, 0, 0, frame.canvas.width, frame.canvas.height);
+    develop(frame.canvas, photo, photo.capturedAt + i);
+    ctx.drawImage(frame.canvas, 0, Math.round(i * (size + gap) * scale));
+  }
+  return canvas;
+};
+
+/**
+ * Renders the photo from an already loaded original. `maxSize` caps the
+ * longer side of the output, for previews.
+ */
+export const renderPhotoCanvas = (original: HTMLImageElement, photo: RenderSource, maxSize = Infinity): HTMLCanvasElement =>
+  canTurnAndCrop(photo) ? renderSingle(original, photo, maxSize) : renderStrip(original, photo, maxSize);
+
+/** Renders the photo at full resolution, as the data URL it is shown and stored with. */
+export const renderPhoto = async (photo: RenderSource): Promise<string> => {
+  const original = await loadImage(photo.original);
+  return renderPhotoCanvas(original, photo).toDataURL('image/jpeg', 0.9);
+};
@@ -0,0 +1,42 @@
+import { PhotoData, PhotoTagId } from '../types.ts';
+
+// Wall search: free text over captions and dates, a capture date range and
+// AI tags. Every part that is set must match.
+
+export interface PhotoQuery {
+  text: string;
+  from: string; // yyyy-mm-dd from a date input, inclusive; '' = open
+  to: string;
+  tags: PhotoTagId[]; // The photo needs all of them
+}
+
+export const EMPTY_QUERY: PhotoQuery = { text: '', from: '', to: '', tags: [] };
+
+export const isQueryActive = ({ text, from, to, tags }: PhotoQuery): boolean =>
+  text.trim() !== '' || from !== '' || to !== '' || tags.length > 0;
+
+// Case- and accent-insensitive, so "cafe" finds "Café"
+const fold = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// Local calendar day of a timestamp, comparable with date input values
+const toDayString = (time: number): string => {
+  const date = new Date(time);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const matchesQuery = (photo: PhotoData, query: PhotoQuery): boolean => {
+  const day = toDayString(photo.capturedAt);
+  if (query.from && day < query.from) return false;
+  if (query.to && day > query.to) return false;
+
+  if (query.tags.some(tag => !photo.tags?.includes(tag))) return false;
+
+  // Each word may match the caption or the displayed date ("jun 2024")
+  const haystack = fold(`${photo.caption} ${photo.date}`);
+  return fold(query.text).split(/\s+/).filter(Boolean).every(word => haystack.includes(word));
+};
+
+/** Matching photos, newest first. */
+export const searchPhotos = (photos: PhotoData[], query: PhotoQuery): PhotoData[] =>
+  photos.filter(photo => matchesQuery(photo, query)).sort((a, b) => b.capturedAt - a.capturedAt);
@@ -0,0 +1,41 @@
+import { STRIP_GAP_RATIO, stripImageHeight } from './cardLayout.ts';
+import { loadImage } from './imageUtils.ts';
+
+// Photo-booth strips are stored as one tall image. The geometry is fixed, so
+// individual frames can always be cut back out (e.g. for captioning).
+
+export const composeStrip = async (frames: string[]): Promise<string> => {
+  const images = await Promise.all(frames.map(loadImage));
+  const size = Math.min(...images.map(img => Math.min(img.width, img.height)));
+  const gap = Math.round(size * STRIP_GAP_RATIO);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = stripImageHeight(size, images.length);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  images.forEach((img, i) => {
+    ctx.drawImage(img, 0, 0, img.width, img.height, 0, i * (size + gap), size, size);
+  });
+
+  return canvas.toDataURL('image/jpeg', 0.9);
+};
+
+export const splitStrip = async (dataUrl: string, frameCount: number): Promise<string[]> => {
+  if (frameCount <= 1) return [dataUrl];
+
+  const strip = await loadImage(dataUrl);
+  const size = strip.width;
+  const gap = Math.round(size * STRIP_GAP_RATIO);
+
+  return Array.from({ length: frameCount }, (_, i) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    canvas.getContext('2d')?.drawImage(strip, 0, i * (size + gap), size, size, 0, 0, size, size);
+    return canvas.toDataURL('image/jpeg', 0.9);
+  });
+};
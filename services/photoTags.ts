@@ -0,0 +1,52 @@
+import { PhotoTagId } from '../types.ts';
+
+// The fixed vocabulary photos are tagged with. Providers are asked for a
+// structured answer restricted to these ids, and anything else they return
+// is dropped.
+
+export interface PhotoTag {
+  id: PhotoTagId;
+  label: string;
+  description: string; // What the model should look for
+}
+
+export const PHOTO_TAGS: PhotoTag[] = [
+  { id: 'people', label: 'People', description: 'one or more people, including selfies' },
+  { id: 'pets', label: 'Pets', description: 'dogs, cats or other animals kept as pets' },
+  { id: 'food', label: 'Food', description: 'meals, snacks, drinks or cooking' },
+  { id: 'outdoors', label: 'Outdoors', description: 'taken outside' },
+  { id: 'indoors', label: 'Indoors', description: 'taken inside a building or vehicle' },
+  { id: 'nature', label: 'Nature', description: 'landscapes, plants, sky, water or wild animals' },
+  { id: 'city', label: 'City', description: 'streets, buildings or urban scenes' },
+  { id: 'night', label: 'Night', description: 'taken at night or in the dark' },
+  { id: 'party', label: 'Party', description: 'celebrations, birthdays, weddings or gatherings' },
+  { id: 'art', label: 'Art', description: 'drawings, paintings, crafts or other artwork' },
+];
+
+export const PHOTO_TAG_IDS = PHOTO_TAGS.map(tag => tag.id);
+
+// JSON Schema for the structured answer, shared by all providers
+export const TAG_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    tags: { type: 'array', items: { type: 'string', enum: PHOTO_TAG_IDS } },
+  },
+  required: ['tags'],
+  additionalProperties: false,
+};
+
+export const buildTagPrompt = (frameCount: number): string => [
+  frameCount > 1
+    ? `These ${frameCount} images are consecutive frames of one photo-booth strip. Tag the strip as a whole.`
+    : 'Tag this photo.',
+  'Pick every tag that clearly applies, and only those:',
+  ...PHOTO_TAGS.map(tag => `- ${tag.id}: ${tag.description}`),
+  'Reply with JSON of the form {"tags": ["..."]}. An empty list is fine.',
+].join('\n');
+
+/** Reads a provider's JSON answer. Unknown ids are dropped; malformed JSON throws. */
+export const parseTagResponse = (text: string): PhotoTagId[] => {
+  const tags = JSON.parse(text)?.tags;
+  if (!Array.isArray(tags)) throw new Error('Tag response has no "tags" list');
+  return PHOTO_TAG_IDS.filter(id => tags.includes(id));
+};
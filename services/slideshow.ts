@@ -0,0 +1,114 @@
+import { PhotoData } from '../types.ts';
+import { getItemSize } from './cardLayout.ts';
+import { captionLocale } from './captionService.ts';
+
+// Presentation mode: which photos come in which order, the slow Ken Burns
+// drift on each slide, and reading the captions aloud with the Web Speech
+// API in the language they were written in.
+
+const SETTINGS_KEY = 'bao.slideshow';
+const KEN_BURNS_ZOOM = 1.12;
+const KEN_BURNS_PAN = 3; // % of the card, towards the zoomed-in end
+
+export type SlideOrder = 'date' | 'position';
+
+export const SLIDE_ORDERS: { id: SlideOrder; label: string }[] = [
+  { id: 'date', label: 'By date' },
+  { id: 'position', label: 'As on the wall' },
+];
+
+export const SLIDE_DURATIONS = [3, 5, 8, 12, 20]; // Seconds
+
+export interface SlideshowSettings {
+  order: SlideOrder;
+  seconds: number; // Per slide; narration can hold a slide longer
+  kenBurns: boolean;
+  narrate: boolean;
+}
+
+const DEFAULT_SETTINGS: SlideshowSettings = { order: 'date', seconds: 5, kenBurns: true, narrate: false };
+
+export const getSlideshowSettings = (): SlideshowSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const setSlideshowSettings = (settings: SlideshowSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// --- Order ---
+
+// Reading order: rows from the top, left to right within a row. A card
+// starts a new row once its center is below the bottom of the row's first.
+const byWallPosition = (photos: PhotoData[]): PhotoData[] => {
+  const center = (photo: PhotoData) => {
+    const { width, height } = getItemSize(photo);
+    return { x: photo.position.x + width / 2, y: photo.position.y + height / 2, halfHeight: height * photo.scale / 2 };
+  };
+  const rows: PhotoData[][] = [];
+  let rowBottom = -Infinity;
+  for (const photo of [...photos].sort((a, b) => center(a).y - center(b).y)) {
+    const { y, halfHeight } = center(photo);
+    if (y > rowBottom) {
+      rows.push([]);
+      rowBottom = y + halfHeight;
+    }
+    rows[rows.length - 1].push(photo);
+  }
+  return rows.flatMap(row => row.sort((a, b) => center(a).x - center(b).x));
+};
+
+export const orderSlides = (photos: PhotoData[], order: SlideOrder): PhotoData[] =>
+  order === 'position' ? byWallPosition(photos) : [...photos].sort((a, b) => a.capturedAt - b.capturedAt);
+
+// --- Ken Burns ---
+
+export interface KenBurnsFrame {
+  scale: number;
+  x: number; // Translation, % of the card
+  y: number;
+}
+
+/** Where a slide's drift starts and ends. Alternates zooming in and out; the direction comes from the photo. */
+export const kenBurnsMove = (photo: Pick<PhotoData, 'capturedAt'>, index: number): { from: KenBurnsFrame; to: KenBurnsFrame } => {
+  const angle = (photo.capturedAt % 360) * Math.PI / 180;
+  const near = { scale: KEN_BURNS_ZOOM, x: Math.cos(angle) * KEN_BURNS_PAN, y: Math.sin(angle) * KEN_BURNS_PAN };
+  const far = { scale: 1, x: 0, y: 0 };
+  return index % 2 === 0 ? { from: far, to: near } : { from: near, to: far };
+};
+
+// --- Narration ---
+
+export const canNarrate = () => 'speechSynthesis' in window;
+
+// An exact match for the language, else one for the same language in another region
+const pickVoice = (locale: string): SpeechSynthesisVoice | null => {
+  const voices = speechSynthesis.getVoices();
+  const primary = locale.split('-')[0].toLowerCase();
+  return voices.find(v => v.lang.toLowerCase() === locale.toLowerCase())
+    || voices.find(v => v.lang.split(/[-_]/)[0].toLowerCase() === primary)
+    || null;
+};
+
+/** Reads the caption aloud in its own language. Resolves once it's done, stopped, or couldn't be read. */
+export const narrateCaption = (photo: Pick<PhotoData, 'caption' | 'captionStyle'>): Promise<void> =>
+  new Promise(resolve => {
+    const text = photo.caption.replace(/#/g, '').trim(); // Hashtag captions read as words
+    if (!canNarrate() || !text) return resolve();
+
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = captionLocale(photo.captionStyle);
+    utterance.voice = pickVoice(utterance.lang); // Voices may still be loading; the browser then picks by `lang`
+    utterance.onend = () => resolve();
+    utterance.onerror = () => resolve();
+    speechSynthesis.speak(utterance);
+  });
+
+export const stopNarration = () => {
+  if (canNarrate()) speechSynthesis.cancel();
+};
@@ -0,0 +1,339 @@
+import { Decoration, PhotoData, Wall } from '../types.ts';
+import { isDecoration } from './decorations.ts';
+
+const DB_NAME = 'bao-retro-camera';
+const DB_VERSION = 5;
+const PHOTO_STORE = 'photos';
+const IMAGE_STORE = 'images';
+const WALL_STORE = 'walls';
+const DECORATION_STORE = 'decorations';
+const CLIP_STORE = 'clips';
+const ORIGINAL_STORE = 'originals';
+
+export const DEFAULT_WALL_ID = 'default';
+
+// Bump this whenever the persisted shape of PhotoData changes and add a
+// matching entry to RECORD_MIGRATIONS below.
+export const PHOTO_SCHEMA_VERSION = 13;
+
+// Fields that are not part of the photo record: session-only state, and the
+// image, original and clip, which are stored as blobs of their own.
+type TransientKeys = 'dataUrl' | 'original' | 'clip' | 'agitation' | 'isLoadingCaption' | 'captionError';
+
+// Everything about a photo except its image, as saved (and as put in wall bundles)
+export type PersistedPhoto = Omit<PhotoData, TransientKeys>;
+
+export type StoredPhoto = PersistedPhoto & {
+  wallId: string;
+  schemaVersion: number;
+};
+
+type StoredWall = Omit<Wall, 'photos' | 'decorations'>;
+
+// Decorations have no image and no migrations yet; invalid records are skipped on load
+type StoredDecoration = Decoration & { wallId: string };
+
+interface StoredImage {
+  id: string;
+  blob: Blob;
+}
+
+// Same shape, keyed by photo id; only photos with a live clip have one
+type StoredClip = StoredImage;
+
+// Same again; only photos whose original differs from the image shown have one
+type StoredOriginal = StoredImage;
+
+export const createWall = (name: string, id: string = Date.now().toString()): Wall => ({
+  id,
+  name,
+  background: '#f5f5f4', // stone-100
+  createdAt: Date.now(),
+  photos: [],
+  decorations: [],
+});
+
+// Structural upgrades of the database itself (object stores / indexes).
+// Entry N runs when upgrading from version N - 1 to N.
+const STORE_MIGRATIONS: Record<number, (db: IDBDatabase, tx: IDBTransaction) => void> = {
+  1: (db) => {
+    db.createObjectStore(PHOTO_STORE, { keyPath: 'id' });
+    db.createObjectStore(IMAGE_STORE, { keyPath: 'id' });
+  },
+  2: (db, tx) => {
+    db.createObjectStore(WALL_STORE, { keyPath: 'id' });
+    // Existing photos are moved onto this wall by record migration v6
+    const { photos, decorations, ...wall } = createWall('My Wall', DEFAULT_WALL_ID);
+    tx.objectStore(WALL_STORE).put(wall);
+  },
+  3: (db) => {
+    db.createObjectStore(DECORATION_STORE, { keyPath: 'id' });
+  },
+  4: (db) => {
+    db.createObjectStore(CLIP_STORE, { keyPath: 'id' });
+  },
+  5: (db) => {
+    db.createObjectStore(ORIGINAL_STORE, { keyPath: 'id' });
+  },
+};
+
+// Record-level upgrades of stored photos. Entry N turns a record at schema
+// version N - 1 into one at version N. Applied lazily on load.
+const RECORD_MIGRATIONS: Record<number, (record: Record<string, unknown>) => Record<string, unknown>> = {
+  // v2: capturedAt timestamp. Ids have always been Date.now() strings.
+  2: (record) => ({ ...record, capturedAt: Number(record.id) || Date.now() }),
+  // v3: film stock used at capture. Older photos were unprocessed.
+  3: (record) => ({ ...record, filmStock: 'none' }),
+  // v4: development progress is persisted so a reload resumes mid-development
+  4: (record) => ({ ...record, developProgress: 1 }),
+  // v5: stored tilt and scale, replacing the tilt derived from the id
+  5: (record) => ({ ...record, rotation: (parseInt(String(record.id)) % 10) - 5, scale: 1 }),
+  // v6: photos belong to a named wall
+  6: (record) => ({ ...record, wallId: DEFAULT_WALL_ID }),
+  // v7: card layout variants (photo-booth strips)
+  7: (record) => ({ ...record, layout: 'polaroid', frameCount: 1 }),
+  // v8: caption style per photo. Older captions were all written in the nostalgic voice.
+  8: (record) => ({ ...record, captionStyle: { persona: 'nostalgic', language: null, hint: '' } }),
+  // v9: photos are one kind of wall item, next to decorations
+  9: (record) => ({ ...record, kind: 'photo' }),
+  // v10: AI tags for search. Older photos are tagged on request from the search bar.
+  10: (record) => ({ ...record, tags: null }),
+  // v11: face boxes from auto-framing. Nobody looked for faces in older photos.
+  11: (record) => ({ ...record, faces: null }),
+  // v12: non-destructive edits. The stored image, film look and all, becomes the original.
+  12: (record) => ({
+    ...record,
+    originalHasFilm: record.filmStock !== 'none',
+    edits: { quarterTurns: 0, crop: { x: 0, y: 0, size: 1 }, exposure: 0, contrast: 0, warmth: 0 },
+  }),
+  // v13: frame templates. Every card so far was the classic one.
+  13: (record) => ({ ...record, frameTemplate: 'classic' }),
+};
+
+export const migrateRecord = (record: unknown): StoredPhoto => {
+  let current: Record<string, unknown> = { schemaVersion: 1, ...(typeof record === 'object' ? record : null) };
+  for (let v = Number(current.schemaVersion) + 1; v <= PHOTO_SCHEMA_VERSION; v++) {
+    const migrate = RECORD_MIGRATIONS[v];
+    current = { ...(migrate ? migrate(current) : current), schemaVersion: v };
+  }
+  return current as StoredPhoto;
+};
+
+// --- Blob helpers ---
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, base64] = dataUrl.split(',');
+  const mimeType = header.match(/data:(.*?);base64/)?.[1] || 'image/jpeg';
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+// --- IndexedDB plumbing ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (!window.indexedDB) {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let v = event.oldVersion + 1; v <= DB_VERSION; v++) {
+        STORE_MIGRATIONS[v]?.(db, tx);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a later retry if opening failed (e.g. private mode quirks)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// dataUrl last written per photo id, so unchanged images aren't re-encoded on every save
+const savedImages = new Map<string, string>();
+// Likewise for clips, which never change once recorded
+const savedClips = new Map<string, Blob>();
+// And originals, for the photos that have one stored
+const savedOriginals = new Map<string, string>();
+
+export const toPersistedPhoto = (photo: PhotoData): PersistedPhoto => {
+  const { dataUrl, original, clip, agitation, isLoadingCaption, captionError, ...rest } = photo;
+  return rest;
+};
+
+// Unedited photos without a film look are their own original; it isn't stored twice
+const originalToStore = (photo: PhotoData): string | null => photo.original === photo.dataUrl ? null : photo.original;
+
+const toStoredPhoto = (photo: PhotoData, wallId: string): StoredPhoto => {
+  return { ...toPersistedPhoto(photo), wallId, schemaVersion: PHOTO_SCHEMA_VERSION };
+};
+
+// --- Public API ---
+
+export const loadWalls = async (): Promise<Wall[]> => {
+  const db = await openDb();
+  const tx = db.transaction([WALL_STORE, PHOTO_STORE, IMAGE_STORE, DECORATION_STORE, CLIP_STORE, ORIGINAL_STORE], 'readonly');
+  const [storedWalls, records, images, decorations, clips, originals] = await Promise.all([
+    requestToPromise(tx.objectStore(WALL_STORE).getAll()),
+    requestToPromise(tx.objectStore(PHOTO_STORE).getAll()),
+    requestToPromise(tx.objectStore(IMAGE_STORE).getAll()),
+    requestToPromise(tx.objectStore(DECORATION_STORE).getAll()),
+    requestToPromise(tx.objectStore(CLIP_STORE).getAll()),
+    requestToPromise(tx.objectStore(ORIGINAL_STORE).getAll()),
+  ]);
+
+  const walls: Wall[] = (storedWalls as StoredWall[])
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map(wall => ({ ...wall, photos: [], decorations: [] }));
+  if (walls.length === 0) walls.push(createWall('My Wall', DEFAULT_WALL_ID));
+
+  const wallById = new Map(walls.map(w => [w.id, w]));
+  const imageById = new Map((images as StoredImage[]).map(img => [img.id, img.blob]));
+  const clipById = new Map((clips as StoredClip[]).map(clip => [clip.id, clip.blob]));
+  const originalById = new Map((originals as StoredOriginal[]).map(original => [original.id, original.blob]));
+
+  for (const raw of records) {
+    const blob = imageById.get(raw.id);
+    if (!blob) continue; // Orphaned metadata, nothing to show
+
+    const { schemaVersion, wallId, ...record } = migrateRecord(raw);
+    const dataUrl = await blobToDataUrl(blob);
+    savedImages.set(record.id, dataUrl);
+    const clip = clipById.get(record.id) || null;
+    if (clip) savedClips.set(record.id, clip);
+    const originalBlob = originalById.get(record.id);
+    const original = originalBlob ? await blobToDataUrl(originalBlob) : dataUrl;
+    if (originalBlob) savedOriginals.set(record.id, original);
+
+    // Photos whose wall went missing land on the first wall rather than vanishing
+    const wall = wallById.get(wallId) || walls[0];
+    wall.photos.push({
+      ...record,
+      dataUrl,
+      original,
+      clip,
+      agitation: 0,
+      isLoadingCaption: false,
+      captionError: null,
+    });
+  }
+
+  for (const { wallId, ...decoration } of decorations as StoredDecoration[]) {
+    if (!isDecoration(decoration)) continue;
+    (wallById.get(wallId) || walls[0]).decorations.push(decoration);
+  }
+
+  return walls;
+};
+
+export const saveWalls = async (walls: Wall[]): Promise<void> => {
+  const entries = walls.flatMap(wall => wall.photos.map(photo => ({ photo, wallId: wall.id })));
+
+  // Encode changed images up front: awaiting anything else inside the
+  // transaction would let it auto-commit.
+  const changedImages: StoredImage[] = entries
+    .filter(({ photo }) => savedImages.get(photo.id) !== photo.dataUrl)
+    .map(({ photo }) => ({ id: photo.id, blob: dataUrlToBlob(photo.dataUrl) }));
+  const changedClips = entries.filter(({ photo }) => (savedClips.get(photo.id) || null) !== photo.clip);
+  const changedOriginals = entries
+    .filter(({ photo }) => (savedOriginals.get(photo.id) || null) !== originalToStore(photo))
+    .map(({ photo }) => {
+      const original = originalToStore(photo);
+      return { id: photo.id, original, blob: original ? dataUrlToBlob(original) : null };
+    });
+
+  const db = await openDb();
+  const tx = db.transaction([WALL_STORE, PHOTO_STORE, IMAGE_STORE, DECORATION_STORE, CLIP_STORE, ORIGINAL_STORE], 'readwrite');
+  const wallStore = tx.objectStore(WALL_STORE);
+  const photoStore = tx.objectStore(PHOTO_STORE);
+  const imageStore = tx.objectStore(IMAGE_STORE);
+  const decorationStore = tx.objectStore(DECORATION_STORE);
+  const clipStore = tx.objectStore(CLIP_STORE);
+  const originalStore = tx.objectStore(ORIGINAL_STORE);
+  const decorations: StoredDecoration[] = walls.flatMap(wall => wall.decorations.map(d => ({ ...d, wallId: wall.id })));
+
+  const deleteMissing = (store: IDBObjectStore, liveIds: Set<string>, onDelete?: (key: string) => void) => {
+    const keysRequest = store.getAllKeys();
+    keysRequest.onsuccess = () => {
+      for (const key of keysRequest.result) {
+        if (!liveIds.has(key as string)) {
+          store.delete(key);
+          onDelete?.(key as string);
+        }
+      }
+    };
+  };
+
+  deleteMissing(wallStore, new Set(walls.map(w => w.id)));
+  deleteMissing(photoStore, new Set(entries.map(e => e.photo.id)), key => {
+    imageStore.delete(key);
+    clipStore.delete(key);
+    originalStore.delete(key);
+    savedImages.delete(key);
+    savedClips.delete(key);
+    savedOriginals.delete(key);
+  });
+  deleteMissing(decorationStore, new Set(decorations.map(d => d.id)));
+
+  walls.forEach(({ photos, decorations, ...wall }) => wallStore.put(wall));
+  entries.forEach(({ photo, wallId }) => photoStore.put(toStoredPhoto(photo, wallId)));
+  changedImages.forEach(img => imageStore.put(img));
+  changedClips.forEach(({ photo }) => {
+    if (photo.clip) clipStore.put({ id: photo.id, blob: photo.clip });
+    else clipStore.delete(photo.id);
+  });
+  changedOriginals.forEach(({ id, blob }) => {
+    if (blob) originalStore.put({ id, blob });
+    else originalStore.delete(id);
+  });
+  decorations.forEach(d => decorationStore.put(d));
+
+  await transactionDone(tx);
+  entries.forEach(({ photo }) => savedImages.set(photo.id, photo.dataUrl));
+  changedClips.forEach(({ photo }) => {
+    if (photo.clip) savedClips.set(photo.id, photo.clip);
+    else savedClips.delete(photo.id);
+  });
+  changedOriginals.forEach(({ id, original }) => {
+    if (original) savedOriginals.set(id, original);
+    else savedOriginals.delete(id);
+  });
+};
@@ -0,0 +1,503 @@
+import { PhotoData, Position } from '../types.ts';
+import { PHOTO_SCHEMA_VERSION, PersistedPhoto, migrateRecord, toPersistedPhoto } from './storageService.ts';
+import { findInvalidPhotoField } from './wallBundle.ts';
+
+// Shared walls: the photos of one local wall are mirrored into a room on the
+// relay (server/relay.mjs) and kept in sync with everyone else in the room.
+//
+// The client doesn't hook individual mutations. It is handed the wall's
+// photos after every change and diffs them against what it last told the
+// room, so undo, layouts, captions arriving etc. all sync the same way.
+// Offline, that diff keeps growing; on rejoin it is merged with the room's
+// photos, so deletes and edits made offline are sent rather than undone.
+//
+// Conflicts: the relay puts every op in one order and echoes it back to its
+// sender. A field with a local write still waiting for its echo ignores
+// remote values for that field, because the local write was ordered later
+// and will win everywhere. A photo being dragged is claimed, and the relay
+// refuses other people's moves of it until it is released.
+//
+// Decorations and live clips stay local.
+
+const SETTINGS_KEY = 'bao.sync';
+const FLUSH_MS = 50; // Coalesces drags into ~20 updates a second
+const CURSOR_MS = 50;
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 15000;
+
+// --- Protocol (mirrored in server/relay.mjs) ---
+
+export const SYNCED_FIELDS = [
+  'position', 'rotation', 'scale', 'zIndex', 'caption', 'captionStyle', 'tags', 'edits', 'filmStock', 'dataUrl',
+  'frameTemplate', // Only the id: peers without a custom template see the classic card
+] as const;
+type SyncedField = typeof SYNCED_FIELDS[number];
+export type SyncedChanges = Partial<Pick<PhotoData, SyncedField>>;
+
+// Everything needed to show (and edit) the photo elsewhere, images included.
+// schemaVersion is missing from peers that predate it; they were at this one.
+export type SyncPhoto = PersistedPhoto & { dataUrl: string; original: string; schemaVersion?: number };
+
+export type SyncOp =
+  | { kind: 'upsert'; photo: SyncPhoto }
+  | { kind: 'patch'; id: string; changes: SyncedChanges }
+  | { kind: 'delete'; id: string };
+
+export interface Participant {
+  id: string;
+  name: string;
+  color: string;
+  cursor: Position | null; // World coordinates on the shared wall
+}
+
+type ClientMessage =
+  | { type: 'hello'; name: string }
+  | { type: 'op'; opId: number; op: SyncOp }
+  | { type: 'claim'; id: string }
+  | { type: 'release'; id: string }
+  | { type: 'cursor'; position: Position | null };
+
+type ServerMessage =
+  | { type: 'welcome'; you: string; participants: Participant[]; photos: SyncPhoto[]; claims: Record<string, string> }
+  | { type: 'joined'; participant: Participant }
+  | { type: 'left'; id: string }
+  | { type: 'op'; from: string; opId: number; op: SyncOp }
+  | { type: 'reject'; opId: number; photo: SyncPhoto | null } // Current state of the photo the op was refused for
+  | { type: 'claimed'; id: string; by: string }
+  | { type: 'claim-denied'; id: string; by: string }
+  | { type: 'released'; id: string }
+  | { type: 'cursor'; from: string; position: Position | null };
+
+// --- Settings ---
+
+export interface SyncSettings {
+  serverUrl: string;
+  name: string;
+}
+
+const DEFAULT_SETTINGS: SyncSettings = { serverUrl: 'ws://localhost:8787', name: '' };
+
+export const getSyncSettings = (): SyncSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const setSyncSettings = (settings: SyncSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const createRoomCode = (): string => Math.random().toString(36).slice(2, 8);
+
+// --- Session ---
+
+export type SyncStatus = 'connecting' | 'connected' | 'reconnecting';
+
+/** Changes from the room, for the app to apply to the shared wall. */
+export type RemoteChange =
+  | { kind: 'upsert'; photo: PhotoData }
+  | { kind: 'patch'; id: string; changes: SyncedChanges }
+  | { kind: 'delete'; id: string };
+
+export interface SyncHandlers {
+  onStatus: (status: SyncStatus) => void;
+  onParticipants: (participants: Participant[], you: string | null) => void;
+  onClaims: (claims: Record<string, string>) => void; // Photo id -> participant id, including our own
+  onRemote: (changes: RemoteChange[]) => void;
+  onClaimDenied: (photoId: string, by: Participant | undefined) => void;
+}
+
+export interface SyncSession {
+  publish: (photos: PhotoData[]) => void;
+  claim: (photoId: string) => void;
+  release: (photoId: string) => void;
+  sendCursor: (position: Position | null) => void;
+  close: () => void;
+}
+
+const toSyncPhoto = (photo: PhotoData): SyncPhoto => ({
+  ...toPersistedPhoto(photo),
+  dataUrl: photo.dataUrl,
+  original: photo.original,
+  schemaVersion: PHOTO_SCHEMA_VERSION,
+});
+
+const isImageDataUrl = (value: unknown): value is string => typeof value === 'string' && value.startsWith('data:image/');
+
+// Peers may run another version of the app, or send anything at all: their
+// photos are migrated like stored ones and checked like bundled ones.
+// Returns null for photos that can't be shown.
+const fromSyncPhoto = (raw: unknown): PhotoData | null => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return null;
+  const { schemaVersion = PHOTO_SCHEMA_VERSION, ...fields } = raw as Record<string, unknown>;
+  if (!Number.isInteger(schemaVersion) || (schemaVersion as number) > PHOTO_SCHEMA_VERSION) return null;
+
+  const { schemaVersion: _, wallId, ...record }: Record<string, unknown> = migrateRecord({ ...fields, schemaVersion });
+  const { dataUrl, original } = record;
+  if (findInvalidPhotoField(record) !== null || !isImageDataUrl(dataUrl) || !isImageDataUrl(original)) {
+    console.warn("Ignoring an invalid photo from the shared wall", record.id);
+    return null;
+  }
+  return {
+    ...(record as PersistedPhoto),
+    dataUrl,
+    original,
+    clip: null,
+    agitation: 0,
+    isLoadingCaption: false,
+    captionError: null,
+  };
+};
+
+// Patches are checked on the photo they change
+const isValidPatch = (photo: PhotoData, changes: Record<string, unknown>) =>
+  findInvalidPhotoField({ ...photo, ...changes }) === null && (!('dataUrl' in changes) || isImageDataUrl(changes.dataUrl));
+
+const pickSynced = (photo: Partial<PhotoData>): SyncedChanges => {
+  const picked: Record<string, unknown> = {};
+  SYNCED_FIELDS.forEach(field => {
+    if (field in photo) picked[field] = photo[field];
+  });
+  return picked as SyncedChanges;
+};
+
+const isSame = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Joins `room` on the relay at `serverUrl` and keeps reconnecting until
+ * closed. Photos already on the wall that the room doesn't have are added
+ * to it on (re)join.
+ */
+export const createSyncSession = (
+  serverUrl: string,
+  room: string,
+  name: string,
+  handlers: SyncHandlers,
+): SyncSession => {
+  let socket: WebSocket | null = null;
+  let closed = false;
+  let attempt = 0;
+  let reconnectTimer: number | null = null;
+  let you: string | null = null;
+  let participants = new Map<string, Participant>();
+  let claims: Record<string, string> = {};
+
+  // The wall as last published by the app, and the room as we last told it
+  let local = new Map<string, PhotoData>();
+  let shared = new Map<string, PhotoData>();
+  let flushTimer: number | null = null;
+
+  // Unacknowledged local writes, per photo and field
+  let nextOpId = 1;
+  const pendingOps = new Map<number, { id: string; kind: SyncOp['kind']; fields: SyncedField[] }>();
+  const pendingFields = new Map<string, Map<SyncedField, number>>();
+
+  let cursor: Position | null = null;
+  let cursorTimer: number | null = null;
+
+  const send = (message: ClientMessage) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const emitParticipants = () => handlers.onParticipants([...participants.values()], you);
+
+  // --- Pending writes ---
+
+  const isPending = (id: string, field: SyncedField) => (pendingFields.get(id)?.get(field) || 0) > 0;
+
+  const sendOp = (op: SyncOp) => {
+    const opId = nextOpId++;
+    const fields: SyncedField[] = op.kind === 'patch'
+      ? Object.keys(op.changes) as SyncedField[]
+      : op.kind === 'upsert' ? [...SYNCED_FIELDS] : [];
+    const id = op.kind === 'upsert' ? op.photo.id : op.id;
+    const counts = pendingFields.get(id) || new Map<SyncedField, number>();
+    fields.forEach(field => counts.set(field, (counts.get(field) || 0) + 1));
+    pendingFields.set(id, counts);
+    pendingOps.set(opId, { id, kind: op.kind, fields });
+    send({ type: 'op', opId, op });
+  };
+
+  const acknowledge = (opId: number) => {
+    const pending = pendingOps.get(opId);
+    if (!pending) return;
+    pendingOps.delete(opId);
+    const counts = pendingFields.get(pending.id);
+    if (!counts) return;
+    pending.fields.forEach(field => {
+      const left = (counts.get(field) || 0) - 1;
+      if (left > 0) counts.set(field, left);
+      else counts.delete(field);
+    });
+    if (counts.size === 0) pendingFields.delete(pending.id);
+  };
+
+  // --- Outgoing ---
+
+  const flush = () => {
+    if (flushTimer !== null) window.clearTimeout(flushTimer);
+    flushTimer = null;
+    if (socket?.readyState !== WebSocket.OPEN || you === null) return;
+
+    for (const photo of local.values()) {
+      const before = shared.get(photo.id);
+      if (!before) {
+        sendOp({ kind: 'upsert', photo: toSyncPhoto(photo) });
+        continue;
+      }
+      const changes: Record<string, unknown> = {};
+      SYNCED_FIELDS.forEach(field => {
+        if (!isSame(before[field], photo[field])) changes[field] = photo[field];
+      });
+      if (Object.keys(changes).length > 0) sendOp({ kind: 'patch', id: photo.id, changes });
+    }
+    for (const id of shared.keys()) {
+      if (!local.has(id)) sendOp({ kind: 'delete', id });
+    }
+    shared = new Map(local);
+  };
+
+  const scheduleFlush = () => {
+    if (flushTimer === null) flushTimer = window.setTimeout(flush, FLUSH_MS);
+  };
+
+  // --- Incoming ---
+
+  // Applies a remote change to our view of the wall and of the room, minus fields we have pending
+  const applyRemote = (change: RemoteChange, out: RemoteChange[]) => {
+    if (change.kind === 'delete') {
+      local.delete(change.id);
+      shared.delete(change.id);
+      pendingFields.delete(change.id);
+      out.push(change);
+      return;
+    }
+
+    const id = change.kind === 'upsert' ? change.photo.id : change.id;
+    const incoming = change.kind === 'upsert' ? pickSynced(change.photo) : change.changes;
+    const changes: Record<string, unknown> = {};
+    (Object.keys(incoming) as SyncedField[]).forEach(field => {
+      if (!isPending(id, field)) changes[field] = incoming[field];
+    });
+
+    const existing = local.get(id);
+    if (!existing) {
+      if (change.kind !== 'upsert') return; // Patch for a photo we already deleted
+      const photo = { ...change.photo, ...changes };
+      local.set(id, photo);
+      shared.set(id, photo);
+      out.push({ kind: 'upsert', photo });
+      return;
+    }
+    if (Object.keys(changes).length === 0) return;
+    if (change.kind === 'patch' && !isValidPatch(existing, changes)) {
+      console.warn("Ignoring an invalid change from the shared wall", id);
+      return;
+    }
+    local.set(id, { ...existing, ...changes });
+    const base = shared.get(id);
+    if (base) shared.set(id, { ...base, ...changes });
+    out.push({ kind: 'patch', id, changes: changes as SyncedChanges });
+  };
+
+  const handleWelcome = (message: Extract<ServerMessage, { type: 'welcome' }>) => {
+    // What we had told the room before (re)joining, and what may not have reached it
+    const known = shared;
+    const deletedHere = new Set([...known.keys()].filter(id => !local.has(id)));
+    pendingOps.forEach(op => { if (op.kind === 'delete') deletedHere.add(op.id); });
+
+    you = message.you;
+    participants = new Map(message.participants.map(p => [p.id, p]));
+    claims = message.claims;
+    emitParticipants();
+    handlers.onClaims(claims);
+
+    // The room's photos come in, except where we changed them since we last
+    // heard from it: those changes, and photos the room doesn't know, go out
+    // on the next flush
+    const out: RemoteChange[] = [];
+    shared = new Map();
+    for (const raw of message.photos) {
+      const photo = fromSyncPhoto(raw);
+      if (!photo) continue;
+      if (deletedHere.has(photo.id)) {
+        shared.set(photo.id, photo);
+        continue;
+      }
+      const existing = local.get(photo.id);
+      if (!existing) {
+        local.set(photo.id, photo);
+        shared.set(photo.id, photo);
+        out.push({ kind: 'upsert', photo });
+        continue;
+      }
+      const before = known.get(photo.id);
+      const roomValues = pickSynced(photo);
+      const changes: Record<string, unknown> = {};
+      SYNCED_FIELDS.forEach(field => {
+        const changedHere = isPending(photo.id, field) || (before !== undefined && !isSame(before[field], existing[field]));
+        if (!changedHere) changes[field] = roomValues[field];
+      });
+      local.set(photo.id, { ...existing, ...changes });
+      shared.set(photo.id, { ...existing, ...roomValues });
+      out.push({ kind: 'patch', id: photo.id, changes: changes as SyncedChanges });
+    }
+    pendingOps.clear();
+    pendingFields.clear();
+    if (out.length > 0) handlers.onRemote(out);
+    scheduleFlush();
+  };
+
+  const handleMessage = (message: ServerMessage) => {
+    switch (message.type) {
+      case 'welcome':
+        handleWelcome(message);
+        break;
+      case 'joined':
+        participants.set(message.participant.id, message.participant);
+        emitParticipants();
+        break;
+      case 'left':
+        participants.delete(message.id);
+        emitParticipants();
+        break;
+      case 'op': {
+        if (message.from === you) {
+          acknowledge(message.opId);
+          break;
+        }
+        const out: RemoteChange[] = [];
+        const { op } = message;
+        if (op.kind === 'upsert') {
+          const photo = fromSyncPhoto(op.photo);
+          if (photo) applyRemote({ kind: 'upsert', photo }, out);
+        } else {
+          applyRemote(op, out);
+        }
+        if (out.length > 0) handlers.onRemote(out);
+        break;
+      }
+      case 'reject': {
+        const id = pendingOps.get(message.opId)?.id;
+        acknowledge(message.opId);
+        const out: RemoteChange[] = [];
+        const photo = message.photo && fromSyncPhoto(message.photo);
+        if (photo) applyRemote({ kind: 'upsert', photo }, out);
+        else if (id && !message.photo) applyRemote({ kind: 'delete', id }, out);
+        if (out.length > 0) handlers.onRemote(out);
+        break;
+      }
+      case 'claimed':
+        claims = { ...claims, [message.id]: message.by };
+        handlers.onClaims(claims);
+        break;
+      case 'released': {
+        const { [message.id]: _, ...rest } = claims;
+        claims = rest;
+        handlers.onClaims(claims);
+        break;
+      }
+      case 'claim-denied':
+        handlers.onClaimDenied(message.id, participants.get(message.by));
+        break;
+      case 'cursor': {
+        const participant = participants.get(message.from);
+        if (!participant) break;
+        participants.set(message.from, { ...participant, cursor: message.position });
+        emitParticipants();
+        break;
+      }
+    }
+  };
+
+  // --- Connection ---
+
+  const connect = () => {
+    handlers.onStatus(attempt === 0 ? 'connecting' : 'reconnecting');
+    const url = `${serverUrl.replace(/\/+$/, '')}/${encodeURIComponent(room)}`;
+    const ws = new WebSocket(url);
+    socket = ws;
+
+    ws.onopen = () => {
+      attempt = 0;
+      handlers.onStatus('connected');
+      send({ type: 'hello', name });
+    };
+    ws.onmessage = (e) => {
+      try {
+        handleMessage(JSON.parse(e.data));
+      } catch (err) {
+        console.warn("Ignoring bad sync message", err);
+      }
+    };
+    ws.onclose = () => {
+      if (socket !== ws) return;
+      socket = null;
+      you = null;
+      participants = new Map();
+      claims = {};
+      emitParticipants();
+      handlers.onClaims(claims);
+      if (closed) return;
+      // Back off, with jitter so a restarted relay isn't hit by everyone at once
+      const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt) * (0.75 + Math.random() * 0.5);
+      attempt++;
+      handlers.onStatus('reconnecting');
+      reconnectTimer = window.setTimeout(connect, delay);
+    };
+  };
+
+  connect();
+
+  return {
+    publish: (photos) => {
+      local = new Map(photos.map(p => [p.id, p]));
+      scheduleFlush();
+    },
+    claim: (photoId) => {
+      if (!local.has(photoId)) return;
+      flush(); // The claim must not overtake the moves before it
+      send({ type: 'claim', id: photoId });
+    },
+    release: (photoId) => {
+      if (!local.has(photoId)) return;
+      flush(); // Last position first
+      send({ type: 'release', id: photoId });
+    },
+    sendCursor: (position) => {
+      cursor = position;
+      if (cursorTimer !== null) return;
+      cursorTimer = window.setTimeout(() => {
+        cursorTimer = null;
+        send({ type: 'cursor', position: cursor });
+      }, CURSOR_MS);
+    },
+    close: () => {
+      closed = true;
+      if (reconnectTimer !== null) window.clearTimeout(reconnectTimer);
+      if (cursorTimer !== null) window.clearTimeout(cursorTimer);
+      flush(); // Whatever is still queued goes out before leaving
+      socket?.close();
+      socket = null;
+    },
+  };
+};
+
+/** Applies changes from the room to a wall's photos. */
+export const applyRemoteChanges = (photos: PhotoData[], changes: RemoteChange[]): PhotoData[] => {
+  let next = photos;
+  for (const change of changes) {
+    if (change.kind === 'delete') {
+      next = next.filter(p => p.id !== change.id);
+    } else if (change.kind === 'upsert') {
+      const exists = next.some(p => p.id === change.photo.id);
+      next = exists ? next.map(p => p.id === change.photo.id ? change.photo : p) : [...next, change.photo];
+    } else {
+      next = next.map(p => p.id === change.id ? { ...p, ...change.changes } : p);
+    }
+  }
+  return next;
+};
@@ -0,0 +1,108 @@
+import { Position, WallItem } from '../types.ts';
+import { getItemCorners } from './cardLayout.ts';
+
+// The wall is an infinite canvas: photo positions are world coordinates and
+// the viewport maps them to the screen as `screen = world * zoom + (x, y)`.
+
+export interface Viewport {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export interface ScreenSize {
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_VIEWPORT: Viewport = { x: 0, y: 0, zoom: 1 };
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 4;
+
+const VIEWPORTS_KEY = 'bao.viewports';
+
+export const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+export const screenToWorld = (view: Viewport, point: Position): Position => ({
+  x: (point.x - view.x) / view.zoom,
+  y: (point.y - view.y) / view.zoom,
+});
+
+export const worldToScreen = (view: Viewport, point: Position): Position => ({
+  x: point.x * view.zoom + view.x,
+  y: point.y * view.zoom + view.y,
+});
+
+/** Zooms by `factor` while keeping the world point under `anchor` (screen px) in place. */
+export const zoomAt = (view: Viewport, anchor: Position, factor: number): Viewport => {
+  const zoom = clampZoom(view.zoom * factor);
+  const world = screenToWorld(view, anchor);
+  return { zoom, x: anchor.x - world.x * zoom, y: anchor.y - world.y * zoom };
+};
+
+/** Puts a world point at the center of the screen. */
+export const centerOn = (point: Position, screen: ScreenSize, zoom: number): Viewport => ({
+  zoom,
+  x: screen.width / 2 - point.x * zoom,
+  y: screen.height / 2 - point.y * zoom,
+});
+
+/** The part of the world currently on screen. */
+export const visibleBounds = (view: Viewport, screen: ScreenSize): Bounds => {
+  const topLeft = screenToWorld(view, { x: 0, y: 0 });
+  const bottomRight = screenToWorld(view, { x: screen.width, y: screen.height });
+  return { minX: topLeft.x, minY: topLeft.y, maxX: bottomRight.x, maxY: bottomRight.y };
+};
+
+export const itemBounds = (item: WallItem): Bounds => {
+  const corners = getItemCorners(item);
+  return {
+    minX: Math.min(...corners.map(c => c.x)),
+    minY: Math.min(...corners.map(c => c.y)),
+    maxX: Math.max(...corners.map(c => c.x)),
+    maxY: Math.max(...corners.map(c => c.y)),
+  };
+};
+
+export const unionBounds = (boxes: Bounds[]): Bounds | null => {
+  if (boxes.length === 0) return null;
+  return {
+    minX: Math.min(...boxes.map(b => b.minX)),
+    minY: Math.min(...boxes.map(b => b.minY)),
+    maxX: Math.max(...boxes.map(b => b.maxX)),
+    maxY: Math.max(...boxes.map(b => b.maxY)),
+  };
+};
+
+/** Viewport showing all of `bounds` with `margin` screen px around it, never zoomed past 1. */
+export const fitBounds = (bounds: Bounds, screen: ScreenSize, margin: number): Viewport => {
+  const width = Math.max(1, bounds.maxX - bounds.minX);
+  const height = Math.max(1, bounds.maxY - bounds.minY);
+  const zoom = clampZoom(Math.min(
+    1,
+    (screen.width - margin * 2) / width,
+    (screen.height - margin * 2) / height
+  ));
+  return centerOn({ x: bounds.minX + width / 2, y: bounds.minY + height / 2 }, screen, zoom);
+};
+
+// --- Persistence (per wall) ---
+
+export const getSavedViewports = (): Record<string, Viewport> => {
+  try {
+    return JSON.parse(localStorage.getItem(VIEWPORTS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const saveViewports = (viewports: Record<string, Viewport>) => {
+  localStorage.setItem(VIEWPORTS_KEY, JSON.stringify(viewports));
+};
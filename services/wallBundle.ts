@@ -0,0 +1,298 @@
+import { Decoration, PhotoData, Wall } from '../types.ts';
+import {
+  PHOTO_SCHEMA_VERSION,
+  PersistedPhoto,
+  blobToDataUrl,
+  dataUrlToBlob,
+  migrateRecord,
+  toPersistedPhoto,
+} from './storageService.ts';
+import { ZipEntry, ZipFormatError, createZip, readZip } from './zipArchive.ts';
+import { downloadBlob } from './imageUtils.ts';
+import { isDecoration } from './decorations.ts';
+import { PHOTO_TAG_IDS } from './photoTags.ts';
+import { clipExtension } from './liveClip.ts';
+import { CustomFrame, getCustomFrames, isCustomFrame } from './frameTemplates.ts';
+import { CAPTION_PERSONAS } from './captionPrompt.ts';
+
+// `.baowall` bundles: a zip holding manifest.json plus one image file per
+// photo (and the original of edited ones, and a video file per live clip), for moving a wall between machines. Photo records use the same
+// schema (and migrations) as the local database; decorations are plain
+// records in the manifest. Custom frame templates the photos use come along,
+// their background images as files of their own.
+
+export const BUNDLE_EXTENSION = '.baowall';
+const BUNDLE_FORMAT = 'bao-wall';
+const BUNDLE_VERSION = 1; // Bump when the bundle layout itself changes
+const MANIFEST_PATH = 'manifest.json';
+
+interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  photoSchemaVersion: number; // PHOTO_SCHEMA_VERSION of the app that wrote it
+  exportedAt: number;
+  wall: { name: string; background: string };
+  photos: (PersistedPhoto & { image: string; original?: string; clip?: string })[]; // Paths inside the zip
+  decorations?: Decoration[]; // Missing in bundles from before decorations existed
+  frames?: CustomFrame[]; // backgroundImage is a path inside the zip; missing in bundles from before frame templates
+}
+
+export interface WallBundle {
+  name: string;
+  background: string;
+  photos: PhotoData[];
+  decorations: Decoration[];
+  frames: CustomFrame[];
+}
+
+export class BundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BundleError';
+  }
+}
+
+// --- Export ---
+
+const IMAGE_EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/webp': 'webp' };
+const MIME_BY_EXTENSION: Record<string, string> = {
+  png: 'image/png',
+  webp: 'image/webp',
+  jpg: 'image/jpeg',
+  webm: 'video/webm',
+  mp4: 'video/mp4',
+};
+
+// Zip entry name -> MIME type, falling back to `fallback` for unknown extensions
+const mimeTypeOf = (path: string, fallback: string) => MIME_BY_EXTENSION[path.split('.').pop()!.toLowerCase()] || fallback;
+
+// The file at `path` in the zip, if `path` names one
+const fileAt = (files: Map<string, Uint8Array>, path: unknown, fallbackType: string): Blob | undefined => {
+  if (typeof path !== 'string') return undefined;
+  const bytes = files.get(path);
+  return bytes && new Blob([bytes], { type: mimeTypeOf(path, fallbackType) });
+};
+
+export const createWallBundle = async (wall: Wall): Promise<Blob> => {
+  const files: ZipEntry[] = [];
+  const photos: BundleManifest['photos'] = [];
+
+  for (const photo of wall.photos) {
+    const blob = dataUrlToBlob(photo.dataUrl);
+    const image = `images/${photo.id}.${IMAGE_EXTENSIONS[blob.type] || 'jpg'}`;
+    files.push({ name: image, data: new Uint8Array(await blob.arrayBuffer()) });
+
+    let original: string | undefined;
+    if (photo.original !== photo.dataUrl) {
+      const originalBlob = dataUrlToBlob(photo.original);
+      original = `originals/${photo.id}.${IMAGE_EXTENSIONS[originalBlob.type] || 'jpg'}`;
+      files.push({ name: original, data: new Uint8Array(await originalBlob.arrayBuffer()) });
+    }
+
+    let clip: string | undefined;
+    if (photo.clip) {
+      clip = `clips/${photo.id}.${clipExtension(photo.clip)}`;
+      files.push({ name: clip, data: new Uint8Array(await photo.clip.arrayBuffer()) });
+    }
+    photos.push({ ...toPersistedPhoto(photo), image, original, clip });
+  }
+
+  const usedFrames = new Set(wall.photos.map(photo => photo.frameTemplate));
+  const frames: CustomFrame[] = [];
+  for (const frame of getCustomFrames().filter(custom => usedFrames.has(custom.id))) {
+    let backgroundImage: string | null = null;
+    if (frame.backgroundImage) {
+      const blob = dataUrlToBlob(frame.backgroundImage);
+      backgroundImage = `frames/${frame.id}.${IMAGE_EXTENSIONS[blob.type] || 'jpg'}`;
+      files.push({ name: backgroundImage, data: new Uint8Array(await blob.arrayBuffer()) });
+    }
+    frames.push({ ...frame, backgroundImage });
+  }
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    photoSchemaVersion: PHOTO_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    wall: { name: wall.name, background: wall.background },
+    photos,
+    decorations: wall.decorations,
+    frames,
+  };
+  const manifestFile = { name: MANIFEST_PATH, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) };
+
+  // Manifest first, so it's easy to find when inspecting the zip by hand
+  return createZip([manifestFile, ...files]);
+};
+
+export const exportWallBundle = async (wall: Wall) => {
+  const slug = wall.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'wall';
+  downloadBlob(await createWallBundle(wall), `${slug}${BUNDLE_EXTENSION}`);
+};
+
+// --- Import ---
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isInteger = (value: unknown): value is number => Number.isInteger(value);
+
+const isFaceBox = (value: unknown) =>
+  isObject(value) && ['x', 'y', 'width', 'height'].every(key => Number.isFinite(value[key]));
+
+const isPhotoEdits = (value: unknown) =>
+  isObject(value) && [0, 1, 2, 3].some(turns => turns === value.quarterTurns)
+  && isObject(value.crop) && ['x', 'y', 'size'].every(key => Number.isFinite(value.crop[key]))
+  && ['exposure', 'contrast', 'warmth'].every(key => Number.isFinite(value[key]));
+
+const isCaptionStyle = (value: unknown) =>
+  isObject(value) && CAPTION_PERSONAS.some(persona => persona.id === value.persona)
+  && typeof value.hint === 'string' && (value.language === null || typeof value.language === 'string');
+
+const FIELD_CHECKS: [keyof PersistedPhoto, (value: unknown) => boolean][] = [
+  ['id', v => typeof v === 'string' && v.length > 0],
+  ['kind', v => v === 'photo'],
+  ['caption', v => typeof v === 'string'],
+  ['date', v => typeof v === 'string'],
+  ['capturedAt', Number.isFinite],
+  ['filmStock', v => typeof v === 'string'],
+  ['layout', v => v === 'polaroid' || v === 'strip'],
+  ['frameCount', v => isInteger(v) && v >= 1],
+  ['frameTemplate', v => typeof v === 'string'],
+  ['captionStyle', isCaptionStyle],
+  ['tags', v => v === null || (Array.isArray(v) && v.every(tag => PHOTO_TAG_IDS.some(id => id === tag)))],
+  ['faces', v => v === null || (Array.isArray(v) && v.every(isFaceBox))],
+  ['originalHasFilm', v => typeof v === 'boolean'],
+  ['edits', isPhotoEdits],
+  ['position', v => isObject(v) && Number.isFinite(v.x) && Number.isFinite(v.y)],
+  ['rotation', Number.isFinite],
+  ['scale', v => typeof v === 'number' && Number.isFinite(v) && v > 0],
+  ['zIndex', Number.isFinite],
+  ['developProgress', Number.isFinite],
+];
+
+/**
+ * The first field of a photo record that is missing or invalid, or null if
+ * there is none. Photos from shared walls go through the same checks.
+ */
+export const findInvalidPhotoField = (record: Record<string, unknown>): keyof PersistedPhoto | null =>
+  FIELD_CHECKS.find(([field, isValid]) => !isValid(record[field]))?.[0] ?? null;
+
+const parseManifest = (files: Map<string, Uint8Array>): BundleManifest => {
+  const raw = files.get(MANIFEST_PATH);
+  if (!raw) throw new BundleError('This file has no manifest. Is it really a wall bundle?');
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(raw));
+  } catch {
+    throw new BundleError('The bundle manifest is corrupt (invalid JSON).');
+  }
+
+  if (!isObject(manifest) || manifest.format !== BUNDLE_FORMAT) {
+    throw new BundleError('This file is not a Bao Retro Camera wall bundle.');
+  }
+  if (!isInteger(manifest.version) || !isInteger(manifest.photoSchemaVersion)) {
+    throw new BundleError('The bundle manifest is missing its version.');
+  }
+  if (manifest.version > BUNDLE_VERSION || manifest.photoSchemaVersion > PHOTO_SCHEMA_VERSION) {
+    throw new BundleError('This bundle was made by a newer version of the app. Update the app to open it.');
+  }
+  if (!isObject(manifest.wall) || !Array.isArray(manifest.photos)) {
+    throw new BundleError('The bundle manifest is incomplete.');
+  }
+  if (manifest.decorations !== undefined && !Array.isArray(manifest.decorations)) {
+    throw new BundleError('The bundle manifest has an invalid decorations list.');
+  }
+  if (manifest.frames !== undefined && !Array.isArray(manifest.frames)) {
+    throw new BundleError('The bundle manifest has an invalid frames list.');
+  }
+  return manifest as unknown as BundleManifest; // Its entries are checked as they're read
+};
+
+const readPhoto = async (entry: unknown, index: number, files: Map<string, Uint8Array>, schemaVersion: number): Promise<PhotoData> => {
+  const label = `Photo ${index + 1}`;
+  if (!isObject(entry)) throw new BundleError(`${label} in the manifest is not a photo record.`);
+
+  // Older bundles are brought up to date with the same migrations as the database
+  const { schemaVersion: _, wallId, image, original, clip, ...record }: Record<string, unknown> =
+    migrateRecord({ ...entry, schemaVersion });
+  const invalidField = findInvalidPhotoField(record);
+  if (invalidField) throw new BundleError(`${label} has a missing or invalid "${invalidField}".`);
+
+  const imageBlob = fileAt(files, image, 'image/jpeg');
+  if (!imageBlob) throw new BundleError(`${label} is missing its image file.`);
+
+  // Without an original of its own, the image is the original
+  const originalBlob = fileAt(files, original, 'image/jpeg');
+  if (original !== undefined && !originalBlob) throw new BundleError(`${label} is missing its original file.`);
+
+  // Live clips are optional; a clip the manifest names must be there, though
+  const clipBlob = fileAt(files, clip, 'video/webm');
+  if (clip !== undefined && !clipBlob) throw new BundleError(`${label} is missing its clip file.`);
+
+  const dataUrl = await blobToDataUrl(imageBlob);
+  return {
+    ...(record as PersistedPhoto),
+    dataUrl,
+    original: originalBlob ? await blobToDataUrl(originalBlob) : dataUrl,
+    clip: clipBlob || null,
+    agitation: 0,
+    isLoadingCaption: false,
+    captionError: null,
+  };
+};
+
+/** Reads and validates a bundle file. Throws BundleError with a user-facing message. */
+export const readWallBundle = async (file: Blob): Promise<WallBundle> => {
+  let files: Map<string, Uint8Array>;
+  try {
+    files = await readZip(await file.arrayBuffer());
+  } catch (err) {
+    if (err instanceof ZipFormatError) throw new BundleError(`The bundle is corrupt: ${err.message}.`);
+    throw err;
+  }
+
+  const manifest = parseManifest(files);
+  const photos: PhotoData[] = [];
+  for (let i = 0; i < manifest.photos.length; i++) {
+    photos.push(await readPhoto(manifest.photos[i], i, files, manifest.photoSchemaVersion));
+  }
+
+  const decorations = manifest.decorations || [];
+  decorations.forEach((entry, i) => {
+    if (!isDecoration(entry)) throw new BundleError(`Decoration ${i + 1} in the manifest is invalid.`);
+  });
+
+  const frames: CustomFrame[] = [];
+  for (const [i, entry] of (manifest.frames || []).entries()) {
+    if (!isCustomFrame(entry)) throw new BundleError(`Frame ${i + 1} in the manifest is invalid.`);
+    const background = fileAt(files, entry.backgroundImage, 'image/jpeg');
+    if (entry.backgroundImage !== null && !background) {
+      throw new BundleError(`Frame "${entry.label}" is missing its background image.`);
+    }
+    frames.push({ ...entry, backgroundImage: background ? await blobToDataUrl(background) : null });
+  }
+
+  return {
+    name: typeof manifest.wall.name === 'string' ? manifest.wall.name : 'Imported wall',
+    background: typeof manifest.wall.background === 'string' ? manifest.wall.background : '#f5f5f4',
+    photos,
+    decorations,
+    frames,
+  };
+};
+
+/**
+ * Gives bundle items fresh ids where they clash with `takenIds` (or each
+ * other), so importing never overwrites an existing photo or decoration.
+ */
+export const remapItemIds = <T extends { id: string }>(items: T[], takenIds: Set<string>): T[] => {
+  const taken = new Set(takenIds);
+  return items.map(item => {
+    let id = item.id;
+    while (taken.has(id)) id = crypto.randomUUID(); // Not Date.now(): new shots take those
+    taken.add(id);
+    return id === item.id ? item : { ...item, id };
+  });
+};
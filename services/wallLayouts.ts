@@ -0,0 +1,336 @@
+import { Decoration, PhotoData, Position, WallItem, WallItemBase } from '../types.ts';
+import { getCardLayout, getItemSize } from './cardLayout.ts';
+
+// One-click arrangements of a wall. Each returns a target position, rotation
+// and scale per photo; decorations on a photo go along with it. The app
+// animates there and can restore the free arrangement from before, which is
+// kept in localStorage per wall.
+
+const SAVED_LAYOUTS_KEY = 'bao.wallLayouts';
+
+export type WallLayoutMode = 'grid' | 'timeline' | 'scatter' | 'cluster';
+
+export const WALL_LAYOUTS: { id: WallLayoutMode; label: string }[] = [
+  { id: 'grid', label: 'Tidy grid' },
+  { id: 'timeline', label: 'Timeline' },
+  { id: 'scatter', label: 'Scatter' },
+  { id: 'cluster', label: 'Group by caption' },
+];
+
+export type ItemPlacement = Pick<WallItemBase, 'position' | 'rotation' | 'scale'>;
+
+/** A wall's current layout, and the free arrangement to go back to. */
+export interface SavedLayout {
+  mode: WallLayoutMode;
+  saved: Record<string, ItemPlacement>; // By item id
+}
+
+export interface LayoutArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const pickPlacement = ({ position, rotation, scale }: WallItemBase): ItemPlacement => ({ position, rotation, scale });
+
+const isLayoutMode = (value: unknown): value is WallLayoutMode => WALL_LAYOUTS.some(layout => layout.id === value);
+
+const isSavedLayout = (value: unknown): value is SavedLayout =>
+  typeof value === 'object' && value !== null
+  && 'mode' in value && isLayoutMode(value.mode)
+  && 'saved' in value && typeof value.saved === 'object' && value.saved !== null;
+
+// By wall id; anything unreadable is dropped
+export const getSavedLayouts = (): Record<string, SavedLayout> => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SAVED_LAYOUTS_KEY) || '{}');
+    return Object.fromEntries(
+      Object.entries(parsed).filter((entry): entry is [string, SavedLayout] => isSavedLayout(entry[1]))
+    );
+  } catch {
+    return {};
+  }
+};
+
+export const saveLayouts = (layouts: Record<string, SavedLayout>) => {
+  localStorage.setItem(SAVED_LAYOUTS_KEY, JSON.stringify(layouts));
+};
+
+const GAP = 24;
+const GROUP_GAP = 56; // Extra space between days / clusters
+const MIN_LAYOUT_SCALE = 0.35;
+const SCALE_STEP = 0.9;
+const CLUSTER_THRESHOLD = 0.15; // Jaccard similarity that puts two captions in one group
+
+// Cards scale around their center, but `position` is the unscaled top-left.
+// Converts the wanted top-left of the scaled card into a position.
+const positionFor = (photo: PhotoData, x: number, y: number, scale: number): Position => {
+  const card = getCardLayout(photo);
+  return {
+    x: x - card.width * (1 - scale) / 2,
+    y: y - card.height * (1 - scale) / 2,
+  };
+};
+
+// --- Row flow, shared by grid / timeline / cluster ---
+
+// A tile is a rigid block of cards (one photo, or a pile) placed as a unit
+interface Tile {
+  width: number;
+  height: number;
+  cards: { photo: PhotoData; dx: number; dy: number; rotation: number }[];
+}
+
+const singleTile = (photo: PhotoData, scale: number): Tile => {
+  const card = getCardLayout(photo);
+  return { width: card.width * scale, height: card.height * scale, cards: [{ photo, dx: 0, dy: 0, rotation: 0 }] };
+};
+
+// A cluster as a loose overlapping pile, roughly square
+const pileTile = (photos: PhotoData[], scale: number): Tile => {
+  const columns = Math.ceil(Math.sqrt(photos.length));
+  const cards = photos.map((photo, i) => {
+    const card = getCardLayout(photo);
+    return {
+      photo,
+      dx: (i % columns) * card.width * scale * 0.55,
+      dy: Math.floor(i / columns) * card.height * scale * 0.45,
+      rotation: ((i * 37) % 9) - 4, // Deterministic little tilt
+    };
+  });
+  const width = Math.max(...cards.map(c => c.dx + getCardLayout(c.photo).width * scale));
+  const height = Math.max(...cards.map(c => c.dy + getCardLayout(c.photo).height * scale));
+  return { width, height, cards };
+};
+
+// Flows tiles left to right, wrapping at `width`; every group starts a new row
+const flow = (groups: Tile[][], width: number, scale: number) => {
+  const placed: { tile: Tile; x: number; y: number }[] = [];
+  let y = 0;
+  let usedWidth = 0;
+
+  for (const group of groups) {
+    let x = 0;
+    let rowHeight = 0;
+    for (const tile of group) {
+      if (x > 0 && x + tile.width > width) {
+        x = 0;
+        y += rowHeight + GAP * scale;
+        rowHeight = 0;
+      }
+      placed.push({ tile, x, y });
+      x += tile.width + GAP * scale;
+      rowHeight = Math.max(rowHeight, tile.height);
+      usedWidth = Math.max(usedWidth, x - GAP * scale);
+    }
+    y += rowHeight + GROUP_GAP * scale;
+  }
+
+  return { placed, width: usedWidth, height: Math.max(0, y - GROUP_GAP * scale) };
+};
+
+// Shrinks cards until the flow fits the area's height (or hits the minimum scale)
+const flowToFit = (build: (scale: number) => Tile[][], area: LayoutArea): Map<string, ItemPlacement> => {
+  let scale = 1;
+  let result = flow(build(scale), area.width, scale);
+  while (result.height > area.height && scale * SCALE_STEP >= MIN_LAYOUT_SCALE) {
+    scale *= SCALE_STEP;
+    result = flow(build(scale), area.width, scale);
+  }
+
+  const offsetX = area.x + Math.max(0, (area.width - result.width) / 2);
+  const placements = new Map<string, ItemPlacement>();
+  for (const { tile, x, y } of result.placed) {
+    for (const card of tile.cards) {
+      placements.set(card.photo.id, {
+        position: positionFor(card.photo, offsetX + x + card.dx, area.y + y + card.dy, scale),
+        rotation: card.rotation,
+        scale,
+      });
+    }
+  }
+  return placements;
+};
+
+// --- Caption similarity ---
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'this', 'that', 'from', 'into', 'our', 'your', 'you', 'are', 'was', 'were',
+  'its', 'his', 'her', 'their', 'they', 'them', 'she', 'him', 'all', 'one', 'out', 'but', 'not', 'just',
+  'has', 'have', 'had', 'will', 'can', 'now', 'here', 'there', 'what', 'when', 'who', 'how', 'than', 'then',
+  'too', 'very', 'more', 'most', 'some', 'such', 'over', 'under', 'again', 'ever', 'every', 'moment', 'moments',
+]);
+
+// Scripts written without spaces are compared by character pairs instead of words
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]/u;
+
+const captionTokens = (caption: string): Set<string> => {
+  const tokens = new Set<string>();
+  for (const word of caption.toLowerCase().match(/[\p{L}\p{N}']+/gu) || []) {
+    if (UNSPACED_SCRIPT.test(word)) {
+      for (let i = 0; i < word.length - 1; i++) tokens.add(word.slice(i, i + 2));
+    } else if (word.length > 2 && !STOP_WORDS.has(word)) {
+      tokens.add(word.replace(/(ies|es|s)$/, '')); // Crude plural folding: "beaches" ~ "beach"
+    }
+  }
+  return tokens;
+};
+
+const jaccard = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(token => { if (b.has(token)) shared++; });
+  return shared / (a.size + b.size - shared);
+};
+
+// Single-link clustering: photos whose captions are similar enough share a
+// group, largest first. Photos that match nothing are returned separately.
+export const clusterByCaption = (photos: PhotoData[]): { clusters: PhotoData[][]; unmatched: PhotoData[] } => {
+  const tokens = photos.map(p => captionTokens(p.caption));
+  const parent = photos.map((_, i) => i);
+  const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+
+  for (let i = 0; i < photos.length; i++) {
+    for (let j = i + 1; j < photos.length; j++) {
+      if (jaccard(tokens[i], tokens[j]) >= CLUSTER_THRESHOLD) parent[find(i)] = find(j);
+    }
+  }
+
+  const groups = new Map<number, PhotoData[]>();
+  photos.forEach((photo, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), photo]);
+  });
+
+  const clusters = [...groups.values()].filter(g => g.length > 1).sort((a, b) => b.length - a.length);
+  const unmatched = [...groups.values()].filter(g => g.length === 1).flat();
+  return { clusters, unmatched };
+};
+
+// --- Layouts ---
+
+const byCaptureTime = (photos: PhotoData[]) => [...photos].sort((a, b) => a.capturedAt - b.capturedAt);
+
+const dayKey = (photo: PhotoData) => new Date(photo.capturedAt).toDateString();
+
+// Gentle random scatter: one jittered cell per photo, so they spread out without stacking
+const scatter = (photos: PhotoData[], area: LayoutArea): Map<string, ItemPlacement> => {
+  const columns = Math.max(1, Math.round(Math.sqrt(photos.length * area.width / Math.max(1, area.height))));
+  const rows = Math.ceil(photos.length / columns);
+  const cellWidth = area.width / columns;
+  const cellHeight = area.height / rows;
+
+  // Let neighbours overlap a little; that's the point of a scatter
+  const cards = photos.map(getCardLayout);
+  const largestWidth = Math.max(...cards.map(c => c.width));
+  const largestHeight = Math.max(...cards.map(c => c.height));
+  const scale = Math.max(MIN_LAYOUT_SCALE, Math.min(1, cellWidth * 1.25 / largestWidth, cellHeight * 1.25 / largestHeight));
+
+  const cells = photos.map((_, i) => i).sort(() => Math.random() - 0.5);
+  const placements = new Map<string, ItemPlacement>();
+  photos.forEach((photo, i) => {
+    const cell = cells[i];
+    const card = getCardLayout(photo);
+    const centerX = area.x + (cell % columns + 0.5 + (Math.random() - 0.5) * 0.4) * cellWidth;
+    const centerY = area.y + (Math.floor(cell / columns) + 0.5 + (Math.random() - 0.5) * 0.4) * cellHeight;
+    placements.set(photo.id, {
+      position: { x: centerX - card.width / 2, y: centerY - card.height / 2 },
+      rotation: Math.round((Math.random() - 0.5) * 20),
+      scale,
+    });
+  });
+  return placements;
+};
+
+export const arrangePhotos = (mode: WallLayoutMode, photos: PhotoData[], area: LayoutArea): Map<string, ItemPlacement> => {
+  if (photos.length === 0) return new Map();
+
+  switch (mode) {
+    case 'grid':
+      return flowToFit(scale => [photos.map(p => singleTile(p, scale))], area);
+
+    case 'timeline': {
+      // One row per day, oldest first
+      const days = new Map<string, PhotoData[]>();
+      for (const photo of byCaptureTime(photos)) {
+        days.set(dayKey(photo), [...(days.get(dayKey(photo)) || []), photo]);
+      }
+      return flowToFit(scale => [...days.values()].map(day => day.map(p => singleTile(p, scale))), area);
+    }
+
+    case 'cluster': {
+      // A pile per group, then the unmatched photos in rows of their own
+      const { clusters, unmatched } = clusterByCaption(photos);
+      return flowToFit(scale => [
+        clusters.map(cluster => pileTile(cluster, scale)),
+        unmatched.map(p => singleTile(p, scale)),
+      ].filter(group => group.length > 0), area);
+    }
+
+    case 'scatter':
+      return scatter(photos, area);
+  }
+};
+
+// --- Decorations ---
+// A decoration sits on the topmost photo under its center and keeps its place
+// on the card when the photo moves: same offset, turn and scale relative to it.
+// Decorations on the bare wall stay where they are.
+
+const centerOf = (item: WallItem): Position => {
+  const { width, height } = getItemSize(item);
+  return { x: item.position.x + width / 2, y: item.position.y + height / 2 };
+};
+
+// A wall point in the item's own frame: from its center, unrotated and unscaled
+const toItemFrame = (item: WallItem, point: Position): Position => {
+  const center = centerOf(item);
+  const rad = -item.rotation * Math.PI / 180;
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+  return {
+    x: (dx * Math.cos(rad) - dy * Math.sin(rad)) / item.scale,
+    y: (dx * Math.sin(rad) + dy * Math.cos(rad)) / item.scale,
+  };
+};
+
+const fromItemFrame = (item: WallItem, point: Position): Position => {
+  const center = centerOf(item);
+  const rad = item.rotation * Math.PI / 180;
+  return {
+    x: center.x + (point.x * Math.cos(rad) - point.y * Math.sin(rad)) * item.scale,
+    y: center.y + (point.x * Math.sin(rad) + point.y * Math.cos(rad)) * item.scale,
+  };
+};
+
+const isOnCard = (photo: PhotoData, point: Position) => {
+  const local = toItemFrame(photo, point);
+  const { width, height } = getCardLayout(photo);
+  return Math.abs(local.x) <= width / 2 && Math.abs(local.y) <= height / 2;
+};
+
+/** Placements for the decorations on photos that `placements` moves, so they move along. */
+export const attachDecorations = (
+  photos: PhotoData[],
+  decorations: Decoration[],
+  placements: Map<string, ItemPlacement>
+): Map<string, ItemPlacement> => {
+  const byZ = [...photos].sort((a, b) => b.zIndex - a.zIndex);
+  const attached = new Map<string, ItemPlacement>();
+  for (const decoration of decorations) {
+    const center = centerOf(decoration);
+    const photo = byZ.find(p => isOnCard(p, center));
+    const placement = photo && placements.get(photo.id);
+    if (!photo || !placement) continue;
+
+    const moved = fromItemFrame({ ...photo, ...placement }, toItemFrame(photo, center));
+    const { width, height } = getItemSize(decoration);
+    attached.set(decoration.id, {
+      position: { x: moved.x - width / 2, y: moved.y - height / 2 },
+      rotation: decoration.rotation + placement.rotation - photo.rotation,
+      scale: decoration.scale * placement.scale / photo.scale,
+    });
+  }
+  return attached;
+};
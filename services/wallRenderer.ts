@@ -0,0 +1,338 @@
+import { Decoration, PhotoData, WallItem } from '../types.ts';
+import { loadImage } from './imageUtils.ts';
+import { getCardLayout, getItemCorners, getItemSize } from './cardLayout.ts';
+import { PIN_SIZE, STICKER_SIZE, TAPE_WIDTH, tapeOutline } from './decorations.ts';
+import { captionFont, getFrameLook } from './frameTemplates.ts';
+
+// Draws Polaroid cards (and decorations) straight from wall items onto a canvas, so exports don't
+// depend on what's currently in the DOM (or on screen). Units are CSS pixels;
+// callers scale the context for higher DPIs.
+
+const CAPTION_FONT = '20px "Patrick Hand", cursive'; // The default; frame templates may use others
+const CAPTION_LINE_HEIGHT = 1.2; // Times the caption size
+const DATE_FONT = '10px sans-serif';
+const DEFAULT_BACKGROUND = '#f5f5f4'; // stone-100, same as the app
+const WALL_MARGIN = 48;
+
+// Browsers cap canvas dimensions; stay under the common 16384px / ~268MP limits
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_AREA = 16384 * 16384;
+
+export const CSS_DPI = 96;
+
+// Explicit line breaks (e.g. haiku) are kept; long lines are word-wrapped
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    if (line) lines.push(line);
+  }
+  return lines;
+};
+
+export const ensureFontsLoaded = async (photos: PhotoData[]) => {
+  const fonts = new Set([CAPTION_FONT, ...photos.map(photo => captionFont(getFrameLook(photo)))]);
+  try {
+    await Promise.all([...fonts].map(font => document.fonts.load(font)));
+  } catch {
+    // Fall back to whatever font of the family is available
+  }
+};
+
+/** The background images of the photos' frames, in the same order; null for frames without one. */
+export const loadFrameImages = async (photos: PhotoData[]): Promise<(HTMLImageElement | null)[]> => {
+  const urls = photos.map(photo => getFrameLook(photo).backgroundImage);
+  const unique = [...new Set(urls.filter((url): url is string => !!url))];
+  const images = await Promise.all(unique.map(loadImage));
+  return urls.map(url => url ? images[unique.indexOf(url)] : null);
+};
+
+/** Draws one card with its top-left corner at the current origin. */
+export const drawCard = (
+  ctx: CanvasRenderingContext2D,
+  photo: PhotoData,
+  image: HTMLImageElement | HTMLCanvasElement,
+  withShadow = true,
+  frameImage: HTMLImageElement | null = null // See loadFrameImages
+) => {
+  const { width, height, padding, imageHeight, captionGap } = getCardLayout(photo);
+  const look = getFrameLook(photo);
+  const imageWidth = width - padding.side * 2;
+
+  ctx.save();
+
+  // Card
+  if (withShadow) {
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.25)';
+    ctx.shadowBlur = 18;
+    ctx.shadowOffsetY = 6;
+  }
+  ctx.fillStyle = look.background;
+  ctx.fillRect(0, 0, width, height);
+  ctx.shadowColor = 'transparent';
+
+  // Frame background image, cover-fit over the card
+  if (frameImage) {
+    const frameScale = Math.max(width / frameImage.width, height / frameImage.height);
+    const fw = width / frameScale;
+    const fh = height / frameScale;
+    ctx.drawImage(frameImage, (frameImage.width - fw) / 2, (frameImage.height - fh) / 2, fw, fh, 0, 0, width, height);
+  }
+
+  // Photo, cover-fit into the window
+  const scale = Math.max(imageWidth / image.width, imageHeight / image.height);
+  const sw = imageWidth / scale;
+  const sh = imageHeight / scale;
+  ctx.fillStyle = '#111827';
+  ctx.fillRect(padding.side, padding.top, imageWidth, imageHeight);
+  ctx.drawImage(
+    image,
+    (image.width - sw) / 2, (image.height - sh) / 2, sw, sh,
+    padding.side, padding.top, imageWidth, imageHeight
+  );
+
+  // Date, right-aligned under the photo
+  const textTop = padding.top + imageHeight + captionGap;
+  ctx.fillStyle = look.dateInk;
+  ctx.font = DATE_FONT;
+  ctx.textAlign = 'right';
+  ctx.textBaseline = 'top';
+  ctx.fillText(photo.date, width - padding.side - 4, textTop);
+
+  // Caption, wrapped and clipped to the bottom border area
+  ctx.beginPath();
+  ctx.rect(padding.side, textTop, imageWidth, height - textTop - padding.bottom / 4);
+  ctx.clip();
+  ctx.fillStyle = look.ink;
+  ctx.font = captionFont(look);
+  ctx.textAlign = 'center';
+  wrapText(ctx, photo.caption || '...', imageWidth - 8).forEach((line, i) => {
+    ctx.fillText(line, width / 2, textTop + 14 + i * look.captionSize * CAPTION_LINE_HEIGHT);
+  });
+
+  ctx.restore();
+};
+
+/** Draws one decoration with its top-left corner at the current origin; mirrors components/DecorationItem. */
+export const drawDecoration = (ctx: CanvasRenderingContext2D, item: Decoration) => {
+  ctx.save();
+
+  switch (item.kind) {
+    case 'sticker':
+      ctx.font = `${STICKER_SIZE * 0.72}px sans-serif`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.shadowColor = 'rgba(0, 0, 0, 0.25)';
+      ctx.shadowBlur = 3;
+      ctx.shadowOffsetY = 2;
+      ctx.fillText(item.emoji, STICKER_SIZE / 2, STICKER_SIZE / 2);
+      break;
+
+    case 'tape': {
+      ctx.beginPath();
+      tapeOutline(item.length).forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+      ctx.closePath();
+      ctx.clip();
+      ctx.globalAlpha = 0.8;
+      ctx.fillStyle = item.color;
+      ctx.fillRect(0, 0, item.length, TAPE_WIDTH);
+      ctx.fillStyle = item.pattern === 'stripes' ? 'rgba(255, 255, 255, 0.45)' : 'rgba(255, 255, 255, 0.6)';
+      if (item.pattern === 'stripes') {
+        // 45° bands, 6px colour then 4px white, matching the CSS gradient
+        ctx.rotate(Math.PI / 4);
+        const reach = item.length + TAPE_WIDTH;
+        for (let x = -reach; x < reach; x += 10) ctx.fillRect(x + 6, -reach, 4, reach * 2);
+      } else if (item.pattern === 'dots') {
+        for (let x = 5; x < item.length; x += 10) {
+          for (let y = 5; y < TAPE_WIDTH; y += 10) {
+            ctx.beginPath();
+            ctx.arc(x, y, 2, 0, Math.PI * 2);
+            ctx.fill();
+          }
+        }
+      }
+      break;
+    }
+
+    case 'pin': {
+      const c = PIN_SIZE / 2;
+      ctx.shadowColor = 'rgba(0, 0, 0, 0.35)';
+      ctx.shadowBlur = 2;
+      ctx.shadowOffsetX = 1;
+      ctx.shadowOffsetY = 3;
+      ctx.beginPath();
+      ctx.arc(c, c, 10, 0, Math.PI * 2);
+      ctx.fillStyle = item.color;
+      ctx.fill();
+      ctx.shadowColor = 'transparent';
+      ctx.strokeStyle = 'rgba(0, 0, 0, 0.2)';
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.arc(c - 3.5, c - 3.5, 3, 0, Math.PI * 2);
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+      ctx.fill();
+      break;
+    }
+
+    case 'ink':
+      ctx.beginPath();
+      item.points.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+      ctx.strokeStyle = item.color;
+      ctx.lineWidth = item.width;
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+      ctx.stroke();
+      break;
+  }
+
+  ctx.restore();
+};
+
+/**
+ * Renders the arranged wall: every photo and decoration at its position,
+ * rotation, scale and z-order, cropped to the area they cover. `dpi` is
+ * relative to 96 DPI CSS pixels.
+ */
+export const renderWall = async (
+  items: WallItem[],
+  dpi: number,
+  background: string = DEFAULT_BACKGROUND
+): Promise<HTMLCanvasElement> => {
+  if (items.length === 0) throw new Error('The wall is empty');
+
+  const photos = items.filter((item): item is PhotoData => item.kind === 'photo');
+  await ensureFontsLoaded(photos);
+  const images = await Promise.all(photos.map(p => loadImage(p.dataUrl)));
+  const frameImages = await loadFrameImages(photos);
+  const imageById = new Map(photos.map((p, i) => [p.id, images[i]]));
+  const frameImageById = new Map(photos.map((p, i) => [p.id, frameImages[i]]));
+
+  const corners = items.flatMap(getItemCorners);
+  const minX = Math.min(...corners.map(c => c.x)) - WALL_MARGIN;
+  const minY = Math.min(...corners.map(c => c.y)) - WALL_MARGIN;
+  const maxX = Math.max(...corners.map(c => c.x)) + WALL_MARGIN;
+  const maxY = Math.max(...corners.map(c => c.y)) + WALL_MARGIN;
+  const width = maxX - minX;
+  const height = maxY - minY;
+
+  let scale = dpi / CSS_DPI;
+  const limit = Math.min(
+    MAX_CANVAS_SIDE / Math.max(width, height),
+    Math.sqrt(MAX_CANVAS_AREA / (width * height))
+  );
+  if (scale > limit) {
+    console.warn(`Wall export reduced to ${Math.floor(limit * CSS_DPI)} DPI to fit the browser's canvas limits`);
+    scale = limit;
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.scale(scale, scale);
+  ctx.translate(-minX, -minY);
+
+  [...items].sort((a, b) => a.zIndex - b.zIndex).forEach(item => {
+    const { width: itemWidth, height: itemHeight } = getItemSize(item);
+    ctx.save();
+    ctx.translate(item.position.x + itemWidth / 2, item.position.y + itemHeight / 2);
+    ctx.rotate(item.rotation * Math.PI / 180);
+    ctx.scale(item.scale, item.scale);
+    ctx.translate(-itemWidth / 2, -itemHeight / 2);
+    if (item.kind === 'photo') drawCard(ctx, item, imageById.get(item.id)!, true, frameImageById.get(item.id));
+    else drawDecoration(ctx, item);
+    ctx.restore();
+  });
+
+  return canvas;
+};
+
+// --- Contact sheet ---
+
+export const CONTACT_SHEET_DPI = 150;
+const A4_INCHES = { width: 8.27, height: 11.69 };
+const SHEET_COLUMNS = 3;
+const SHEET_ROWS = 3;
+const SHEET_MARGIN = 0.4; // inches
+const SHEET_HEADER = 0.5; // inches
+
+/**
+ * Lays photos out chronologically on A4 pages, captions and dates included.
+ * Returns one canvas per page at CONTACT_SHEET_DPI.
+ */
+export const renderContactSheet = async (photos: PhotoData[], title: string): Promise<HTMLCanvasElement[]> => {
+  if (photos.length === 0) throw new Error('The wall is empty');
+
+  await ensureFontsLoaded(photos);
+  const ordered = [...photos].sort((a, b) => a.capturedAt - b.capturedAt);
+  const images = await Promise.all(ordered.map(p => loadImage(p.dataUrl)));
+  const frameImages = await loadFrameImages(ordered);
+
+  const px = (inches: number) => Math.round(inches * CONTACT_SHEET_DPI);
+  const pageWidth = px(A4_INCHES.width);
+  const pageHeight = px(A4_INCHES.height);
+  const margin = px(SHEET_MARGIN);
+  const header = px(SHEET_HEADER);
+  const cellWidth = (pageWidth - margin * 2) / SHEET_COLUMNS;
+  const cellHeight = (pageHeight - margin * 2 - header) / SHEET_ROWS;
+
+  const perPage = SHEET_COLUMNS * SHEET_ROWS;
+  const pageCount = Math.ceil(ordered.length / perPage);
+  const pages: HTMLCanvasElement[] = [];
+
+  for (let page = 0; page < pageCount; page++) {
+    const canvas = document.createElement('canvas');
+    canvas.width = pageWidth;
+    canvas.height = pageHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available');
+
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, pageWidth, pageHeight);
+
+    ctx.fillStyle = '#44403c';
+    ctx.font = `${Math.round(header * 0.6)}px "Patrick Hand", cursive`;
+    ctx.textBaseline = 'top';
+    ctx.textAlign = 'left';
+    ctx.fillText(title, margin, margin);
+    ctx.textAlign = 'right';
+    ctx.fillText(`${page + 1} / ${pageCount}`, pageWidth - margin, margin);
+
+    ordered.slice(page * perPage, (page + 1) * perPage).forEach((photo, i) => {
+      const col = i % SHEET_COLUMNS;
+      const row = Math.floor(i / SHEET_COLUMNS);
+      // Each card is fitted to its cell, so tall strips shrink to match
+      const card = getCardLayout(photo);
+      const cardScale = Math.min(cellWidth / card.width, cellHeight / card.height) * 0.92;
+      const x = margin + col * cellWidth + (cellWidth - card.width * cardScale) / 2;
+      const y = margin + header + row * cellHeight + (cellHeight - card.height * cardScale) / 2;
+
+      ctx.save();
+      ctx.translate(x, y);
+      ctx.scale(cardScale, cardScale);
+      // Thin outline instead of a shadow so it prints cleanly
+      ctx.strokeStyle = '#d6d3d1';
+      ctx.lineWidth = 1;
+      ctx.strokeRect(0, 0, card.width, card.height);
+      drawCard(ctx, photo, images[page * perPage + i], false, frameImages[page * perPage + i]);
+      ctx.restore();
+    });
+
+    pages.push(canvas);
+  }
+
+  return pages;
+};
@@ -3,27 +3,127 @@ export interface Position {
   y: number;
 }
 
-export interface PhotoData {
+export type FilmStockId = 'none' | 'sepia' | 'polaroid-600' | 'bw-contrast' | 'cross-process' | 'light-leak';
+
+export type PhotoLayout = 'polaroid' | 'strip';
+
+export type CaptionPersonaId = 'nostalgic' | 'poetic' | 'funny' | 'haiku' | 'factual' | 'hashtags';
+
+// Subjects the AI tagger may pick from; see services/photoTags.ts
+export type PhotoTagId = 'people' | 'pets' | 'food' | 'outdoors' | 'indoors' | 'nature' | 'city' | 'night' | 'party' | 'art';
+
+// A face found in a photo, in fractions of the original capture (0..1) so it holds at any resolution
+export interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Non-destructive edits, applied to a photo's original by services/photoPipeline.ts
+export interface PhotoEdits {
+  quarterTurns: number; // Clockwise 90° turns, 0..3
+  crop: { x: number; y: number; size: number }; // Square, in fractions of the turned original
+  exposure: number; // Stops, -2..2
+  contrast: number; // -1..1
+  warmth: number; // -1..1, cooler to warmer
+}
+
+export interface CaptionStyle {
+  persona: CaptionPersonaId;
+  language: string | null; // BCP 47 tag; null = the browser's language
+  hint: string; // Optional context from the user, e.g. "grandma's 90th"
+}
+
+// Everything on a wall shares placement and one z-order, so photos and
+// decorations drag, stack and undo the same way.
+export interface WallItemBase {
   id: string;
-  dataUrl: string;
+  position: Position; // World coordinates of the unscaled top-left
+  rotation: number; // Degrees
+  scale: number;
+  zIndex: number;
+}
+
+export interface PhotoData extends WallItemBase {
+  kind: 'photo';
+  dataUrl: string; // The still as shown, rendered from `original`; also the poster frame of the clip
+  original: string; // The untouched capture
+  originalHasFilm: boolean; // Older photos only kept the processed image, film look included
+  edits: PhotoEdits;
+  clip: Blob | null; // "Live" video recorded around the shutter press, if any
   caption: string;
   date: string;
-  position: Position;
-  zIndex: number;
-  isDeveloping: boolean;
+  capturedAt: number; // Epoch ms, for anything that needs the real time rather than the display date
+  filmStock: FilmStockId;
+  layout: PhotoLayout;
+  frameCount: number; // Frames in the image: 1 for a single shot, N for a photo-booth strip
+  frameTemplate: string; // Card frame template id, see services/frameTemplates.ts; strips ignore it
+  captionStyle: CaptionStyle; // Reused when the caption is regenerated
+  tags: PhotoTagId[] | null; // AI-detected subjects, for search; null until tagged
+  faces: FaceBox[] | null; // Found by auto-framing at capture; null = not looked for
+  developProgress: number; // 0 = fresh out of the camera, 1 = fully developed
+  agitation: number; // 0..1, how hard the photo is being shaken right now
   isLoadingCaption: boolean;
+  captionError: string | null; // Why the last caption request failed, shown on the card
+}
+
+export type TapePattern = 'solid' | 'stripes' | 'dots';
+
+export interface StickerItem extends WallItemBase {
+  kind: 'sticker';
+  emoji: string;
+}
+
+export interface TapeItem extends WallItemBase {
+  kind: 'tape';
+  color: string; // CSS color; drawn translucent
+  pattern: TapePattern;
+  length: number; // px
+}
+
+export interface PinItem extends WallItemBase {
+  kind: 'pin';
+  color: string;
+}
+
+export interface InkItem extends WallItemBase {
+  kind: 'ink';
+  color: string;
+  width: number; // Stroke width, px
+  points: Position[]; // Relative to `position`
+}
+
+export type Decoration = StickerItem | TapeItem | PinItem | InkItem;
+
+export type WallItem = PhotoData | Decoration;
+
+export interface Wall {
+  id: string;
+  name: string;
+  background: string; // CSS color
+  createdAt: number;
+  photos: PhotoData[]; // Layout and zIndex ordering live on the items themselves
+  decorations: Decoration[]; // Share the z-order with the photos
 }
 
-export interface DragItem {
-  type: 'WALL_PHOTO' | 'NEW_PHOTO';
-  id?: string; // If wall photo
-  offsetX: number;
-  offsetY: number;
+export interface CaptionRequest {
+  dataUrl: string;
+  frames: string[]; // The individual shots; just [dataUrl] unless it's a sequence
+  capturedAt: number;
+  locale: string; // Output language, already resolved from the style
+  style: CaptionStyle;
+  filmStock?: FilmStockId;
 }
 
-// Augment window for html2canvas
-declare global {
-  interface Window {
-    html2canvas: (element: HTMLElement, options?: any) => Promise<HTMLCanvasElement>;
-  }
-}
\ No newline at end of file
+export interface TagRequest {
+  frames: string[]; // As in CaptionRequest
+}
+
+export interface CaptionProvider {
+  id: string;
+  label: string;
+  isAvailable: () => boolean;
+  generate: (request: CaptionRequest, signal?: AbortSignal) => Promise<string>; // Rejects on failure; errors may carry an HTTP `status`
+  tag?: (request: TagRequest, signal?: AbortSignal) => Promise<PhotoTagId[]>; // Structured output; omitted by providers that can't see the image
+}